@@ -0,0 +1,190 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { ApiMessageRequest, ApiPendingApproval, ApiSessionSummary, BackendToExtension } from "./protocol.js";
+
+const BODY_MAX_BYTES = 64 * 1024;
+const SSE_KEEPALIVE_MS = 15_000;
+const ROUTE_RE = /^\/api\/sessions(?:\/([^/]+)(?:\/(messages|events|approvals|cancel)(?:\/([^/]+))?)?)?$/;
+
+const ERROR_STATUS: Record<string, number> = {
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  BAD_REQUEST: 400,
+  PAYLOAD_TOO_LARGE: 413,
+  EXTENSION_NOT_READY: 503,
+};
+
+export type SessionListener = (message: BackendToExtension) => void;
+
+// Implemented by server.ts; the API only translates HTTP into these calls.
+export type ApiHooks = {
+  token: string;
+  isValidSessionId: (sessionId: string) => boolean;
+  listSessions: () => ApiSessionSummary[];
+  openSession: (sessionId: string) => Promise<void>;
+  runMessage: (sessionId: string, request: ApiMessageRequest, listener: SessionListener) => Promise<void>;
+  subscribe: (sessionId: string, listener: SessionListener) => (() => void) | null;
+  listApprovals: (sessionId: string) => ApiPendingApproval[] | null;
+  decideApproval: (sessionId: string, actionId: string, approved: boolean) => boolean;
+  cancel: (sessionId: string) => Promise<boolean>;
+};
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function bearerToken(req: IncomingMessage): string {
+  const header = req.headers.authorization ?? "";
+  return header.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : "";
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > BODY_MAX_BYTES) {
+      throw new Error("PAYLOAD_TOO_LARGE");
+    }
+    chunks.push(chunk as Buffer);
+  }
+  if (!size) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(Buffer.concat(chunks).toString("utf8")) as unknown;
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Reported as BAD_REQUEST below.
+  }
+  throw new Error("BAD_REQUEST");
+}
+
+function parseMessageRequest(body: Record<string, unknown>): ApiMessageRequest {
+  const text = typeof body.text === "string" ? body.text.trim() : "";
+  if (!text) {
+    throw new Error("BAD_REQUEST");
+  }
+  return {
+    text,
+    autoRun: body.autoRun === true,
+    stepMode: body.stepMode === true,
+    ...(typeof body.tabId === "number" ? { tabId: body.tabId } : {}),
+    ...(typeof body.pageUrl === "string" ? { pageUrl: body.pageUrl } : {}),
+  };
+}
+
+function openEventStream(res: ServerResponse) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  const keepAlive = setInterval(() => res.write(": keepalive\n\n"), SSE_KEEPALIVE_MS);
+  res.on("close", () => clearInterval(keepAlive));
+}
+
+// Tool requests are internal to the extension link; the pairing token never leaves the backend.
+function writeEvent(res: ServerResponse, message: BackendToExtension) {
+  if (message.type === "tool_request" || res.writableEnded) {
+    return;
+  }
+  const { token: _token, ...event } = message;
+  res.write(`event: ${message.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+async function route(hooks: ApiHooks, req: IncomingMessage, res: ServerResponse) {
+  // Web pages can reach 127.0.0.1 too; only non-browser clients (no Origin) may use the API.
+  if (req.headers.origin) {
+    throw new Error("FORBIDDEN");
+  }
+  if (bearerToken(req) !== hooks.token) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const match = ROUTE_RE.exec(url.pathname);
+  if (!match) {
+    throw new Error("NOT_FOUND");
+  }
+  const [, rawSessionId, resource, actionId] = match;
+  const sessionId = rawSessionId ? decodeURIComponent(rawSessionId) : "";
+  if (sessionId && !hooks.isValidSessionId(sessionId)) {
+    throw new Error("BAD_REQUEST");
+  }
+  const method = req.method ?? "GET";
+
+  if (!sessionId && method === "GET") {
+    sendJson(res, 200, { sessions: hooks.listSessions() });
+    return;
+  }
+
+  if (resource === "messages" && method === "POST") {
+    const request = parseMessageRequest(await readJsonBody(req));
+    await hooks.openSession(sessionId);
+    openEventStream(res);
+    await hooks.runMessage(sessionId, request, (message) => writeEvent(res, message)).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      res.write(`event: error\ndata: ${JSON.stringify({ error: message })}\n\n`);
+    });
+    res.end("event: done\ndata: {}\n\n");
+    return;
+  }
+
+  if (resource === "events" && method === "GET") {
+    const unsubscribe = hooks.subscribe(sessionId, (message) => writeEvent(res, message));
+    if (!unsubscribe) {
+      throw new Error("NOT_FOUND");
+    }
+    openEventStream(res);
+    res.on("close", unsubscribe);
+    return;
+  }
+
+  if (resource === "approvals" && !actionId && method === "GET") {
+    const approvals = hooks.listApprovals(sessionId);
+    if (!approvals) {
+      throw new Error("NOT_FOUND");
+    }
+    sendJson(res, 200, { approvals });
+    return;
+  }
+
+  if (resource === "approvals" && actionId && method === "POST") {
+    const body = await readJsonBody(req);
+    if (typeof body.approved !== "boolean") {
+      throw new Error("BAD_REQUEST");
+    }
+    if (!hooks.decideApproval(sessionId, decodeURIComponent(actionId), body.approved)) {
+      throw new Error("NOT_FOUND");
+    }
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+
+  if (resource === "cancel" && method === "POST") {
+    if (!(await hooks.cancel(sessionId))) {
+      throw new Error("NOT_FOUND");
+    }
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+
+  throw new Error("NOT_FOUND");
+}
+
+export function createApiHandler(hooks: ApiHooks) {
+  return (req: IncomingMessage, res: ServerResponse) => {
+    route(hooks, req, res).catch((error: unknown) => {
+      const code = error instanceof Error ? error.message : String(error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      sendJson(res, ERROR_STATUS[code] ?? 500, { ok: false, error: ERROR_STATUS[code] ? code : "INTERNAL_ERROR" });
+    });
+  };
+}
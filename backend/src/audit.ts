@@ -0,0 +1,161 @@
+import { appendFile, mkdir, readFile, readdir, stat, unlink } from "node:fs/promises";
+import path from "node:path";
+import { isValidSessionId } from "./history.js";
+import type { AuditRecord } from "./protocol.js";
+
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const PARAM_MAX_CHARS = 200;
+
+let auditDir = "";
+const writes = new Map<string, Promise<void>>();
+
+function fileFor(sessionId: string): string {
+  if (!isValidSessionId(sessionId)) {
+    throw new Error(`Invalid session id ${sessionId}`);
+  }
+  return path.join(auditDir, `${sessionId}.jsonl`);
+}
+
+// Deletes audit files that have not been written to for retentionDays; 0 keeps everything.
+async function pruneAuditLogs(retentionDays: number): Promise<number> {
+  if (retentionDays <= 0) {
+    return 0;
+  }
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  const files = (await readdir(auditDir).catch(() => [] as string[])).filter((name) => name.endsWith(".jsonl"));
+  let removed = 0;
+  for (const file of files) {
+    const filePath = path.join(auditDir, file);
+    const info = await stat(filePath).catch(() => null);
+    if (info && info.mtimeMs < cutoff) {
+      await unlink(filePath).catch(() => undefined);
+      removed += 1;
+    }
+  }
+  return removed;
+}
+
+export async function initAuditStore(dir: string, retentionDays: number, onPrune: (removed: number) => void) {
+  auditDir = dir;
+  await mkdir(dir, { recursive: true });
+  const prune = () =>
+    pruneAuditLogs(retentionDays).then((removed) => {
+      if (removed) {
+        onPrune(removed);
+      }
+    });
+  await prune();
+  setInterval(() => void prune(), PRUNE_INTERVAL_MS).unref();
+}
+
+// Appends are serialized per session so records land in the order they happened.
+export function appendAuditRecord(sessionId: string, record: AuditRecord): Promise<void> {
+  const previous = writes.get(sessionId) ?? Promise.resolve();
+  const next = previous.then(() => appendFile(fileFor(sessionId), `${JSON.stringify(record)}\n`, "utf8"));
+  writes.set(
+    sessionId,
+    next.catch(() => undefined),
+  );
+  return next;
+}
+
+// Returns the records of one run (the latest when runId is omitted).
+export async function loadAuditRun(sessionId: string, runId?: string): Promise<AuditRecord[]> {
+  if (!isValidSessionId(sessionId)) {
+    return [];
+  }
+  await writes.get(sessionId);
+  const content = await readFile(fileFor(sessionId), "utf8").catch(() => "");
+  const records: AuditRecord[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      records.push(JSON.parse(line) as AuditRecord);
+    } catch {
+      // Skip a line cut short by a crash.
+    }
+  }
+  const wanted = runId ?? [...records].reverse().find((record) => record.kind === "run_start")?.runId;
+  return wanted ? records.filter((record) => record.runId === wanted) : [];
+}
+
+function cell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function formatParams(params: Record<string, unknown>): string {
+  const text = JSON.stringify(params);
+  return text.length > PARAM_MAX_CHARS ? `${text.slice(0, PARAM_MAX_CHARS)}…` : text;
+}
+
+export function formatAuditReport(sessionId: string, records: AuditRecord[]): string {
+  const start = records.find((record) => record.kind === "run_start");
+  const end = records.find((record) => record.kind === "run_end");
+  if (!start || start.kind !== "run_start") {
+    return "# Run report\n\nNo run recorded.\n";
+  }
+
+  const lines = [
+    `# Run report ${start.runId}`,
+    "",
+    `- Session: ${sessionId}`,
+    `- Source: ${start.source}`,
+    `- Model: ${start.model}`,
+    `- Started: ${start.at}`,
+    `- Ended: ${end?.at ?? "not finished"}`,
+    `- Status: ${end?.kind === "run_end" ? end.status : "running"}`,
+    `- Auto-run: ${start.autoRun ? "on" : "off"}`,
+    `- Starting page: ${start.pageUrl || "unknown"}`,
+    "",
+    "## Prompt",
+    "",
+    ...start.prompt.split("\n").map((line) => `> ${line}`),
+    "",
+    "## Tool calls",
+    "",
+    "| Time | Tool | Params | Approval | Result | Page |",
+    "| --- | --- | --- | --- | --- | --- |",
+  ];
+
+  const approvals = new Map<string, string>();
+  for (const record of records) {
+    if (record.kind === "approval") {
+      const decision = record.timedOut ? "timed out" : record.approved ? "approved" : "rejected";
+      approvals.set(record.actionId, `${decision} ${record.decidedAt} (${record.reason})`);
+    }
+  }
+  const results = new Map(
+    records.flatMap((record) => (record.kind === "tool_result" ? [[record.actionId, record] as const] : [])),
+  );
+  for (const record of records) {
+    if (record.kind !== "tool_request") {
+      continue;
+    }
+    const result = results.get(record.actionId);
+    const failure = result && !result.ok ? `${result.error}${result.message ? `: ${result.message}` : ""}` : "";
+    const outcome = !result ? "no result" : result.ok ? `ok (${result.durationMs} ms)` : `${failure} (${result.durationMs} ms)`;
+    // Previews and automatic retries run under the approved action's id plus a suffix.
+    const baseId = record.actionId.replace(/(:preview)?(:retry\d+)?$/, "");
+    const approval = approvals.get(record.actionId) ?? approvals.get(baseId) ?? "";
+    lines.push(
+      `| ${record.at} | ${record.tool} | ${cell(formatParams(record.params))} | ${cell(approval)} | ${cell(outcome)} | ${cell(result?.pageUrl ?? "")} |`,
+    );
+  }
+
+  const denials = records.filter((record) => record.kind === "policy_denial");
+  if (denials.length) {
+    lines.push("", "## Policy denials", "");
+    for (const denial of denials) {
+      if (denial.kind === "policy_denial") {
+        lines.push(`- ${denial.at} ${denial.tool}: ${denial.reason} (rule ${denial.rule})`);
+      }
+    }
+  }
+
+  if (end?.kind === "run_end") {
+    lines.push("", "## Steps", "", ...end.steps.map((step) => `1. ${step}`), "", "## Final answer", "", end.final);
+  }
+  return `${lines.join("\n")}\n`;
+}
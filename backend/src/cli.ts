@@ -0,0 +1,172 @@
+import process from "node:process";
+import { createInterface } from "node:readline/promises";
+
+const baseUrl = (process.env.BACKEND_URL ?? "http://127.0.0.1:3210").replace(/\/+$/, "");
+const token = process.env.PAIRING_TOKEN ?? "";
+
+const USAGE = [
+  "Usage: npm run cli -- <command> [options]",
+  "",
+  "  run <sessionId> <prompt...> [--auto-run] [--step-mode] [--tab <tabId>]",
+  "      Send a prompt and stream the reply. Approvals are asked on the terminal when it is interactive.",
+  "  sessions                         List active sessions",
+  "  approvals <sessionId>            List pending approvals",
+  "  approve <sessionId> <actionId>   Approve a pending action",
+  "  reject <sessionId> <actionId>    Reject a pending action",
+  "  cancel <sessionId>               Cancel the running task",
+  "",
+  "Environment: PAIRING_TOKEN (required), BACKEND_URL (default http://127.0.0.1:3210)",
+].join("\n");
+
+type SseEvent = { event: string; data: Record<string, unknown> };
+
+async function api(path: string, init: { method?: string; body?: unknown } = {}): Promise<Response> {
+  const response = await fetch(`${baseUrl}/api${path}`, {
+    method: init.method ?? "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(init.body !== undefined ? { "Content-Type": "application/json" } : {}),
+    },
+    ...(init.body !== undefined ? { body: JSON.stringify(init.body) } : {}),
+  });
+  if (!response.ok) {
+    const body = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(`${response.status} ${body.error ?? response.statusText}`);
+  }
+  return response;
+}
+
+async function* readEvents(response: Response): AsyncGenerator<SseEvent> {
+  if (!response.body) {
+    return;
+  }
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of response.body) {
+    buffer += decoder.decode(chunk as Uint8Array, { stream: true });
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      let event = "message";
+      let data = "";
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event: ")) {
+          event = line.slice(7);
+        } else if (line.startsWith("data: ")) {
+          data += line.slice(6);
+        }
+      }
+      if (data) {
+        yield { event, data: JSON.parse(data) as Record<string, unknown> };
+      }
+    }
+  }
+}
+
+async function decide(sessionId: string, actionId: string, approved: boolean) {
+  await api(`/sessions/${encodeURIComponent(sessionId)}/approvals/${encodeURIComponent(actionId)}`, {
+    method: "POST",
+    body: { approved },
+  });
+}
+
+async function askApproval(sessionId: string, data: Record<string, unknown>) {
+  const label = (data.ui as { label?: string } | undefined)?.label ?? String(data.tool);
+  process.stderr.write(`\n? Approval needed: ${label} (${String(data.reason)})\n`);
+  if (!process.stdin.isTTY) {
+    process.stderr.write(`  Answer with: npm run cli -- approve ${sessionId} ${String(data.actionId)}\n`);
+    return;
+  }
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  const answer = await rl.question("  Approve? [y/N] ");
+  rl.close();
+  await decide(sessionId, String(data.actionId), /^y(es)?$/i.test(answer.trim()));
+}
+
+async function run(sessionId: string, args: string[]) {
+  const flags = new Set(args.filter((arg) => arg.startsWith("--")));
+  const tabIndex = args.indexOf("--tab");
+  const tabId = tabIndex !== -1 ? Number(args[tabIndex + 1]) : undefined;
+  const text = args.filter((arg, i) => !arg.startsWith("--") && (tabIndex === -1 || i !== tabIndex + 1)).join(" ");
+  if (!text) {
+    throw new Error("Missing prompt");
+  }
+
+  const response = await api(`/sessions/${encodeURIComponent(sessionId)}/messages`, {
+    method: "POST",
+    body: {
+      text,
+      autoRun: flags.has("--auto-run"),
+      stepMode: flags.has("--step-mode"),
+      ...(Number.isInteger(tabId) ? { tabId } : {}),
+    },
+  });
+
+  let streamed = false;
+  for await (const { event, data } of readEvents(response)) {
+    if (event === "assistant_delta") {
+      if (data.textDelta !== "...") {
+        process.stdout.write(String(data.textDelta));
+        streamed = true;
+      }
+    } else if (event === "step_event") {
+      process.stderr.write(`  • ${String(data.step)}\n`);
+    } else if (event === "approval_request") {
+      // Answered in the background so deltas keep streaming while the prompt is open.
+      askApproval(sessionId, data).catch((error) => process.stderr.write(`  Approval failed: ${String(error)}\n`));
+    } else if (event === "plan") {
+      const items = (data.items as Array<{ status: string; text: string }>) ?? [];
+      process.stderr.write(`  Plan: ${items.map((item) => `[${item.status}] ${item.text}`).join(" | ")}\n`);
+    } else if (event === "assistant_final") {
+      process.stdout.write(`${streamed ? "\n\n" : ""}${String(data.text)}\n`);
+      streamed = false;
+    } else if (event === "error") {
+      throw new Error(String(data.error));
+    }
+  }
+}
+
+async function main() {
+  const [command, sessionId, ...rest] = process.argv.slice(2);
+  if (!command || command === "help" || command === "--help") {
+    console.log(USAGE);
+    return;
+  }
+  if (!token) {
+    throw new Error("Set PAIRING_TOKEN to the backend's pairing token");
+  }
+  if (command !== "sessions" && !sessionId) {
+    throw new Error(`Missing sessionId\n\n${USAGE}`);
+  }
+
+  switch (command) {
+    case "run":
+      await run(sessionId, rest);
+      break;
+    case "sessions":
+      console.log(JSON.stringify(await (await api("/sessions")).json(), null, 2));
+      break;
+    case "approvals":
+      console.log(JSON.stringify(await (await api(`/sessions/${encodeURIComponent(sessionId)}/approvals`)).json(), null, 2));
+      break;
+    case "approve":
+    case "reject":
+      await decide(sessionId, rest[0] ?? "", command === "approve");
+      console.log(`${command === "approve" ? "Approved" : "Rejected"} ${rest[0]}`);
+      break;
+    case "cancel":
+      await api(`/sessions/${encodeURIComponent(sessionId)}/cancel`, { method: "POST" });
+      console.log("Cancelled");
+      break;
+    default:
+      throw new Error(`Unknown command ${command}\n\n${USAGE}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,134 @@
+import type { ToolFailure, ToolResultError } from "./protocol.js";
+
+type ErrorInfo = { retryable: boolean; message: string; hint: string };
+
+// Retryable codes mean the action did not happen (yet), so the backend repeats the call before the model sees it.
+const TOOL_ERRORS: Record<ToolResultError, ErrorInfo> = {
+  EXTENSION_NOT_READY: {
+    retryable: true,
+    message: "The extension or its page script did not answer.",
+    hint: "Try again shortly; if it keeps failing, ask the user to check that the extension is connected.",
+  },
+  INTERNAL_ERROR: {
+    retryable: false,
+    message: "The extension failed unexpectedly while running the tool.",
+    hint: "The action may have partly happened; check the page with browser.snapshot before repeating it.",
+  },
+  NO_ACTIVE_TAB: {
+    retryable: false,
+    message: "There is no working tab.",
+    hint: "Open a page with browser.tab_open or ask the user to focus a tab.",
+  },
+  PERMISSION_DENIED: {
+    retryable: false,
+    message: "The extension cannot access this page.",
+    hint: "Browser-internal and store pages cannot be scripted; navigate to a regular web page.",
+  },
+  NOT_FOUND: {
+    retryable: false,
+    message: "No element matched the target.",
+    hint: "Call browser.find or browser.snapshot again and use a selector or ref from the new result.",
+  },
+  TIMEOUT: {
+    retryable: false,
+    message: "The browser did not finish in time.",
+    hint: "The action may still have happened; check the page with browser.snapshot before repeating it.",
+  },
+  CANCELLED: {
+    retryable: false,
+    message: "The user stopped the task.",
+    hint: "Do not continue the task.",
+  },
+  APPROVAL_REJECTED: {
+    retryable: false,
+    message: "The user rejected this action.",
+    hint: "Do not retry the same action; ask the user how to proceed.",
+  },
+  SECRET_NOT_FOUND: {
+    retryable: false,
+    message: "A {{secret:name}} placeholder names a secret that is not stored.",
+    hint: "Ask the user to add the secret in the side panel settings.",
+  },
+  SECRET_NOT_ALLOWED: {
+    retryable: false,
+    message: "Secrets are only typed into sensitive fields on the site they were saved for.",
+    hint: "Type the placeholder only into the password, card or code field of the site the secret belongs to; never into other fields.",
+  },
+  INVALID_SELECTOR: {
+    retryable: false,
+    message: "The selector is not valid CSS.",
+    hint: "Use a selector returned by browser.find or a ref from browser.snapshot.",
+  },
+  INVALID_ARGUMENT: {
+    retryable: false,
+    message: "The tool was called with invalid arguments.",
+    hint: "Fix the arguments as described in the message and call the tool again.",
+  },
+  NOT_VISIBLE: {
+    retryable: true,
+    message: "The element is hidden or has no size.",
+    hint: "Scroll it into view, open the menu or dialog that contains it, or wait for it to appear.",
+  },
+  NOT_EDITABLE: {
+    retryable: false,
+    message: "The target does not accept text (not a text field, disabled or read-only).",
+    hint: "Target the input itself; use browser.select_option or browser.set_checked for other controls.",
+  },
+  STALE_ELEMENT: {
+    retryable: true,
+    message: "The element was removed or re-rendered since it was found.",
+    hint: "Call browser.snapshot or browser.find again and use the fresh ref or selector.",
+  },
+  AMBIGUOUS_TARGET: {
+    retryable: false,
+    message: "The page changed and several elements now match the target.",
+    hint: "Call browser.find again and pick one candidate; do not guess.",
+  },
+  NAVIGATION_FAILED: {
+    retryable: false,
+    message: "The page could not be loaded.",
+    hint: "Check the URL; the site may be unreachable or refuse the navigation.",
+  },
+  BLOCKED_BY_POLICY: {
+    retryable: false,
+    message: "The local safety policy denied this call.",
+    hint: "Do not try to work around it; tell the user which rule blocked the action.",
+  },
+};
+
+// message stays the bare code so checks like `error.message === "CANCELLED"` keep working.
+export class ToolError extends Error {
+  constructor(
+    readonly code: ToolResultError,
+    readonly detail = "",
+  ) {
+    super(code);
+    this.name = "ToolError";
+  }
+}
+
+export function isToolErrorCode(value: unknown): value is ToolResultError {
+  return typeof value === "string" && Object.hasOwn(TOOL_ERRORS, value);
+}
+
+export function toErrorCode(value: unknown): ToolResultError {
+  return isToolErrorCode(value) ? value : "INTERNAL_ERROR";
+}
+
+export function isRetryable(code: ToolResultError): boolean {
+  return TOOL_ERRORS[code].retryable;
+}
+
+export function toolFailure(code: ToolResultError, message = ""): ToolFailure {
+  const info = TOOL_ERRORS[code];
+  return { ok: false, error: code, message: message || info.message, retryable: info.retryable, hint: info.hint };
+}
+
+// Anything that is not a known code is a usage error from the handler itself (e.g. a missing argument).
+export function toToolFailure(error: unknown): ToolFailure {
+  if (error instanceof ToolError) {
+    return toolFailure(error.code, error.detail);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return isToolErrorCode(message) ? toolFailure(message) : toolFailure("INVALID_ARGUMENT", message);
+}
@@ -0,0 +1,111 @@
+import { appendFile, mkdir, readFile, readdir } from "node:fs/promises";
+import path from "node:path";
+import type { HistoryEntry, HistorySummary, StoredConversation } from "./protocol.js";
+
+const TITLE_MAX_CHARS = 80;
+const SESSION_ID_RE = /^[A-Za-z0-9_-]{1,128}$/;
+
+let historyDir = "";
+const writes = new Map<string, Promise<void>>();
+
+export function isValidSessionId(sessionId: string): boolean {
+  return SESSION_ID_RE.test(sessionId);
+}
+
+function fileFor(sessionId: string): string {
+  // Session ids come from the extension, so never let one escape the history directory.
+  if (!isValidSessionId(sessionId)) {
+    throw new Error(`Invalid session id ${sessionId}`);
+  }
+  return path.join(historyDir, `${sessionId}.jsonl`);
+}
+
+function entryFromUnknown(value: unknown): HistoryEntry | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const item = value as Record<string, unknown>;
+  if (typeof item.at !== "string" || typeof item.kind !== "string" || typeof item.text !== "string") {
+    return null;
+  }
+  return item as HistoryEntry;
+}
+
+function parseEntries(content: string): HistoryEntry[] {
+  const entries: HistoryEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const entry = entryFromUnknown(JSON.parse(line));
+      if (entry) {
+        entries.push(entry);
+      }
+    } catch {
+      // A line cut short by a crash should not hide the rest of the conversation.
+    }
+  }
+  return entries;
+}
+
+function toConversation(sessionId: string, entries: HistoryEntry[]): StoredConversation {
+  const firstUser = entries.find((entry) => entry.kind === "user");
+  return {
+    sessionId,
+    title: firstUser ? firstUser.text.slice(0, TITLE_MAX_CHARS) : "",
+    createdAt: entries[0]?.at ?? "",
+    updatedAt: entries[entries.length - 1]?.at ?? "",
+    entries,
+  };
+}
+
+export async function initHistoryStore(dir: string): Promise<void> {
+  historyDir = dir;
+  await mkdir(dir, { recursive: true });
+}
+
+// Appends are serialized per session so entries land in the order they were recorded.
+export function appendHistoryEntry(sessionId: string, entry: HistoryEntry): Promise<void> {
+  const previous = writes.get(sessionId) ?? Promise.resolve();
+  const next = previous.then(() => appendFile(fileFor(sessionId), `${JSON.stringify(entry)}\n`, "utf8"));
+  writes.set(
+    sessionId,
+    next.catch(() => undefined),
+  );
+  return next;
+}
+
+export async function loadConversation(sessionId: string): Promise<StoredConversation | null> {
+  if (!isValidSessionId(sessionId)) {
+    return null;
+  }
+  await writes.get(sessionId);
+  try {
+    const entries = parseEntries(await readFile(fileFor(sessionId), "utf8"));
+    return entries.length ? toConversation(sessionId, entries) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function listConversations(): Promise<HistorySummary[]> {
+  const files = (await readdir(historyDir).catch(() => [] as string[])).filter((name) => name.endsWith(".jsonl"));
+  const summaries: HistorySummary[] = [];
+
+  for (const file of files) {
+    const conversation = await loadConversation(path.basename(file, ".jsonl"));
+    if (!conversation || !conversation.title) {
+      continue;
+    }
+    summaries.push({
+      sessionId: conversation.sessionId,
+      title: conversation.title,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+      messageCount: conversation.entries.filter((entry) => entry.kind === "user" || entry.kind === "assistant").length,
+    });
+  }
+
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
@@ -0,0 +1,110 @@
+import { existsSync } from "node:fs";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { isSecretReference } from "./redact.js";
+import type { Macro, MacroParam, MacroStep } from "./protocol.js";
+
+const PARAM_RE = /\{([a-z0-9_]+)\}/gi;
+
+let macrosPath = "";
+
+export function initMacroStore(filePath: string) {
+  macrosPath = filePath;
+}
+
+export async function listMacros(): Promise<Macro[]> {
+  if (!existsSync(macrosPath)) {
+    return [];
+  }
+  const parsed = JSON.parse(await readFile(macrosPath, "utf8")) as { macros?: unknown };
+  return Array.isArray(parsed.macros) ? (parsed.macros as Macro[]) : [];
+}
+
+export async function getMacro(name: string): Promise<Macro | null> {
+  return (await listMacros()).find((macro) => macro.name === name) ?? null;
+}
+
+async function writeMacros(macros: Macro[]) {
+  const tmp = `${macrosPath}.tmp`;
+  await writeFile(tmp, `${JSON.stringify({ macros }, null, 2)}\n`, "utf8");
+  await rename(tmp, macrosPath);
+}
+
+export async function saveMacro(macro: Macro): Promise<void> {
+  const macros = (await listMacros()).filter((existing) => existing.name !== macro.name);
+  macros.push(macro);
+  macros.sort((a, b) => a.name.localeCompare(b.name));
+  await writeMacros(macros);
+}
+
+export async function deleteMacro(name: string): Promise<boolean> {
+  const macros = await listMacros();
+  const remaining = macros.filter((macro) => macro.name !== name);
+  if (remaining.length === macros.length) {
+    return false;
+  }
+  await writeMacros(remaining);
+  return true;
+}
+
+function paramSlug(value: string, fallback: string): string {
+  const slug = value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 30);
+  return slug || fallback;
+}
+
+// Typed text and form values become {param} placeholders; the recorded value is kept as the default, except for
+// sensitive values, which become required params.
+export function buildMacro(name: string, sourceSessionId: string, calls: MacroStep[]): Macro {
+  const params: MacroParam[] = [];
+  const addParam = (base: string, defaultValue: string, required: boolean) => {
+    let paramName = base;
+    for (let n = 2; params.some((p) => p.name === paramName); n += 1) {
+      paramName = `${base}${n}`;
+    }
+    params.push({ name: paramName, defaultValue, ...(required ? { required } : {}) });
+    return `{${paramName}}`;
+  };
+
+  const steps = calls.map((call): MacroStep => {
+    const args = structuredClone(call.args);
+    // Sensitive values are asked for on every run unless they were secret placeholders.
+    const param = (base: string, key: string, value: string) => {
+      const sensitive = call.sensitiveFields?.includes(key) && !isSecretReference(value);
+      return sensitive ? addParam(base, "", true) : addParam(base, value, false);
+    };
+    if (call.tool === "browser_type" && typeof args.text === "string") {
+      args.text = param(paramSlug(call.target ?? "", "text"), "text", args.text);
+    }
+    if (call.tool === "browser_fill_form" && args.fields && typeof args.fields === "object") {
+      const fields = args.fields as Record<string, unknown>;
+      for (const [field, value] of Object.entries(fields)) {
+        fields[field] = param(paramSlug(field, "field"), field, String(value));
+      }
+    }
+    return { ...call, args };
+  });
+
+  return { name, createdAt: new Date().toISOString(), sourceSessionId, params, steps };
+}
+
+// Only the values buildMacro turned into placeholders are filled in; selectors, URLs and other arguments that happen
+// to contain braces are replayed as recorded, and so are placeholders without a value.
+export function substituteParams(step: MacroStep, values: Record<string, string>): Record<string, unknown> {
+  const args = structuredClone(step.args);
+  const fill = (value: string) => value.replace(PARAM_RE, (match, key: string) => values[key] ?? match);
+  if (step.tool === "browser_type" && typeof args.text === "string") {
+    args.text = fill(args.text);
+  }
+  if (step.tool === "browser_fill_form" && args.fields && typeof args.fields === "object") {
+    const fields = args.fields as Record<string, unknown>;
+    for (const [field, value] of Object.entries(fields)) {
+      if (typeof value === "string") {
+        fields[field] = fill(value);
+      }
+    }
+  }
+  return args;
+}
@@ -0,0 +1,52 @@
+import process from "node:process";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { createMcpServer, MCP_PATH, MCP_SERVER_INFO } from "./mcp.js";
+
+// Approvals wait up to a minute before the tool itself runs.
+const CALL_TIMEOUT_MS = 180_000;
+
+const baseUrl = (process.env.BACKEND_URL ?? "http://127.0.0.1:3210").replace(/\/+$/, "");
+const token = process.env.PAIRING_TOKEN ?? "";
+
+// stdout carries the MCP protocol, so diagnostics go to stderr.
+function log(message: string) {
+  process.stderr.write(`[mcp-stdio] ${message}\n`);
+}
+
+async function main() {
+  if (!token) {
+    throw new Error("Set PAIRING_TOKEN to the backend's pairing token");
+  }
+
+  // The backend owns the extension connection; this process only bridges stdio to its HTTP transport.
+  const upstream = new Client({ name: `${MCP_SERVER_INFO.name}-stdio`, version: MCP_SERVER_INFO.version });
+  const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}${MCP_PATH}`), {
+    requestInit: { headers: { Authorization: `Bearer ${token}` } },
+  });
+  await upstream.connect(transport);
+
+  const server = createMcpServer(
+    async () => (await upstream.listTools()).tools,
+    async (name, args) =>
+      (await upstream.callTool({ name, arguments: args }, undefined, { timeout: CALL_TIMEOUT_MS })) as CallToolResult,
+  );
+  await server.connect(new StdioServerTransport());
+  log(`Bridging stdio to ${baseUrl}${MCP_PATH}`);
+
+  // Ending the upstream session lets the backend release its browser session right away.
+  process.stdin.on("close", () => {
+    void transport
+      .terminateSession()
+      .catch(() => undefined)
+      .then(() => upstream.close())
+      .finally(() => process.exit(0));
+  });
+}
+
+main().catch((error) => {
+  log(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
@@ -0,0 +1,113 @@
+import { randomUUID } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type CallToolResult,
+  type Tool as McpTool,
+} from "@modelcontextprotocol/sdk/types.js";
+
+export const MCP_PATH = "/mcp";
+export const MCP_SERVER_INFO = { name: "copilot-browser", version: "0.1.0" };
+
+// Implemented by server.ts; each MCP session drives its own browser session through the extension.
+export type McpHooks = {
+  token: string;
+  listTools: () => McpTool[];
+  callTool: (mcpSessionId: string, name: string, args: Record<string, unknown>) => Promise<unknown>;
+  closeSession: (mcpSessionId: string) => void;
+};
+
+type BinaryResult = { data: string; mimeType: string; type: string };
+
+// Tool handlers return plain JSON, or a Copilot ToolResultObject when they attach an image.
+export function toCallToolResult(value: unknown): CallToolResult {
+  const result = value && typeof value === "object" ? (value as Record<string, unknown>) : null;
+  if (result && typeof result.textResultForLlm === "string") {
+    const images = Array.isArray(result.binaryResultsForLlm) ? (result.binaryResultsForLlm as BinaryResult[]) : [];
+    return {
+      content: [
+        { type: "text", text: result.textResultForLlm },
+        ...images.map((image) => ({ type: "image" as const, data: image.data, mimeType: image.mimeType })),
+      ],
+      isError: result.resultType === "failure",
+    };
+  }
+  return {
+    content: [{ type: "text", text: JSON.stringify(value ?? { ok: true }) }],
+    isError: result?.ok === false,
+  };
+}
+
+export function createMcpServer(
+  listTools: () => Promise<McpTool[]> | McpTool[],
+  callTool: (name: string, args: Record<string, unknown>, mcpSessionId: string) => Promise<CallToolResult>,
+): McpServer {
+  // The tools keep their JSON schemas from createTools, so the low-level handlers are used instead of registerTool.
+  const mcp = new McpServer(MCP_SERVER_INFO, { capabilities: { tools: {} } });
+  mcp.server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: await listTools() }));
+  mcp.server.setRequestHandler(CallToolRequestSchema, async (request, extra) =>
+    callTool(request.params.name, request.params.arguments ?? {}, extra.sessionId ?? ""),
+  );
+  return mcp;
+}
+
+export function createMcpHandler(hooks: McpHooks) {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+
+  const callTool = async (name: string, args: Record<string, unknown>, mcpSessionId: string) => {
+    try {
+      return toCallToolResult(await hooks.callTool(mcpSessionId, name, args));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { content: [{ type: "text" as const, text: message }], isError: true };
+    }
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    // Same rules as the REST API: local non-browser clients holding the pairing token.
+    const authorization = req.headers.authorization ?? "";
+    if (req.headers.origin || authorization !== `Bearer ${hooks.token}`) {
+      res.writeHead(req.headers.origin ? 403 : 401).end();
+      return;
+    }
+
+    const sessionHeader = req.headers["mcp-session-id"];
+    const mcpSessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    let transport = mcpSessionId ? transports.get(mcpSessionId) : undefined;
+
+    if (!transport) {
+      if (mcpSessionId || req.method !== "POST") {
+        res.writeHead(404, { "Content-Type": "application/json" }).end(JSON.stringify({ error: "Unknown MCP session" }));
+        return;
+      }
+      const created = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => `mcp-${randomUUID()}`,
+        onsessioninitialized: (id) => {
+          transports.set(id, created);
+        },
+      });
+      created.onclose = () => {
+        if (created.sessionId) {
+          transports.delete(created.sessionId);
+          hooks.closeSession(created.sessionId);
+        }
+      };
+      await createMcpServer(hooks.listTools, callTool).connect(created);
+      transport = created;
+    }
+
+    await transport.handleRequest(req, res);
+  };
+
+  return (req: IncomingMessage, res: ServerResponse) => {
+    handle(req, res).catch((error: unknown) => {
+      if (!res.headersSent) {
+        res.writeHead(500, { "Content-Type": "application/json" });
+      }
+      res.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+    });
+  };
+}
@@ -0,0 +1,278 @@
+import { existsSync, watch, type FSWatcher } from "node:fs";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { TOOL_NAMES, type ActivePolicy, type DomainRule, type SafetyPolicy, type ToolName } from "./protocol.js";
+
+const RELOAD_DEBOUNCE_MS = 200;
+
+type CompiledDomainRule = {
+  pattern: string;
+  alwaysAsk: RegExp[];
+  neverAllow: RegExp[];
+  disabledTools: Set<ToolName>;
+};
+
+type CompiledPolicy = {
+  allowedDomains: string[];
+  blockedDomains: string[];
+  domains: CompiledDomainRule[];
+  maxActionsPerRun: number | null;
+};
+
+export type PolicyContext = {
+  tool: ToolName;
+  pageUrl: string;
+  targetUrl?: string;
+  actionText?: string;
+  actionCount: number;
+};
+
+export type PolicyVerdict =
+  | { decision: "allow" }
+  | { decision: "ask"; rule: string; reason: string }
+  | { decision: "deny"; rule: string; reason: string };
+
+let active: ActivePolicy = { source: null, loadedAt: new Date().toISOString(), policy: {} };
+let compiled: CompiledPolicy = compilePolicy({});
+
+function stringList(value: unknown, field: string): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new Error(`${field} must be a list of strings`);
+  }
+  return value.map((item: string) => item.trim()).filter(Boolean);
+}
+
+function validateDomainRule(pattern: string, value: unknown): DomainRule {
+  if (!value || typeof value !== "object") {
+    throw new Error(`domains.${pattern} must be an object`);
+  }
+  const raw = value as Record<string, unknown>;
+  const disabledTools = stringList(raw.disabledTools, `domains.${pattern}.disabledTools`);
+  const unknownTool = disabledTools.find((tool) => !TOOL_NAMES.includes(tool as ToolName));
+  if (unknownTool) {
+    throw new Error(`domains.${pattern}.disabledTools has unknown tool ${unknownTool}`);
+  }
+  return {
+    alwaysAsk: stringList(raw.alwaysAsk, `domains.${pattern}.alwaysAsk`),
+    neverAllow: stringList(raw.neverAllow, `domains.${pattern}.neverAllow`),
+    disabledTools: disabledTools as ToolName[],
+  };
+}
+
+function validatePolicy(value: unknown): SafetyPolicy {
+  if (value === null || value === undefined) {
+    return {};
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Policy must be an object");
+  }
+  const raw = value as Record<string, unknown>;
+  const policy: SafetyPolicy = {
+    allowedDomains: stringList(raw.allowedDomains, "allowedDomains"),
+    blockedDomains: stringList(raw.blockedDomains, "blockedDomains"),
+    domains: {},
+  };
+
+  if (raw.domains !== undefined) {
+    if (!raw.domains || typeof raw.domains !== "object") {
+      throw new Error("domains must be an object keyed by domain pattern");
+    }
+    for (const [pattern, rule] of Object.entries(raw.domains)) {
+      policy.domains![pattern.toLowerCase()] = validateDomainRule(pattern, rule);
+    }
+  }
+
+  if (raw.maxActionsPerRun !== undefined) {
+    if (typeof raw.maxActionsPerRun !== "number" || !Number.isInteger(raw.maxActionsPerRun) || raw.maxActionsPerRun < 1) {
+      throw new Error("maxActionsPerRun must be a positive integer");
+    }
+    policy.maxActionsPerRun = raw.maxActionsPerRun;
+  }
+
+  return policy;
+}
+
+function compilePattern(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern, "i");
+  } catch {
+    throw new Error(`Invalid action pattern: ${pattern}`);
+  }
+}
+
+function compilePolicy(policy: SafetyPolicy): CompiledPolicy {
+  return {
+    allowedDomains: (policy.allowedDomains ?? []).map((d) => d.toLowerCase()),
+    blockedDomains: (policy.blockedDomains ?? []).map((d) => d.toLowerCase()),
+    domains: Object.entries(policy.domains ?? {}).map(([pattern, rule]) => ({
+      pattern,
+      alwaysAsk: (rule.alwaysAsk ?? []).map(compilePattern),
+      neverAllow: (rule.neverAllow ?? []).map(compilePattern),
+      disabledTools: new Set(rule.disabledTools ?? []),
+    })),
+    maxActionsPerRun: policy.maxActionsPerRun ?? null,
+  };
+}
+
+function parsePolicyFile(filePath: string, content: string): unknown {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === ".yaml" || ext === ".yml") {
+    return parseYaml(content);
+  }
+  return JSON.parse(content);
+}
+
+// `example.com` matches the domain and its subdomains; `*.example.com` only subdomains; `*` matches all.
+export function domainMatches(pattern: string, host: string): boolean {
+  if (!host) {
+    return false;
+  }
+  if (pattern === "*") {
+    return true;
+  }
+  if (pattern.startsWith("*.")) {
+    return host.endsWith(pattern.slice(1));
+  }
+  return host === pattern || host.endsWith(`.${pattern}`);
+}
+
+export function hostFromUrl(raw: string): string {
+  const value = raw.trim();
+  if (!value) {
+    return "";
+  }
+  if (!/^https?:\/\//i.test(value) && !/^[a-z0-9.-]+\.[a-z]{2,}(\/.*)?$/i.test(value)) {
+    // Mirrors the extension's normalizeUrl: free text becomes a Google search.
+    return "www.google.com";
+  }
+  try {
+    const url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+    return url.hostname.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+export function getActivePolicy(): ActivePolicy {
+  return active;
+}
+
+export async function loadSafetyPolicy(filePath: string): Promise<ActivePolicy> {
+  const loadedAt = new Date().toISOString();
+  if (!existsSync(filePath)) {
+    active = { source: null, loadedAt, policy: {} };
+    compiled = compilePolicy({});
+    return active;
+  }
+
+  try {
+    const policy = validatePolicy(parsePolicyFile(filePath, await readFile(filePath, "utf8")));
+    compiled = compilePolicy(policy);
+    active = { source: filePath, loadedAt, policy };
+  } catch (error) {
+    // Keep enforcing the last good policy when an edit breaks the file.
+    const message = error instanceof Error ? error.message : String(error);
+    active = { ...active, source: filePath, loadedAt, error: message };
+  }
+  return active;
+}
+
+// Returns null when the policy's directory does not exist (or cannot be watched); edits then need a restart.
+export function watchSafetyPolicy(filePath: string, onReload: (policy: ActivePolicy) => void): FSWatcher | null {
+  const dir = path.dirname(filePath);
+  const base = path.basename(filePath);
+  let timer: NodeJS.Timeout | null = null;
+
+  if (!existsSync(dir)) {
+    return null;
+  }
+  try {
+    // Watch the directory so editors that replace the file on save are still picked up.
+    const watcher = watch(dir, (_event, changed) => {
+      if (changed !== base) {
+        return;
+      }
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(() => {
+        timer = null;
+        loadSafetyPolicy(filePath).then(onReload).catch(() => undefined);
+      }, RELOAD_DEBOUNCE_MS);
+    });
+    // Removing the directory later emits an error, which would otherwise crash the backend.
+    watcher.on("error", () => watcher.close());
+    return watcher;
+  } catch {
+    return null;
+  }
+}
+
+export function evaluatePolicy(context: PolicyContext): PolicyVerdict {
+  if (compiled.maxActionsPerRun !== null && context.actionCount >= compiled.maxActionsPerRun) {
+    return {
+      decision: "deny",
+      rule: "maxActionsPerRun",
+      reason: `Run exceeded the budget of ${compiled.maxActionsPerRun} browser actions.`,
+    };
+  }
+
+  // Any tool that names a URL (navigate, tab_open, download) is held to the domain lists.
+  if (context.targetUrl !== undefined) {
+    const targetHost = hostFromUrl(context.targetUrl);
+    const what = context.tool === "browser_download" ? "Downloading from" : "Navigation to";
+    const blocked = compiled.blockedDomains.find((pattern) => domainMatches(pattern, targetHost));
+    if (blocked) {
+      return { decision: "deny", rule: `blockedDomains:${blocked}`, reason: `${what} ${targetHost} is blocked.` };
+    }
+    if (
+      compiled.allowedDomains.length &&
+      !compiled.allowedDomains.some((pattern) => domainMatches(pattern, targetHost))
+    ) {
+      return {
+        decision: "deny",
+        rule: "allowedDomains",
+        reason: `${what} ${targetHost || "that address"} is outside the allowed domains.`,
+      };
+    }
+  }
+
+  const pageHost = hostFromUrl(context.pageUrl);
+  const rules = compiled.domains.filter((rule) => domainMatches(rule.pattern, pageHost));
+  const actionText = context.actionText ?? "";
+
+  for (const rule of rules) {
+    if (rule.disabledTools.has(context.tool)) {
+      return {
+        decision: "deny",
+        rule: `domains.${rule.pattern}.disabledTools`,
+        reason: `${context.tool} is disabled on ${pageHost}.`,
+      };
+    }
+    const never = actionText ? rule.neverAllow.find((re) => re.test(actionText)) : undefined;
+    if (never) {
+      return {
+        decision: "deny",
+        rule: `domains.${rule.pattern}.neverAllow`,
+        reason: `Action matches never-allow pattern ${never.source} on ${pageHost}.`,
+      };
+    }
+  }
+
+  for (const rule of rules) {
+    const ask = actionText ? rule.alwaysAsk.find((re) => re.test(actionText)) : undefined;
+    if (ask) {
+      return {
+        decision: "ask",
+        rule: `domains.${rule.pattern}.alwaysAsk`,
+        reason: `policy requires approval (${ask.source})`,
+      };
+    }
+  }
+
+  return { decision: "allow" };
+}
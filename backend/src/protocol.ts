@@ -1,18 +1,72 @@
-export type ToolName = "browser_find" | "browser_highlight" | "browser_click" | "browser_type" | "browser_navigate" | "browser_select_candidate";
+// The one list of tool names; the policy file's disabledTools is checked against it.
+export const TOOL_NAMES = [
+  "browser_find",
+  "browser_highlight",
+  "browser_click",
+  "browser_type",
+  "browser_navigate",
+  "browser_select_candidate",
+  "browser_read_page",
+  "browser_snapshot",
+  "browser_tabs_list",
+  "browser_tab_open",
+  "browser_tab_switch",
+  "browser_tab_close",
+  "browser_wait",
+  "browser_select_option",
+  "browser_set_checked",
+  "browser_press_key",
+  "browser_hover",
+  "browser_scroll",
+  "browser_fill_form",
+  "browser_extract",
+  "browser_screenshot",
+  "browser_upload",
+  "browser_download",
+  "browser_plan",
+  "browser_plan_update",
+] as const;
+
+export type ToolName = (typeof TOOL_NAMES)[number];
 
 export type ToolResultError =
   | "EXTENSION_NOT_READY"
+  | "INTERNAL_ERROR"
   | "NO_ACTIVE_TAB"
   | "PERMISSION_DENIED"
   | "NOT_FOUND"
   | "TIMEOUT"
-  | "CANCELLED";
+  | "CANCELLED"
+  | "APPROVAL_REJECTED"
+  | "SECRET_NOT_FOUND"
+  | "SECRET_NOT_ALLOWED"
+  | "INVALID_SELECTOR"
+  | "INVALID_ARGUMENT"
+  | "NOT_VISIBLE"
+  | "NOT_EDITABLE"
+  | "STALE_ELEMENT"
+  | "AMBIGUOUS_TARGET"
+  | "NAVIGATION_FAILED"
+  | "BLOCKED_BY_POLICY";
+
+// What the model and MCP clients get back for a failed tool call.
+export type ToolFailure = {
+  ok: false;
+  error: ToolResultError;
+  message: string;
+  retryable: boolean;
+  hint: string;
+};
 
 export type UserMessage = {
   type: "user_message";
   sessionId: string;
   token: string;
   text: string;
+  autoRun?: boolean;
+  stepMode?: boolean;
+  pageUrl?: string;
+  tabId?: number;
 };
 
 export type UserApproval = {
@@ -37,9 +91,157 @@ export type ToolResult = {
   ok: boolean;
   data?: unknown;
   error?: ToolResultError;
+  message?: string;
+  pageUrl?: string;
+};
+
+export type GetPolicy = {
+  type: "get_policy";
+  sessionId: string;
+  token: string;
+};
+
+export type ListHistory = {
+  type: "list_history";
+  sessionId: string;
+  token: string;
+};
+
+export type GetHistory = {
+  type: "get_history";
+  sessionId: string;
+  token: string;
+};
+
+export type Resume = {
+  type: "resume";
+  sessionId: string;
+  token: string;
+  lastSeq: number;
+};
+
+export type Ping = {
+  type: "ping";
+  sessionId: string;
+  token: string;
+};
+
+export type PlanContinue = {
+  type: "plan_continue";
+  sessionId: string;
+  token: string;
+};
+
+export type PlanEdit = {
+  type: "plan_edit";
+  sessionId: string;
+  token: string;
+  items: Array<{ id?: string; text: string }>;
+};
+
+export type GetAudit = {
+  type: "get_audit";
+  sessionId: string;
+  token: string;
+  runId?: string;
+};
+
+export type ListModels = {
+  type: "list_models";
+  sessionId: string;
+  token: string;
+};
+
+// null switches the session back to the Copilot CLI default model.
+export type SetModel = {
+  type: "set_model";
+  sessionId: string;
+  token: string;
+  model: string | null;
+};
+
+export type SaveMacro = {
+  type: "save_macro";
+  sessionId: string;
+  token: string;
+  name: string;
+};
+
+export type ListMacros = {
+  type: "list_macros";
+  sessionId: string;
+  token: string;
+};
+
+export type RunMacro = {
+  type: "run_macro";
+  sessionId: string;
+  token: string;
+  name: string;
+  args?: Record<string, string>;
+  autoRun?: boolean;
+  pageUrl?: string;
+  tabId?: number;
+};
+
+export type DeleteMacro = {
+  type: "delete_macro";
+  sessionId: string;
+  token: string;
+  name: string;
+};
+
+export type ListJobs = {
+  type: "list_jobs";
+  sessionId: string;
+  token: string;
+};
+
+export type SaveJob = {
+  type: "save_job";
+  sessionId: string;
+  token: string;
+  job: JobInput;
+};
+
+export type DeleteJob = {
+  type: "delete_job";
+  sessionId: string;
+  token: string;
+  jobId: string;
+};
+
+// Runs the job now, in addition to its schedule.
+export type RunJob = {
+  type: "run_job";
+  sessionId: string;
+  token: string;
+  jobId: string;
 };
 
-export type ExtensionToBackend = UserMessage | UserApproval | Cancel | ToolResult;
+export type ExtensionToBackend =
+  | UserMessage
+  | UserApproval
+  | Cancel
+  | ToolResult
+  | GetPolicy
+  | ListHistory
+  | GetHistory
+  | Resume
+  | Ping
+  | PlanContinue
+  | PlanEdit
+  | GetAudit
+  | ListModels
+  | SetModel
+  | SaveMacro
+  | ListMacros
+  | RunMacro
+  | DeleteMacro
+  | ListJobs
+  | SaveJob
+  | DeleteJob
+  | RunJob;
 
 export type AssistantDelta = {
   type: "assistant_delta";
@@ -64,6 +266,19 @@ export type ToolRequest = {
   params: Record<string, unknown>;
   ui: { label: string };
   timeoutMs: number;
+  tabId?: number;
+};
+
+export type ApprovalRequest = {
+  type: "approval_request";
+  sessionId: string;
+  token: string;
+  actionId: string;
+  tool: ToolName;
+  params: Record<string, unknown>;
+  ui: { label: string };
+  reason: string;
+  tabId?: number;
 };
 
 export type StepEvent = {
@@ -73,14 +288,540 @@ export type StepEvent = {
   step: string;
 };
 
-export type BackendToExtension = AssistantDelta | AssistantFinal | ToolRequest | StepEvent;
+export type PolicyUpdate = {
+  type: "policy_update";
+  sessionId: string;
+  token: string;
+  policy: ActivePolicy;
+};
+
+export type ExtractResultEvent = {
+  type: "extract_result";
+  sessionId: string;
+  token: string;
+  result: ExtractResult;
+};
+
+export type PlanEvent = {
+  type: "plan";
+  sessionId: string;
+  token: string;
+  items: PlanItem[];
+  paused: boolean;
+};
+
+export type ScreenshotEvent = {
+  type: "screenshot";
+  sessionId: string;
+  token: string;
+  label: string;
+  mimeType: string;
+  data: string;
+};
+
+export type HistoryList = {
+  type: "history_list";
+  sessionId: string;
+  token: string;
+  conversations: HistorySummary[];
+};
+
+export type HistoryConversation = {
+  type: "history";
+  sessionId: string;
+  token: string;
+  conversation: StoredConversation | null;
+};
+
+export type ResumeAck = {
+  type: "resume_ack";
+  sessionId: string;
+  token: string;
+  known: boolean;
+  replayed: number;
+};
+
+export type Pong = {
+  type: "pong";
+  sessionId: string;
+  token: string;
+};
+
+export type MacroList = {
+  type: "macro_list";
+  sessionId: string;
+  token: string;
+  macros: Macro[];
+};
+
+export type MacroSaved = {
+  type: "macro_saved";
+  sessionId: string;
+  token: string;
+  ok: boolean;
+  name: string;
+  error?: string;
+};
+
+export type JobList = {
+  type: "job_list";
+  sessionId: string;
+  token: string;
+  jobs: ScheduledJob[];
+};
+
+export type JobSaved = {
+  type: "job_saved";
+  sessionId: string;
+  token: string;
+  ok: boolean;
+  name: string;
+  error?: string;
+};
+
+// Sent to every paired extension when a job run ends; job.lastRun is that run.
+export type JobFinished = {
+  type: "job_finished";
+  sessionId: string;
+  token: string;
+  job: ScheduledJob;
+};
+
+export type AuditExport = {
+  type: "audit_export";
+  sessionId: string;
+  token: string;
+  runId: string | null;
+  records: AuditRecord[];
+  markdown: string;
+};
+
+export type ModelOption = {
+  id: string;
+  name: string;
+  vision: boolean;
+};
+
+// model is the session's effective model; null means the Copilot CLI default. notice explains a fallback or failed switch.
+export type ModelState = {
+  type: "model_state";
+  sessionId: string;
+  token: string;
+  models: ModelOption[];
+  defaultModel: string | null;
+  model: string | null;
+  notice?: string;
+};
+
+export type BackendToExtension =
+  | AssistantDelta
+  | AssistantFinal
+  | ToolRequest
+  | ApprovalRequest
+  | StepEvent
+  | PolicyUpdate
+  | ExtractResultEvent
+  | ScreenshotEvent
+  | HistoryList
+  | HistoryConversation
+  | ResumeAck
+  | Pong
+  | MacroList
+  | MacroSaved
+  | PlanEvent
+  | AuditExport
+  | ModelState
+  | JobList
+  | JobSaved
+  | JobFinished;
+
+// Session messages carry a per-session sequence number so the extension can skip ones it already saw after a replay.
+export type Sequenced<T extends BackendToExtension = BackendToExtension> = T & { seq: number };
+
+// What browser.find saw of an element; actions on its selector are checked against it before they run.
+export type ElementFingerprint = {
+  tag: string;
+  role: string;
+  name: string;
+  text: string;
+  attributes: Record<string, string>;
+  position: { x: number; y: number };
+  // Text of the enclosing row, labelled container or heading, and the row's index among its siblings.
+  context: string;
+  index: number;
+};
 
 export type Candidate = {
   id: string;
   label: string;
   selector: string;
+  role?: string;
+  // 0-100 match strength from the content script's ranking, with the reasons behind it.
+  score?: number;
+  reasons?: string[];
+  fingerprint?: ElementFingerprint;
+  sensitive?: boolean;
+};
+
+// How the content script resolved a fingerprinted selector: still the same element, or found again after a re-render.
+export type TargetResolution = {
+  resolution: "verified" | "relocated";
+  selector: string;
+  previousSelector?: string;
+  similarity?: number;
 };
 
 export type FindResult = {
   candidates: Candidate[];
 };
+
+export type PageHeading = {
+  level: number;
+  text: string;
+};
+
+export type ReadPageResult = {
+  title: string;
+  url: string;
+  scope: string;
+  headings: PageHeading[];
+  chunks: string[];
+  totalChars: number;
+  truncated: boolean;
+};
+
+export type SnapshotNode = {
+  ref: string;
+  role: string;
+  name: string;
+  states?: string[];
+  level?: number;
+  children?: SnapshotNode[];
+};
+
+export type SnapshotResult = {
+  title: string;
+  url: string;
+  nodes: SnapshotNode[];
+  nodeCount: number;
+  truncated: boolean;
+};
+
+export type DomainRule = {
+  alwaysAsk?: string[];
+  neverAllow?: string[];
+  disabledTools?: ToolName[];
+};
+
+export type SafetyPolicy = {
+  allowedDomains?: string[];
+  blockedDomains?: string[];
+  domains?: Record<string, DomainRule>;
+  maxActionsPerRun?: number;
+};
+
+export type ActivePolicy = {
+  source: string | null;
+  loadedAt: string;
+  error?: string;
+  policy: SafetyPolicy;
+};
+
+export type PolicyDenial = ToolFailure & {
+  error: "BLOCKED_BY_POLICY";
+  rule: string;
+  reason: string;
+};
+
+export type TabInfo = {
+  tabId: number;
+  windowId: number;
+  title: string;
+  url: string;
+  active: boolean;
+};
+
+export type WaitConditionKind = "selector_visible" | "selector_hidden" | "text" | "url_change" | "dom_idle";
+
+export type WaitCondition = {
+  kind: WaitConditionKind;
+  selector?: string;
+  text?: string;
+  urlIncludes?: string;
+  idleMs?: number;
+  timeoutMs: number;
+};
+
+export type WaitResult = {
+  satisfied: boolean;
+  condition: WaitConditionKind;
+  elapsedMs: number;
+  url: string;
+  mutations?: number;
+};
+
+export type FormFieldKind = "text" | "select" | "checkbox" | "radio";
+
+export type FormFieldStatus = "resolved" | "not_found" | "ambiguous" | "conflict";
+
+export type FormFieldPreview = {
+  field: string;
+  value: string;
+  status: FormFieldStatus;
+  ref?: string;
+  label?: string;
+  kind?: FormFieldKind;
+  candidates?: string[];
+  sensitive?: boolean;
+};
+
+export type FormPreviewResult = {
+  scope: string;
+  fields: FormFieldPreview[];
+  error?: string;
+};
+
+export type FormFillFieldResult = {
+  field: string;
+  ok: boolean;
+  error?: ToolResultError;
+  sensitive?: boolean;
+};
+
+export type ExtractFieldType = "string" | "number" | "boolean" | "url";
+
+export type ExtractField = {
+  name: string;
+  type: ExtractFieldType;
+  selector?: string;
+};
+
+export type ExtractValue = string | number | boolean | null;
+
+export type PaginationHints = {
+  hasMore: boolean;
+  nextUrl?: string;
+  nextSelector?: string;
+  loadMoreSelector?: string;
+};
+
+export type ExtractResult = {
+  title: string;
+  url: string;
+  container: string;
+  itemSelector: string;
+  fields: ExtractField[];
+  records: Array<Record<string, ExtractValue>>;
+  itemCount: number;
+  truncated: boolean;
+  pagination: PaginationHints;
+};
+
+export type ScreenshotResult = {
+  mimeType: string;
+  data: string;
+  width: number;
+  height: number;
+  cropped: boolean;
+  target: string;
+};
+
+// A file from the backend's upload directory, base64-encoded for the trip to the content script.
+export type UploadFile = {
+  name: string;
+  mimeType: string;
+  size: number;
+  data: string;
+};
+
+export type DownloadState = "in_progress" | "complete" | "interrupted";
+
+export type DownloadInfo = {
+  id: number;
+  filename: string;
+  path: string;
+  url: string;
+  mimeType: string;
+  size: number;
+  state: DownloadState;
+  error?: string;
+};
+
+export type DownloadResult = {
+  downloads: DownloadInfo[];
+  // True when the wait ended with a download still running or none started.
+  timedOut: boolean;
+};
+
+export type HistoryEntryKind = "user" | "assistant" | "step" | "tool";
+
+export type HistoryEntry = {
+  at: string;
+  kind: HistoryEntryKind;
+  text: string;
+  tool?: ToolName;
+  ok?: boolean;
+};
+
+export type StoredConversation = {
+  sessionId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  entries: HistoryEntry[];
+};
+
+export type HistorySummary = {
+  sessionId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+};
+
+export type ApiMessageRequest = {
+  text: string;
+  autoRun?: boolean;
+  stepMode?: boolean;
+  tabId?: number;
+  pageUrl?: string;
+};
+
+export type ApiSessionSummary = {
+  sessionId: string;
+  running: boolean;
+  pendingApprovals: number;
+  model: string | null;
+};
+
+export type ApiPendingApproval = {
+  actionId: string;
+  tool: ToolName;
+  label: string;
+  reason: string;
+  requestedAt: string;
+};
+
+export type RunStatus = "completed" | "failed" | "cancelled";
+
+export type AuditRecord = { at: string; runId: string } & (
+  | {
+      kind: "run_start";
+      source: "chat" | "macro" | "mcp" | "schedule";
+      prompt: string;
+      model: string;
+      tabId: number | null;
+      pageUrl: string;
+      autoRun: boolean;
+    }
+  | { kind: "tool_request"; actionId: string; tool: ToolName; params: Record<string, unknown>; tabId: number | null }
+  | {
+      kind: "tool_result";
+      actionId: string;
+      tool: ToolName;
+      ok: boolean;
+      error?: ToolResultError;
+      message?: string;
+      pageUrl: string;
+      durationMs: number;
+    }
+  | {
+      kind: "approval";
+      actionId: string;
+      tool: ToolName;
+      label: string;
+      reason: string;
+      approved: boolean;
+      timedOut?: boolean;
+      requestedAt: string;
+      decidedAt: string;
+    }
+  | { kind: "policy_denial"; tool: ToolName; rule: string; reason: string; pageUrl: string }
+  | { kind: "run_end"; status: RunStatus; final: string; steps: string[] }
+);
+
+export type PlanItemStatus = "pending" | "active" | "done" | "failed" | "skipped";
+
+export type PlanItem = {
+  id: string;
+  text: string;
+  status: PlanItemStatus;
+  note?: string;
+};
+
+export type MacroStep = {
+  tool: ToolName;
+  args: Record<string, unknown>;
+  label: string;
+  target?: string;
+  role?: string;
+  // Typed values that went into password, card or one-time-code fields; never kept as defaults.
+  sensitiveFields?: string[];
+};
+
+export type MacroParam = {
+  name: string;
+  defaultValue: string;
+  // A sensitive value has no default, so every run must supply it.
+  required?: boolean;
+};
+
+export type Macro = {
+  name: string;
+  createdAt: string;
+  sourceSessionId: string;
+  params: MacroParam[];
+  steps: MacroStep[];
+};
+
+export type JobTask = { kind: "prompt"; text: string } | { kind: "macro"; name: string };
+
+// ask: approvals go to the side panel as usual; auto_run: as with Auto-run on; deny: anything needing approval is rejected.
+export type JobApprovalMode = "ask" | "auto_run" | "deny";
+
+export type JobRun = {
+  startedAt: string;
+  finishedAt: string;
+  status: RunStatus;
+  output: string;
+  // The output differs from the previous completed run's.
+  changed: boolean;
+};
+
+export type ScheduledJob = {
+  id: string;
+  name: string;
+  // "every 30m", "every 2h" or a five-field cron expression in the backend's local time.
+  schedule: string;
+  task: JobTask;
+  sessionId: string;
+  approvalMode: JobApprovalMode;
+  enabled: boolean;
+  createdAt: string;
+  nextRunAt: string | null;
+  lastRun?: JobRun;
+  // Only set in job lists, while a run is in progress.
+  running?: boolean;
+};
+
+// Without an id a new job is created; without a sessionId the job gets a conversation of its own.
+export type JobInput = {
+  id?: string;
+  name: string;
+  schedule: string;
+  task: JobTask;
+  approvalMode: JobApprovalMode;
+  enabled: boolean;
+  sessionId?: string;
+};
+
+export type ActionChanges = {
+  ok: true;
+  urlBefore: string;
+  urlAfter: string;
+  urlChanged: boolean;
+  titleBefore: string;
+  titleAfter: string;
+  titleChanged: boolean;
+  wait?: WaitResult;
+};
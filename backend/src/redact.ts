@@ -0,0 +1,42 @@
+// Secrets are referenced as {{secret:name}} and resolved only by the content script, so the
+// backend and the model see names. Literal values aimed at password, card or one-time-code
+// fields are masked before they are logged, audited, shown for approval or saved in a macro.
+const SECRET_PLACEHOLDER_RE = /\{\{secret:[\w.-]+\}\}/g;
+
+export const MASKED_VALUE = "••••••";
+
+export function isSecretReference(value: string): boolean {
+  return value.trim() !== "" && value.replace(SECRET_PLACEHOLDER_RE, "").trim() === "";
+}
+
+export function maskValue<T>(value: T, sensitive: boolean): T | string {
+  if (!sensitive || (typeof value === "string" && isSecretReference(value))) {
+    return value;
+  }
+  return MASKED_VALUE;
+}
+
+// Copy of a tool request's params that is safe to show. Form previews are masked whole because
+// which fields are sensitive is only known once the content script has resolved them.
+export function redactParams(params: Record<string, unknown>): Record<string, unknown> {
+  const redacted = { ...params };
+  if (typeof params.text === "string") {
+    redacted.text = maskValue(params.text, params.sensitive === true);
+  }
+  if (params.file && typeof params.file === "object") {
+    // Uploaded file contents are replaced by their size.
+    const file = params.file as Record<string, unknown>;
+    redacted.file = { ...file, data: `[${String(file.size ?? "?")} bytes]` };
+  }
+  if (Array.isArray(params.fields)) {
+    const preview = params.phase === "preview";
+    redacted.fields = params.fields.map((field: unknown) => {
+      if (!field || typeof field !== "object") {
+        return field;
+      }
+      const item = field as Record<string, unknown>;
+      return { ...item, value: maskValue(item.value, preview || item.sensitive === true) };
+    });
+  }
+  return redacted;
+}
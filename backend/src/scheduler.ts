@@ -0,0 +1,268 @@
+import { randomUUID } from "node:crypto";
+import { existsSync } from "node:fs";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { isValidSessionId } from "./history.js";
+import type { JobApprovalMode, JobInput, JobRun, JobTask, ScheduledJob } from "./protocol.js";
+
+const TICK_MS = 15_000;
+const NAME_MAX_CHARS = 80;
+const OUTPUT_MAX_CHARS = 4000;
+// Far enough ahead to find the next February 29th.
+const CRON_SEARCH_DAYS = 4 * 366;
+const INTERVAL_RE = /^every\s+(\d+)\s*(m|min|mins|minutes?|h|hours?)$/i;
+const APPROVAL_MODES: JobApprovalMode[] = ["ask", "auto_run", "deny"];
+// minute, hour, day of month, month, day of week (0 and 7 are Sunday)
+const CRON_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+type CronSpec = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+};
+
+type Schedule = { kind: "interval"; minutes: number } | { kind: "cron"; spec: CronSpec };
+
+// Runs the job's task and reports how it ended; null means no extension is connected, so the job stays due.
+export type JobRunner = (job: ScheduledJob) => Promise<Omit<JobRun, "changed"> | null>;
+
+let jobsPath = "";
+let jobs: ScheduledJob[] = [];
+const running = new Set<string>();
+let runJob: JobRunner = async () => null;
+let onFinished: (job: ScheduledJob) => void = () => undefined;
+
+function parseCronField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = /^(?:(\*)|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+    const [, star, first, last, rawStep] = match;
+    const start = star ? min : Number(first);
+    const end = star ? max : last !== undefined ? Number(last) : rawStep ? max : start;
+    const step = rawStep ? Number(rawStep) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Cron field "${field}" is out of range ${min}-${max}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function parseSchedule(text: string): Schedule {
+  const interval = INTERVAL_RE.exec(text.trim());
+  if (interval) {
+    const minutes = Number(interval[1]) * (interval[2].toLowerCase().startsWith("h") ? 60 : 1);
+    if (minutes < 1) {
+      throw new Error("The interval must be at least 1 minute");
+    }
+    return { kind: "interval", minutes };
+  }
+
+  const fields = text.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Use "every 30m", "every 2h" or a cron expression with five fields (minute hour day month weekday)');
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) => parseCronField(field, CRON_RANGES[i]));
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+  return {
+    kind: "cron",
+    spec: { minutes, hours, days, months, weekdays, anyDay: fields[2].startsWith("*"), anyWeekday: fields[4].startsWith("*") },
+  };
+}
+
+// As in cron, a restricted day of month and day of week match if either one does.
+function dayMatches(spec: CronSpec, date: Date): boolean {
+  const day = spec.days.has(date.getDate());
+  const weekday = spec.weekdays.has(date.getDay());
+  if (spec.anyDay || spec.anyWeekday) {
+    return day && weekday;
+  }
+  return day || weekday;
+}
+
+function nextCronTime(spec: CronSpec, after: Date): Date | null {
+  const next = new Date(after.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+  const limit = after.getTime() + CRON_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+  while (next.getTime() <= limit) {
+    if (!spec.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!dayMatches(spec, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!spec.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+    } else if (!spec.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+    } else {
+      return next;
+    }
+  }
+  return null;
+}
+
+export function nextRunTime(schedule: string, after: Date): Date | null {
+  const parsed = parseSchedule(schedule);
+  if (parsed.kind === "interval") {
+    return new Date(after.getTime() + parsed.minutes * 60 * 1000);
+  }
+  return nextCronTime(parsed.spec, after);
+}
+
+function nextRunAt(job: Pick<ScheduledJob, "schedule" | "enabled">, after: Date): string | null {
+  return job.enabled ? (nextRunTime(job.schedule, after)?.toISOString() ?? null) : null;
+}
+
+async function writeJobs() {
+  const tmp = `${jobsPath}.tmp`;
+  await writeFile(tmp, `${JSON.stringify({ jobs }, null, 2)}\n`, "utf8");
+  await rename(tmp, jobsPath);
+}
+
+export async function initJobStore(filePath: string) {
+  jobsPath = filePath;
+  if (existsSync(jobsPath)) {
+    const parsed = JSON.parse(await readFile(jobsPath, "utf8")) as { jobs?: unknown };
+    jobs = Array.isArray(parsed.jobs) ? (parsed.jobs as ScheduledJob[]) : [];
+  }
+}
+
+export function listJobs(): ScheduledJob[] {
+  return jobs.map((job) => ({ ...structuredClone(job), ...(running.has(job.id) ? { running: true } : {}) }));
+}
+
+function parseTask(task: JobTask): JobTask {
+  if (task?.kind === "macro" && typeof task.name === "string" && task.name.trim()) {
+    return { kind: "macro", name: task.name.trim() };
+  }
+  if (task?.kind === "prompt" && typeof task.text === "string" && task.text.trim()) {
+    return { kind: "prompt", text: task.text.trim() };
+  }
+  throw new Error("A job needs a prompt or a macro to run");
+}
+
+export async function saveJob(input: JobInput): Promise<ScheduledJob> {
+  const name = String(input.name ?? "").trim().slice(0, NAME_MAX_CHARS);
+  if (!name) {
+    throw new Error("Job name is required");
+  }
+  const schedule = String(input.schedule ?? "").trim();
+  const enabled = input.enabled !== false;
+  const firstRun = nextRunTime(schedule, new Date());
+  if (!firstRun) {
+    throw new Error(`The schedule "${schedule}" never runs`);
+  }
+  if (!APPROVAL_MODES.includes(input.approvalMode)) {
+    throw new Error(`Approval mode must be one of ${APPROVAL_MODES.join(", ")}`);
+  }
+  if (input.sessionId !== undefined && !isValidSessionId(input.sessionId)) {
+    throw new Error("Invalid session id");
+  }
+
+  const existing = input.id ? jobs.find((job) => job.id === input.id) : undefined;
+  if (input.id && !existing) {
+    throw new Error("Job not found");
+  }
+  const job: ScheduledJob = {
+    id: existing?.id ?? randomUUID(),
+    name,
+    schedule,
+    task: parseTask(input.task),
+    sessionId: input.sessionId ?? existing?.sessionId ?? randomUUID(),
+    approvalMode: input.approvalMode,
+    enabled,
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+    nextRunAt: enabled ? firstRun.toISOString() : null,
+    ...(existing?.lastRun ? { lastRun: existing.lastRun } : {}),
+  };
+  jobs = [...jobs.filter((item) => item.id !== job.id), job].sort((a, b) => a.name.localeCompare(b.name));
+  await writeJobs();
+  return structuredClone(job);
+}
+
+export async function deleteJob(id: string): Promise<boolean> {
+  const remaining = jobs.filter((job) => job.id !== id);
+  if (remaining.length === jobs.length) {
+    return false;
+  }
+  jobs = remaining;
+  await writeJobs();
+  return true;
+}
+
+// Whitespace-only differences (a reflowed summary) do not count as a change.
+function sameOutput(a: string, b: string): boolean {
+  const normalize = (text: string) => text.replace(/\s+/g, " ").trim();
+  return normalize(a) === normalize(b);
+}
+
+async function execute(job: ScheduledJob) {
+  running.add(job.id);
+  try {
+    const startedAt = new Date().toISOString();
+    const result = await runJob(structuredClone(job)).catch((error: unknown) => ({
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      status: "failed" as const,
+      output: `Failed: ${error instanceof Error ? error.message : String(error)}`,
+    }));
+    const current = jobs.find((item) => item.id === job.id);
+    if (!result || !current) {
+      return;
+    }
+    const previous = current.lastRun;
+    const output = result.output.slice(0, OUTPUT_MAX_CHARS);
+    const changed =
+      result.status === "completed" && previous?.status === "completed" && !sameOutput(previous.output, output);
+    current.lastRun = { ...result, output, changed };
+    current.nextRunAt = nextRunAt(current, new Date());
+    await writeJobs();
+    onFinished(structuredClone(current));
+  } finally {
+    running.delete(job.id);
+  }
+}
+
+// Missed runs (backend stopped, no extension connected) collapse into one run as soon as it can happen.
+function tick() {
+  const now = Date.now();
+  for (const job of jobs) {
+    if (job.enabled && job.nextRunAt && Date.parse(job.nextRunAt) <= now && !running.has(job.id)) {
+      void execute(job).catch(() => undefined);
+    }
+  }
+}
+
+export function runJobNow(id: string): boolean {
+  const job = jobs.find((item) => item.id === id);
+  if (!job || running.has(job.id)) {
+    return false;
+  }
+  void execute(job).catch(() => undefined);
+  return true;
+}
+
+export function startScheduler(runner: JobRunner, finished: (job: ScheduledJob) => void) {
+  runJob = runner;
+  onFinished = finished;
+  tick();
+  setInterval(tick, TICK_MS).unref();
+}
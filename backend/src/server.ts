@@ -1,13 +1,75 @@
 import process from "node:process";
+import path from "node:path";
 import { randomUUID } from "node:crypto";
-import { CopilotClient, defineTool, type CopilotSession, type SessionConfig } from "@github/copilot-sdk";
+import { createServer } from "node:http";
+import { setTimeout as sleep } from "node:timers/promises";
+import { CopilotClient, defineTool, type CopilotSession, type SessionConfig, type Tool } from "@github/copilot-sdk";
 import { WebSocket, WebSocketServer } from "ws";
+import type { Tool as McpTool } from "@modelcontextprotocol/sdk/types.js";
+import { createApiHandler, type ApiHooks, type SessionListener } from "./api.js";
+import { createMcpHandler, MCP_PATH, type McpHooks } from "./mcp.js";
+import { appendAuditRecord, formatAuditReport, initAuditStore, loadAuditRun } from "./audit.js";
+import { isRetryable, toErrorCode, ToolError, toolFailure, toToolFailure } from "./errors.js";
+import { redactParams } from "./redact.js";
+import { initUploadDir, readUploadFile } from "./uploads.js";
+import { deleteJob, initJobStore, listJobs, runJobNow, saveJob, startScheduler } from "./scheduler.js";
+import { appendHistoryEntry, initHistoryStore, isValidSessionId, listConversations, loadConversation } from "./history.js";
+import { buildMacro, deleteMacro, getMacro, initMacroStore, listMacros, saveMacro, substituteParams } from "./macros.js";
+import {
+  evaluatePolicy,
+  getActivePolicy,
+  loadSafetyPolicy,
+  watchSafetyPolicy,
+  type PolicyVerdict,
+} from "./policy.js";
 import type {
+  ApiMessageRequest,
+  ApiPendingApproval,
+  ApiSessionSummary,
+  ApprovalRequest,
+  AuditRecord,
   BackendToExtension,
   Candidate,
+  DownloadInfo,
+  DownloadResult,
+  DownloadState,
+  ElementFingerprint,
   ExtensionToBackend,
+  ExtractField,
+  ExtractFieldType,
+  ExtractResult,
+  ExtractValue,
   FindResult,
+  FormFieldKind,
+  FormFieldPreview,
+  FormFillFieldResult,
+  FormPreviewResult,
+  HistoryEntry,
+  HistorySummary,
+  JobInput,
+  JobRun,
+  ScheduledJob,
+  Macro,
+  MacroStep,
+  ModelOption,
+  ModelState,
+  PageHeading,
+  PlanItem,
+  PlanItemStatus,
+  PolicyDenial,
+  ReadPageResult,
+  RunStatus,
+  ScreenshotResult,
+  SnapshotNode,
+  Sequenced,
+  SnapshotResult,
+  StoredConversation,
+  TabInfo,
+  TargetResolution,
   ToolName,
+  WaitCondition,
+  WaitConditionKind,
+  WaitResult,
   ToolRequest,
   ToolResultError,
 } from "./protocol.js";
@@ -18,41 +80,154 @@ const WS_PATH = "/ws";
 const TOOL_TIMEOUT_MS = 5_000;
 const TOOL_TIMEOUT_NAVIGATE_MS = 30_000;
 const TOOL_TIMEOUT_ACTION_MS = 60_000;
+const TOOL_TIMEOUT_CAPTURE_MS = 15_000;
+const TOOL_RETRY_LIMIT = 2;
+// Repeating these after the page received them could click, type or submit twice.
+const NON_IDEMPOTENT_TOOLS = new Set<ToolName>([
+  "browser_click",
+  "browser_type",
+  "browser_press_key",
+  "browser_upload",
+  "browser_fill_form",
+  "browser_download",
+  "browser_tab_open",
+]);
+// Failures raised before the action ran: the message never reached the page, or the target was not visible yet.
+const PRE_DISPATCH_ERRORS = new Set<ToolResultError>(["EXTENSION_NOT_READY", "NOT_VISIBLE"]);
+const TOOL_RETRY_DELAY_MS = 400;
 const MESSAGE_TIMEOUT_MS = 120_000;
+const RECONNECT_GRACE_MS = 60_000;
+const OUTBOX_MAX_MESSAGES = 500;
+const APPROVAL_TIMEOUT_MS = 60_000;
+const STEP_PAUSE_TIMEOUT_MS = 300_000;
+const STEP_MODE_MESSAGE_TIMEOUT_MS = 900_000;
+const PLAN_MAX_ITEMS = 20;
+const PLAN_STATUSES: PlanItemStatus[] = ["active", "done", "failed", "skipped"];
+const WAIT_DEFAULT_TIMEOUT_MS = 10_000;
+const WAIT_MAX_TIMEOUT_MS = 30_000;
+const DOWNLOAD_DEFAULT_WAIT_MS = 30_000;
+const DOWNLOAD_MAX_WAIT_MS = 60_000;
+const DOWNLOAD_STATES: DownloadState[] = ["in_progress", "complete", "interrupted"];
+const WAIT_CONDITION_KINDS: WaitConditionKind[] = ["selector_visible", "selector_hidden", "text", "url_change", "dom_idle"];
+
+const WAIT_CONDITION_PROPERTIES = {
+  kind: {
+    type: "string",
+    enum: WAIT_CONDITION_KINDS,
+    description:
+      "selector_visible/selector_hidden need selector; text needs text; url_change optionally takes urlIncludes; dom_idle waits until the DOM has not changed for idleMs.",
+  },
+  selector: { type: "string" },
+  text: { type: "string" },
+  urlIncludes: { type: "string" },
+  idleMs: { type: "number", description: "Quiet period for dom_idle (default 500)." },
+  timeoutMs: { type: "number", description: "Maximum wait (default 10000, max 30000)." },
+};
+const DANGEROUS_ACTION_RE =
+  /(delete|remove|purchase|buy|checkout|send|payment|pay|place order|confirm order|submit payment|transfer|confirm|submit|withdraw|irreversible)/i;
+// Keys that activate the focused control (click a button, follow a link, submit a form).
+const ACTIVATION_KEY_RE = /^(Enter|Return| |Space|Spacebar)$/i;
+
+const INTERACTION_TOOLS: ToolName[] = [
+  "browser_click",
+  "browser_type",
+  "browser_select_option",
+  "browser_set_checked",
+  "browser_press_key",
+  "browser_hover",
+  "browser_scroll",
+  "browser_fill_form",
+  "browser_upload",
+];
+
+// Tools that still work after the working tab was closed, to pick a new one.
+const TAB_TOOLS: ToolName[] = ["browser_tabs_list", "browser_tab_open", "browser_tab_switch", "browser_tab_close"];
 
 function toolTimeoutMs(tool: ToolName): number {
-  if (tool === "browser_navigate") return TOOL_TIMEOUT_NAVIGATE_MS;
-  if (tool === "browser_click" || tool === "browser_type") return TOOL_TIMEOUT_ACTION_MS;
+  if (tool === "browser_navigate" || tool === "browser_tab_open") return TOOL_TIMEOUT_NAVIGATE_MS;
+  if (INTERACTION_TOOLS.includes(tool)) return TOOL_TIMEOUT_ACTION_MS;
+  if (tool === "browser_screenshot") return TOOL_TIMEOUT_CAPTURE_MS;
   return TOOL_TIMEOUT_MS;
 }
 
 const pairingToken = process.env.PAIRING_TOKEN ?? randomUUID();
+const safetyPolicyPath = path.resolve(process.env.SAFETY_POLICY_PATH ?? "safety-policy.json");
+const historyDir = path.resolve(process.env.HISTORY_DIR ?? "history");
+const auditDir = path.resolve(process.env.AUDIT_DIR ?? "audit");
+const auditRetentionDays = Number(process.env.AUDIT_RETENTION_DAYS || 30);
+const uploadDir = path.resolve(process.env.UPLOAD_DIR ?? "uploads");
+const macrosPath = path.resolve(process.env.MACROS_PATH ?? "macros.json");
+const jobsPath = path.resolve(process.env.JOBS_PATH ?? "jobs.json");
+const mcpEnabled = process.env.MCP_ENABLED === "1" || process.env.MCP_ENABLED === "true";
+const REPLAY_MAX_ENTRIES = 20;
+const REPLAY_ENTRY_MAX_CHARS = 1_000;
 const configuredModelName = process.env.COPILOT_MODEL ?? "claude-sonnet-4.6";
-let selectedModelName: string | undefined = configuredModelName;
+// Model new sessions start on: COPILOT_MODEL when the account offers it, otherwise the Copilot CLI default.
+let defaultModelName: string | undefined = configuredModelName;
+let availableModels: ModelOption[] = [];
+const visionModelIds = new Set<string>();
 
 const SYSTEM_PROMPT = [
   "You are a browser interaction agent controlled by strict rules.",
   "Workflow for each actionable interaction request:",
   "1) If the user mentions a site/domain and the current page is not that site, call browser.navigate first.",
-  "2) Then call browser.find.",
-  "3) If browser.find returns 0 candidates, ask the user for a better query.",
+  "2) Then call browser.find (or browser.snapshot when you need to plan over the whole page).",
+  "3) If browser.find returns 0 candidates, ask the user for a better query. Candidates carry a 0-100 score with reasons: 70 or more is a confident match, below 40 is a weak guess. Do not act on a weak match alone; refine the query or ask the user.",
   "4) If browser.find returns multiple candidates and you need to click/type, call browser.select_candidate with the candidate id to disambiguate, then proceed. If unsure which candidate the user wants, ask them to pick an id first.",
-  "5) If exactly one candidate is selected, call browser.highlight before any click/type action.",
+  "5) If exactly one candidate is selected, call browser.highlight before any click/type action. Selector-based actions only accept the selector of that candidate.",
   "6) After highlight, give a short one-sentence explanation.",
-  "7) Then call browser.click or browser.type depending on the user request.",
+  "7) Then call browser.click or browser.type depending on the user request. Use browser.select_option for <select> dropdowns, browser.set_checked for checkboxes/radios/switches, browser.press_key for keys such as Enter to submit a search, browser.hover to open hover menus and browser.scroll to reveal or load more content.",
   "8) Confirm completion with exactly what action was taken and the selector.",
-  "For information lookup requests (for example: find news about topic X), you may use browser.find to collect multiple relevant candidate labels and summarize them without clicking.",
+  "browser.snapshot returns an accessibility tree where every node has a ref like e12. You may pass ref instead of selector to browser.highlight, browser.click and browser.type; a ref from the latest snapshot counts as a single identified candidate.",
+  "browser.find also searches open shadow roots and embedded frames. Their selectors look like \"host-element >>> button\" (step into a shadow root) or \"frame:3 >>> #card-number\" (element in frame 3), and frame candidates name the frame origin in their label. Pass such selectors unchanged to the other tools.",
+  "Actions on a browser.find selector first check that it still points at the element that was found. Their result has target.resolution \"verified\", or \"relocated\" with the new target.selector to use from then on. If the page changed so much that the element is gone or several elements now match (STALE_ELEMENT, AMBIGUOUS_TARGET), call browser.find again.",
+  "For information lookup requests (for example: find news about topic X), call browser.read_page to read the page text and summarize it without clicking. Pass a selector to read only one region, and use browser.find only when you need to interact with an element.",
+  "For requests to list or collect repeated data (prices, products, search results, table rows), call browser.extract with the fields you need instead of inferring values from browser.find labels. The side panel shows the records as a table, so summarize them briefly rather than repeating every row. Use its pagination hints to fetch further pages only when the user asks.",
+  "If browser.find returns candidates without a meaningful label (for example only a tag name, as with icon-only buttons), call browser.screenshot with that selector to see what they are before choosing.",
+  "Single-page apps and lazy-loaded results may render late: if browser.find returns 0 candidates right after navigating or clicking, call browser.wait (or pass waitFor to browser.click/browser.navigate) before asking the user to rephrase.",
+  "Files: browser.upload attaches a file from the backend's upload directory to a file input (it lists the available files if the name is wrong). browser.download downloads by url or by clicking a link/button and reports filename, size and path; call it without arguments to report downloads an earlier click started. Both ask the user first.",
+  "To fill a form with several fields, prefer browser.fill_form with a map of field descriptions to values over typing field by field; it needs a single approval. If it reports unresolved fields, use more specific descriptions or fill those fields individually. It never submits the form.",
+  "For tasks with several distinct steps (for example adding three items to a cart), first call browser.plan with a short checklist, then call browser.plan_update as you start and finish each item. The user may edit pending items; follow the plan returned by browser.plan_update.",
+  "Tabs: every tool acts on your working tab, even if the user focuses another tab. Use browser.tabs_list to see open tabs, browser.tab_open to open a URL in a new tab (it becomes your working tab), browser.tab_switch to work in another tab, and browser.tab_close to close one. Use separate tabs to compare pages or keep a results page open while reading a detail page.",
   "Safety:",
   "- Never perform dangerous clicks (delete, purchase, send, submit payment) without explicit user approval.",
+  "- Tool calls may be denied by the local safety policy with error BLOCKED_BY_POLICY. Do not try to work around a denial; tell the user which rule blocked the action.",
+  "- Clicks and typing may wait for the user to approve them. If a tool fails with APPROVAL_REJECTED, do not retry the same action; ask the user how to proceed.",
+  "- A failed tool call returns { ok: false, error, message, retryable, hint }. Retryable errors were already retried by the backend; follow the hint instead of repeating the same call unchanged.",
+  "- Password, card number and one-time-code fields are marked sensitive; their current values are never shown to you. Never ask the user to paste a password or card number into the chat. To type a stored secret, pass the placeholder {{secret:name}} as the text or field value (for example {{secret:github_password}}); the extension fills in the value. If a tool fails with SECRET_NOT_FOUND, ask the user to add that secret in the side panel settings. A secret is only typed into a sensitive field on the site it was saved for; SECRET_NOT_ALLOWED means the field or site is wrong, so do not retry it elsewhere.",
   "- If unsure, ask.",
   "Output style:",
   "- Be concise.",
 ].join("\n");
 
+type ApprovalDecision = {
+  actionId: string;
+  tool: ToolName;
+  label: string;
+  reason: string;
+  approved: boolean;
+  requestedAt: string;
+  decidedAt: string;
+};
+
 type RunContext = {
+  id: string;
+  startedAt: number;
   cancelled: boolean;
   finalSent: boolean;
   steps: string[];
+  approvals: ApprovalDecision[];
+  actionCount: number;
+  tabId: number | null;
+  // Set when the agent closed its working tab; only tab tools work until it picks another one.
+  tabClosed: boolean;
+  openedTabIds: Set<number>;
+  // Downloads browser.download started in this run; the only ones a later watch-only call reports.
+  downloadIds: Set<number>;
+  toolCalls: MacroStep[];
+  plan: PlanItem[];
+  planEdited: boolean;
+  stepMode: boolean;
 };
 
 type PendingToolCall = {
@@ -62,6 +237,22 @@ type PendingToolCall = {
   tool: ToolName;
 };
 
+type PendingApproval = {
+  resolve: () => void;
+  reject: (reason: Error) => void;
+  timer: NodeJS.Timeout;
+  tool: ToolName;
+  label: string;
+  reason: string;
+  requestedAt: string;
+};
+
+type PlanGate = {
+  resolve: () => void;
+  reject: (reason: Error) => void;
+  timer: NodeJS.Timeout;
+};
+
 type SessionState = {
   sessionId: string;
   token: string;
@@ -70,11 +261,33 @@ type SessionState = {
   queue: Promise<void>;
   run: RunContext | null;
   pendingTools: Map<string, PendingToolCall>;
+  pendingApprovals: Map<string, PendingApproval>;
+  planGate: PlanGate | null;
+  // undefined runs on the Copilot CLI default model.
+  model: string | undefined;
+  autoRun: boolean;
+  // Set while a scheduled job in "deny" mode runs: actions needing approval are rejected without asking.
+  rejectApprovals: boolean;
+  pageUrl: string;
   lastFindCandidates: Candidate[];
+  snapshotRefs: Map<string, SnapshotNode>;
+  lastRunSteps: MacroStep[];
+  lastRunStatus: RunStatus;
+  replayContext: string | null;
+  outSeq: number;
+  outbox: Sequenced[];
+  graceTimer: NodeJS.Timeout | null;
+  // outSeq when the socket closed; later messages never reached the extension.
+  disconnectedSeq: number;
+  // Linked by the HTTP API, MCP or a scheduled job rather than a side panel, so no resume will relink it.
+  borrowed: boolean;
+  listeners: Set<SessionListener>;
   unsubs: Array<() => void>;
 };
 
 const sessions = new Map<string, SessionState>();
+// Extension sockets that have sent a message with the pairing token, oldest first.
+const pairedSockets = new Set<WebSocket>();
 
 const client = new CopilotClient({
   useLoggedInUser: true,
@@ -94,20 +307,6 @@ function log(message: string, details?: unknown) {
   console.log(`[${now()}] ${message}`);
 }
 
-function toErrorCode(value: unknown): ToolResultError {
-  if (
-    value === "EXTENSION_NOT_READY" ||
-    value === "NO_ACTIVE_TAB" ||
-    value === "PERMISSION_DENIED" ||
-    value === "NOT_FOUND" ||
-    value === "TIMEOUT" ||
-    value === "CANCELLED"
-  ) {
-    return value;
-  }
-  return "EXTENSION_NOT_READY";
-}
-
 function normalizeMessage(raw: WebSocket.RawData): ExtensionToBackend | null {
   try {
     const parsed = JSON.parse(raw.toString()) as ExtensionToBackend;
@@ -123,17 +322,143 @@ function normalizeMessage(raw: WebSocket.RawData): ExtensionToBackend | null {
     if (typeof (parsed as { type?: unknown }).type !== "string") {
       return null;
     }
+    if (!isValidSessionId(parsed.sessionId)) {
+      return null;
+    }
     return parsed;
   } catch {
     return null;
   }
 }
 
+// Session messages are numbered and buffered so they can be replayed when the extension reconnects.
 function send(state: SessionState, message: BackendToExtension) {
-  if (state.ws.readyState !== WebSocket.OPEN) {
+  state.outSeq += 1;
+  const sequenced: Sequenced = { ...message, seq: state.outSeq };
+  state.outbox.push(sequenced);
+  if (state.outbox.length > OUTBOX_MAX_MESSAGES) {
+    state.outbox.splice(0, state.outbox.length - OUTBOX_MAX_MESSAGES);
+  }
+  sendTo(state.ws, sequenced);
+  for (const listener of state.listeners) {
+    listener(sequenced);
+  }
+}
+
+// Direct replies to a request; not sequenced and not replayed.
+function sendTo(ws: WebSocket, message: BackendToExtension) {
+  if (ws.readyState !== WebSocket.OPEN) {
+    return;
+  }
+  ws.send(JSON.stringify(message));
+}
+
+function sendPolicy(ws: WebSocket, sessionId: string, token: string) {
+  sendTo(ws, {
+    type: "policy_update",
+    sessionId,
+    token,
+    policy: getActivePolicy(),
+  });
+}
+
+function sendHistoryList(ws: WebSocket, sessionId: string, token: string, conversations: HistorySummary[]) {
+  sendTo(ws, { type: "history_list", sessionId, token, conversations });
+}
+
+function sendMacroList(ws: WebSocket, sessionId: string, token: string, macros: Macro[]) {
+  sendTo(ws, { type: "macro_list", sessionId, token, macros });
+}
+
+function sendJobList(ws: WebSocket, sessionId: string, token: string) {
+  sendTo(ws, { type: "job_list", sessionId, token, jobs: listJobs() });
+}
+
+function sendHistory(ws: WebSocket, sessionId: string, token: string, conversation: StoredConversation | null) {
+  sendTo(ws, { type: "history", sessionId, token, conversation });
+}
+
+// A session in its reconnect grace period still accepts requests; they are buffered until the extension returns.
+function isReachable(state: SessionState): boolean {
+  return state.ws.readyState === WebSocket.OPEN || state.graceTimer !== null;
+}
+
+function relinkSession(state: SessionState, ws: WebSocket) {
+  if (state.graceTimer) {
+    clearTimeout(state.graceTimer);
+    state.graceTimer = null;
+    log(`Session ${state.sessionId} reconnected`);
+  }
+  state.ws = ws;
+}
+
+// Borrowed sessions move to the extension's new connection and get the requests issued while it was away.
+// Requests sent before the disconnect are not repeated, since the extension may already have run them.
+function relinkBorrowedSessions(ws: WebSocket) {
+  for (const state of sessions.values()) {
+    if (!state.borrowed || state.graceTimer === null) {
+      continue;
+    }
+    relinkSession(state, ws);
+    for (const replay of missedMessages(state, state.disconnectedSeq)) {
+      sendTo(ws, replay);
+    }
+  }
+}
+
+// Tool and approval requests that already timed out or were answered are not replayed.
+function missedMessages(state: SessionState, lastSeq: number): Sequenced[] {
+  return state.outbox.filter((message) => {
+    if (message.seq <= lastSeq) {
+      return false;
+    }
+    if (message.type === "tool_request") {
+      return state.pendingTools.has(message.actionId);
+    }
+    if (message.type === "approval_request") {
+      return state.pendingApprovals.has(message.actionId);
+    }
+    return true;
+  });
+}
+
+function scheduleTeardown(state: SessionState) {
+  if (state.graceTimer) {
+    return;
+  }
+  log(`Session ${state.sessionId} disconnected; keeping it for ${RECONNECT_GRACE_MS / 1000}s`);
+  state.disconnectedSeq = state.outSeq;
+  state.graceTimer = setTimeout(() => {
+    state.graceTimer = null;
+    teardownSession(state, "socket closed").catch((error) => log(`Failed to tear down ${state.sessionId}`, error));
+  }, RECONNECT_GRACE_MS);
+}
+
+type AuditInput = AuditRecord extends infer R ? (R extends AuditRecord ? Omit<R, "at" | "runId"> : never) : never;
+
+// Records belong to the run that was active when the action started, even if they complete after it ends.
+function recordAudit(state: SessionState, entry: AuditInput, run: RunContext | null = state.run) {
+  if (!run) {
     return;
   }
-  state.ws.send(JSON.stringify(message));
+  appendAuditRecord(state.sessionId, { at: now(), runId: run.id, ...entry } as AuditRecord).catch((error) => {
+    log(`Failed to record audit for session ${state.sessionId}`, error);
+  });
+}
+
+function recordHistory(state: SessionState, entry: Omit<HistoryEntry, "at">) {
+  appendHistoryEntry(state.sessionId, { at: now(), ...entry }).catch((error) => {
+    log(`Failed to record history for session ${state.sessionId}`, error);
+  });
+}
+
+// Used when the Copilot session itself cannot be resumed: the model gets the recent transcript instead.
+function buildReplayContext(conversation: StoredConversation): string {
+  const turns = conversation.entries
+    .filter((entry) => entry.kind === "user" || entry.kind === "assistant")
+    .slice(-REPLAY_MAX_ENTRIES)
+    .map((entry) => `${entry.kind === "user" ? "User" : "Assistant"}: ${entry.text.slice(0, REPLAY_ENTRY_MAX_CHARS)}`);
+  return ["Earlier conversation in this session (restored from history):", ...turns].join("\n");
 }
 
 function sendDelta(state: SessionState, textDelta: string) {
@@ -145,7 +470,10 @@ function sendDelta(state: SessionState, textDelta: string) {
   });
 }
 
-function sendFinal(state: SessionState, text: string) {
+function sendFinal(state: SessionState, text: string, status: RunStatus = "completed") {
+  state.lastRunStatus = status;
+  recordHistory(state, { kind: "assistant", text });
+  recordAudit(state, { kind: "run_end", status, final: text, steps: state.run?.steps ?? [] });
   send(state, {
     type: "assistant_final",
     sessionId: state.sessionId,
@@ -168,9 +496,85 @@ function appendStep(state: SessionState, text: string) {
     return;
   }
   state.run.steps.push(text);
+  recordHistory(state, { kind: "step", text });
   sendStep(state, text);
 }
 
+function sendPlan(state: SessionState, paused = false) {
+  if (!state.run) {
+    return;
+  }
+  send(state, {
+    type: "plan",
+    sessionId: state.sessionId,
+    token: state.token,
+    items: state.run.plan,
+    paused,
+  });
+}
+
+function activateNextPlanItem(run: RunContext) {
+  if (run.plan.some((item) => item.status === "active")) {
+    return;
+  }
+  const next = run.plan.find((item) => item.status === "pending");
+  if (next) {
+    next.status = "active";
+  }
+}
+
+// Step mode holds the run after each finished plan item until the user clicks Continue.
+// Nobody answering ends the run, since a failed plan update alone would let the model carry on unattended.
+function waitForPlanContinue(state: SessionState): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      state.planGate = null;
+      reject(new Error("CANCELLED"));
+      void cancelRun(
+        state,
+        `Stopped: step mode waited ${STEP_PAUSE_TIMEOUT_MS / 60_000} minutes for Continue. Send a new message to pick up from here.`,
+      );
+    }, STEP_PAUSE_TIMEOUT_MS);
+    state.planGate = { resolve, reject, timer };
+  });
+}
+
+// Finished items are kept as they are; the user can only reword, reorder, add or drop items not started yet.
+function applyPlanEdit(state: SessionState, items: Array<{ id?: string; text: string }>) {
+  const run = state.run;
+  if (!run || !run.plan.length) {
+    return;
+  }
+  const pending = new Map(run.plan.filter((item) => item.status === "pending").map((item) => [item.id, item]));
+  const kept = run.plan.filter((item) => item.status !== "pending");
+  let nextId = Math.max(0, ...run.plan.map((item) => Number(item.id.slice(1)) || 0)) + 1;
+
+  const edited = items
+    .filter((item) => !item.id || pending.has(item.id))
+    .map((item) => ({ ...item, text: String(item.text ?? "").trim() }))
+    .filter((item) => item.text)
+    .map((item): PlanItem => {
+      const existing = item.id ? pending.get(item.id) : undefined;
+      return existing ? { ...existing, text: item.text } : { id: `p${nextId++}`, text: item.text, status: "pending" };
+    });
+
+  run.plan = [...kept, ...edited].slice(0, PLAN_MAX_ITEMS);
+  run.planEdited = true;
+  activateNextPlanItem(run);
+  appendStep(state, "User edited the plan");
+  sendPlan(state, state.planGate !== null);
+}
+
+// An item still active when the run ends was never confirmed by the agent.
+function settlePlan(state: SessionState, failed: boolean) {
+  const active = state.run?.plan.find((item) => item.status === "active");
+  if (!active) {
+    return;
+  }
+  active.status = failed ? "failed" : "pending";
+  sendPlan(state);
+}
+
 function ensureSingleCandidateBeforeAction(state: SessionState, tool: ToolName) {
   if (tool === "browser_find") {
     return;
@@ -183,16 +587,399 @@ function ensureSingleCandidateBeforeAction(state: SessionState, tool: ToolName)
   }
 }
 
+// Best effort: the page may be gone, or the extension offline, and then there is nothing left to clear.
+async function clearFormPreview(state: SessionState, actionId: string, selector: string) {
+  try {
+    await sendToolRequest(
+      state,
+      actionId,
+      "browser_fill_form",
+      { phase: "clear", ...(selector ? { selector } : {}) },
+      "clearing the form preview",
+      TOOL_TIMEOUT_MS,
+    );
+  } catch {
+    // Nothing to undo.
+  }
+}
+
+// Form-level counterpart of ensureSingleCandidateBeforeAction: every field must map to exactly one control.
+function ensureFormFieldsResolved(preview: FormPreviewResult) {
+  if (preview.error) {
+    throw new Error(preview.error);
+  }
+  const problems = preview.fields
+    .filter((f) => f.status !== "resolved")
+    .map((f) => {
+      if (f.status === "ambiguous") {
+        return `"${f.field}" matches several fields (${(f.candidates ?? []).join(", ")})`;
+      }
+      if (f.status === "conflict") {
+        return `"${f.field}" maps to the same control as another field`;
+      }
+      return `"${f.field}" was not found`;
+    });
+  if (problems.length) {
+    throw new ToolError(
+      "NOT_FOUND",
+      `Form fields are unresolved: ${problems.join("; ")}. Use more specific field descriptions or fill them individually.`,
+    );
+  }
+}
+
+type ActionTarget = {
+  params: { selector: string; fingerprint?: ElementFingerprint } | { ref: string } | Record<string, never>;
+  description: string;
+  name: string;
+  sensitive?: boolean;
+  // The key goes to whatever has focus, so its name is unknown until the press happens.
+  focusedOnly?: boolean;
+};
+
+function resolveActionTarget(state: SessionState, args: unknown, tool: ToolName): ActionTarget {
+  const ref = getStringArg(args, "ref").trim();
+  if (ref) {
+    const node = state.snapshotRefs.get(ref);
+    if (!node) {
+      throw new ToolError("STALE_ELEMENT", `Unknown ref ${ref}. Call browser.snapshot and use a ref from its latest output.`);
+    }
+    return {
+      params: { ref },
+      description: `${node.role} "${node.name}" (${ref})`,
+      name: node.name,
+      sensitive: node.states?.includes("sensitive") === true,
+    };
+  }
+
+  ensureSingleCandidateBeforeAction(state, tool);
+  const selector = getStringArg(args, "selector").trim();
+  if (!selector) {
+    throw new Error("NOT_FOUND");
+  }
+  // Any other selector would skip the dangerous-action check, which reads the candidate's label.
+  const [candidate] = state.lastFindCandidates;
+  if (candidate.selector !== selector) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      `Selector ${selector} is not the selected candidate (${candidate.selector}). Use the candidate's selector, or call browser.find again.`,
+    );
+  }
+  return {
+    params: { selector, ...(candidate.fingerprint ? { fingerprint: candidate.fingerprint } : {}) },
+    description: selector,
+    name: candidate.label,
+    sensitive: candidate.sensitive === true,
+  };
+}
+
+function targetResolutionFrom(result: unknown): TargetResolution | null {
+  const target = result && typeof result === "object" ? (result as { target?: unknown }).target : undefined;
+  if (!target || typeof target !== "object") {
+    return null;
+  }
+  const item = target as Record<string, unknown>;
+  if ((item.resolution !== "verified" && item.resolution !== "relocated") || typeof item.selector !== "string") {
+    return null;
+  }
+  return {
+    resolution: item.resolution,
+    selector: item.selector,
+    ...(typeof item.previousSelector === "string" ? { previousSelector: item.previousSelector } : {}),
+    ...(typeof item.similarity === "number" ? { similarity: item.similarity } : {}),
+  };
+}
+
+// After a re-render the content script acts on a re-located element; its candidate takes the new selector so
+// follow-up calls with the selector from the tool result keep their fingerprint.
+function noteTargetResolution(state: SessionState, params: Record<string, unknown>, result: unknown) {
+  const target = targetResolutionFrom(result);
+  if (!params.fingerprint || typeof params.selector !== "string" || target?.resolution !== "relocated") {
+    return;
+  }
+  const candidate = state.lastFindCandidates.find((c) => c.selector === params.selector);
+  if (candidate) {
+    candidate.selector = target.selector;
+  }
+  appendStep(state, `Page changed; re-located ${params.selector} as ${target.selector}`);
+}
+
+function checkPolicy(
+  state: SessionState,
+  tool: ToolName,
+  context: { targetUrl?: string; actionText?: string } = {},
+): PolicyVerdict {
+  const verdict = evaluatePolicy({
+    tool,
+    pageUrl: state.pageUrl,
+    targetUrl: context.targetUrl,
+    actionText: context.actionText,
+    actionCount: state.run?.actionCount ?? 0,
+  });
+
+  if (verdict.decision === "deny") {
+    log(`Policy denied ${tool} for session ${state.sessionId} (${verdict.rule})`);
+    appendStep(state, `Blocked by policy: ${verdict.reason}`);
+    recordAudit(state, { kind: "policy_denial", tool, rule: verdict.rule, reason: verdict.reason, pageUrl: state.pageUrl });
+  }
+  return verdict;
+}
+
+function toPolicyDenial(verdict: Extract<PolicyVerdict, { decision: "deny" }>): PolicyDenial {
+  return {
+    ...toolFailure("BLOCKED_BY_POLICY", verdict.reason),
+    error: "BLOCKED_BY_POLICY",
+    rule: verdict.rule,
+    reason: verdict.reason,
+  };
+}
+
+// The SDK hides thrown errors from the model, so failures are returned as structured results instead.
+function reportToolErrors(tool: Tool): Tool {
+  return {
+    ...tool,
+    handler: async (args, invocation) => {
+      try {
+        return await tool.handler(args, invocation);
+      } catch (error) {
+        return toToolFailure(error);
+      }
+    },
+  };
+}
+
+function appendWaitStep(state: SessionState, condition: WaitCondition, rawResult: unknown) {
+  const result = parseWaitResult(rawResult, condition);
+  const outcome = result.satisfied ? `met after ${result.elapsedMs}ms` : `not met within ${condition.timeoutMs}ms`;
+  appendStep(state, `Wait for ${describeWait(condition)} ${outcome}`);
+}
+
+function pinnedTab(state: SessionState): { tabId?: number } {
+  const tabId = state.run?.tabId;
+  return typeof tabId === "number" ? { tabId } : {};
+}
+
+// Falling back to whichever tab is active after the working tab closed could act on a page the user is using.
+function ensureWorkingTab(state: SessionState, tool: ToolName) {
+  if (state.run?.tabClosed && !TAB_TOOLS.includes(tool)) {
+    throw new ToolError(
+      "NO_ACTIVE_TAB",
+      "Your working tab was closed. Call browser.tab_switch (see browser.tabs_list) or browser.tab_open to pick another one.",
+    );
+  }
+}
+
+// Step mode pauses between plan items, so acting before there is a plan would skip every pause.
+function ensurePlanInStepMode(state: SessionState, tool: ToolName) {
+  if (state.run?.stepMode && !state.run.plan.length && INTERACTION_TOOLS.includes(tool)) {
+    throw new ToolError("INVALID_ARGUMENT", "Step mode is on: call browser.plan before interacting with the page.");
+  }
+}
+
+function pinTab(state: SessionState, tab: TabInfo) {
+  if (state.run) {
+    state.run.tabId = tab.tabId;
+    state.run.tabClosed = false;
+  }
+  state.pageUrl = tab.url;
+  state.lastFindCandidates = [];
+  state.snapshotRefs.clear();
+}
+
+function resolveOptionalActionTarget(
+  state: SessionState,
+  args: unknown,
+  tool: ToolName,
+  fallbackDescription: string,
+): ActionTarget {
+  if (getStringArg(args, "ref").trim() || getStringArg(args, "selector").trim()) {
+    return resolveActionTarget(state, args, tool);
+  }
+  return { params: {}, description: fallbackDescription, name: "" };
+}
+
+// Shared path for interaction tools: policy check, approval gate, then the round trip.
+async function runInteraction(
+  state: SessionState,
+  actionId: string,
+  tool: ToolName,
+  target: ActionTarget,
+  extraParams: Record<string, unknown>,
+  step: string,
+  uiLabel: string,
+): Promise<unknown> {
+  const params = { ...target.params, ...extraParams };
+  const verdict = checkPolicy(state, tool, { actionText: `${uiLabel} ${target.name}` });
+  if (verdict.decision === "deny") {
+    return toPolicyDenial(verdict);
+  }
+  await requireApproval(state, actionId, tool, target, verdict, params, uiLabel);
+
+  appendStep(state, step);
+  const result = await requestToolRoundTrip(state, actionId, tool, params, uiLabel);
+  return result && typeof result === "object" ? result : { ok: true };
+}
+
+function approvalReason(
+  state: SessionState,
+  tool: ToolName,
+  target: Pick<ActionTarget, "description" | "name" | "focusedOnly">,
+  verdict: PolicyVerdict,
+): string | null {
+  if (verdict.decision === "ask") {
+    return verdict.reason;
+  }
+  if (tool === "browser_tab_close") {
+    return "closing a tab the agent did not open";
+  }
+  if (tool === "browser_fill_form") {
+    return "form fill is approved as one batch";
+  }
+  if (tool === "browser_upload") {
+    return "uploading a file from this computer";
+  }
+  if (tool === "browser_download") {
+    return "downloading files to this computer";
+  }
+  if (
+    (tool === "browser_click" || tool === "browser_press_key") &&
+    DANGEROUS_ACTION_RE.test(`${target.description} ${target.name}`)
+  ) {
+    return tool === "browser_click" ? "potentially destructive click" : "potentially destructive key press";
+  }
+  if (tool === "browser_press_key" && target.focusedOnly) {
+    return "Enter/Space on the focused element may click a button or submit a form";
+  }
+  if (!state.autoRun) {
+    return "auto-run is off";
+  }
+  return null;
+}
+
+async function requireApproval(
+  state: SessionState,
+  actionId: string,
+  tool: ToolName,
+  target: Pick<ActionTarget, "description" | "name" | "focusedOnly">,
+  verdict: PolicyVerdict,
+  params: Record<string, unknown>,
+  uiLabel: string,
+) {
+  ensureWorkingTab(state, tool);
+  ensurePlanInStepMode(state, tool);
+  const reason = approvalReason(state, tool, target, verdict);
+  if (!reason) {
+    return;
+  }
+  if (state.rejectApprovals) {
+    const decidedAt = now();
+    recordAudit(state, {
+      kind: "approval",
+      actionId,
+      tool,
+      label: uiLabel,
+      reason,
+      approved: false,
+      requestedAt: decidedAt,
+      decidedAt,
+    });
+    appendStep(state, `Rejected without asking (scheduled job): ${uiLabel} (${reason})`);
+    throw new ToolError("APPROVAL_REJECTED", "This scheduled job may not take actions that need approval.");
+  }
+  if (!isReachable(state)) {
+    throw new Error("EXTENSION_NOT_READY");
+  }
+
+  const payload: ApprovalRequest = {
+    type: "approval_request",
+    sessionId: state.sessionId,
+    token: state.token,
+    actionId,
+    tool,
+    params: redactParams(params),
+    ui: { label: uiLabel },
+    reason,
+    ...pinnedTab(state),
+  };
+
+  const decision = new Promise<void>((resolve, reject) => {
+    const requestedAt = now();
+    const timer = setTimeout(() => {
+      state.pendingApprovals.delete(actionId);
+      recordAudit(state, {
+        kind: "approval",
+        actionId,
+        tool,
+        label: uiLabel,
+        reason,
+        approved: false,
+        timedOut: true,
+        requestedAt,
+        decidedAt: now(),
+      });
+      reject(new Error("TIMEOUT"));
+    }, APPROVAL_TIMEOUT_MS);
+
+    state.pendingApprovals.set(actionId, {
+      resolve,
+      reject,
+      timer,
+      tool,
+      label: uiLabel,
+      reason,
+      requestedAt,
+    });
+  });
+
+  appendStep(state, `Waiting for approval: ${uiLabel} (${reason})`);
+  send(state, payload);
+  return decision;
+}
+
+// Retryable failures (the action did not happen) are repeated with a short backoff before they reach the caller.
+// Non-idempotent tools are only repeated when the failure happened before dispatch.
 async function requestToolRoundTrip(
   state: SessionState,
   actionId: string,
   tool: ToolName,
   params: Record<string, unknown>,
   uiLabel: string,
+  timeoutMs = toolTimeoutMs(tool),
+) {
+  // maxActionsPerRun counts dispatched actions, so a rejected approval or a failed precondition uses none of the
+  // budget. Retries belong to the same action, and a form fill counts once, for the fill rather than its preview.
+  if (state.run && params.phase !== "preview") {
+    state.run.actionCount += 1;
+  }
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      const attemptId = attempt ? `${actionId}:retry${attempt}` : actionId;
+      const result = await sendToolRequest(state, attemptId, tool, params, uiLabel, timeoutMs);
+      noteTargetResolution(state, params, result);
+      return result;
+    } catch (error) {
+      const code = toErrorCode(error instanceof Error ? error.message : error);
+      const dispatched = NON_IDEMPOTENT_TOOLS.has(tool) && !PRE_DISPATCH_ERRORS.has(code);
+      if (!isRetryable(code) || dispatched || attempt >= TOOL_RETRY_LIMIT || state.run?.cancelled || !isReachable(state)) {
+        throw error;
+      }
+      appendStep(state, `Retrying ${uiLabel} after ${code} (${attempt + 1}/${TOOL_RETRY_LIMIT})`);
+      await sleep(TOOL_RETRY_DELAY_MS * (attempt + 1));
+    }
+  }
+}
+
+async function sendToolRequest(
+  state: SessionState,
+  actionId: string,
+  tool: ToolName,
+  params: Record<string, unknown>,
+  uiLabel: string,
+  timeoutMs: number,
 ) {
-  if (state.ws.readyState !== WebSocket.OPEN) {
+  if (!isReachable(state)) {
     throw new Error("EXTENSION_NOT_READY");
   }
+  ensureWorkingTab(state, tool);
 
   const payload: ToolRequest = {
     type: "tool_request",
@@ -202,14 +989,15 @@ async function requestToolRoundTrip(
     tool,
     params,
     ui: { label: uiLabel },
-    timeoutMs: toolTimeoutMs(tool),
+    timeoutMs,
+    ...pinnedTab(state),
   };
 
   const resultPromise = new Promise<unknown>((resolve, reject) => {
     const timer = setTimeout(() => {
       state.pendingTools.delete(actionId);
       reject(new Error("TIMEOUT"));
-    }, toolTimeoutMs(tool));
+    }, timeoutMs);
 
     state.pendingTools.set(actionId, {
       resolve,
@@ -219,7 +1007,35 @@ async function requestToolRoundTrip(
     });
   });
 
+  const run = state.run;
+  const startedAt = Date.now();
+  recordAudit(state, { kind: "tool_request", actionId, tool, params: redactParams(params), tabId: payload.tabId ?? null });
   send(state, payload);
+  resultPromise.then(
+    () => {
+      recordHistory(state, { kind: "tool", tool, text: uiLabel, ok: true });
+      recordAudit(state, { kind: "tool_result", actionId, tool, ok: true, pageUrl: state.pageUrl, durationMs: Date.now() - startedAt }, run);
+    },
+    (error) => {
+      const code = toErrorCode(error instanceof Error ? error.message : error);
+      const detail = error instanceof ToolError && error.detail ? { message: error.detail } : {};
+      recordHistory(state, { kind: "tool", tool, text: `${uiLabel} (${code})`, ok: false });
+      recordAudit(
+        state,
+        {
+          kind: "tool_result",
+          actionId,
+          tool,
+          ok: false,
+          error: code,
+          ...detail,
+          pageUrl: state.pageUrl,
+          durationMs: Date.now() - startedAt,
+        },
+        run,
+      );
+    },
+  );
   return resultPromise;
 }
 
@@ -227,7 +1043,17 @@ function candidateFromUnknown(value: unknown): Candidate | null {
   if (!value || typeof value !== "object") {
     return null;
   }
-  const item = value as { id?: unknown; label?: unknown; selector?: unknown };
+  const item = value as {
+    id?: unknown;
+    label?: unknown;
+    selector?: unknown;
+    role?: unknown;
+    score?: unknown;
+    reasons?: unknown;
+    fingerprint?: unknown;
+    sensitive?: unknown;
+  };
+  const fingerprint = fingerprintFromUnknown(item.fingerprint);
   if (typeof item.id !== "string" || typeof item.label !== "string" || typeof item.selector !== "string") {
     return null;
   }
@@ -235,6 +1061,40 @@ function candidateFromUnknown(value: unknown): Candidate | null {
     id: item.id,
     label: item.label,
     selector: item.selector,
+    ...(typeof item.role === "string" && item.role ? { role: item.role } : {}),
+    ...(typeof item.score === "number" && Number.isFinite(item.score) ? { score: item.score } : {}),
+    ...(Array.isArray(item.reasons) ? { reasons: item.reasons.filter((reason): reason is string => typeof reason === "string") } : {}),
+    ...(fingerprint ? { fingerprint } : {}),
+    ...(item.sensitive === true ? { sensitive: true } : {}),
+  };
+}
+
+// Fingerprints stay in the backend; the model only needs the selector.
+function withoutFingerprint({ fingerprint: _fingerprint, ...candidate }: Candidate): Candidate {
+  return candidate;
+}
+
+function fingerprintFromUnknown(value: unknown): ElementFingerprint | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const item = value as Record<string, unknown>;
+  if (typeof item.tag !== "string" || typeof item.name !== "string") {
+    return null;
+  }
+  const attributes = item.attributes && typeof item.attributes === "object" ? item.attributes : {};
+  const position = (item.position && typeof item.position === "object" ? item.position : {}) as Record<string, unknown>;
+  return {
+    tag: item.tag,
+    role: typeof item.role === "string" ? item.role : "",
+    name: item.name,
+    text: typeof item.text === "string" ? item.text : "",
+    attributes: Object.fromEntries(
+      Object.entries(attributes).filter((entry): entry is [string, string] => typeof entry[1] === "string"),
+    ),
+    position: { x: Number(position.x) || 0, y: Number(position.y) || 0 },
+    context: typeof item.context === "string" ? item.context : "",
+    index: Number(item.index) || 0,
   };
 }
 
@@ -250,6 +1110,350 @@ function parseFindResult(data: unknown): FindResult {
   return { candidates };
 }
 
+function tabInfoFromUnknown(value: unknown): TabInfo | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const item = value as Record<string, unknown>;
+  if (typeof item.tabId !== "number") {
+    return null;
+  }
+  return {
+    tabId: item.tabId,
+    windowId: typeof item.windowId === "number" ? item.windowId : -1,
+    title: typeof item.title === "string" ? item.title : "",
+    url: typeof item.url === "string" ? item.url : "",
+    active: item.active === true,
+  };
+}
+
+function downloadInfoFromUnknown(value: unknown): DownloadInfo | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const item = value as Record<string, unknown>;
+  if (typeof item.id !== "number" || typeof item.path !== "string") {
+    return null;
+  }
+  return {
+    id: item.id,
+    filename: typeof item.filename === "string" ? item.filename : path.basename(item.path),
+    path: item.path,
+    url: typeof item.url === "string" ? item.url : "",
+    mimeType: typeof item.mimeType === "string" ? item.mimeType : "",
+    size: typeof item.size === "number" ? item.size : 0,
+    state: DOWNLOAD_STATES.includes(item.state as DownloadState) ? (item.state as DownloadState) : "in_progress",
+    ...(typeof item.error === "string" && item.error ? { error: item.error } : {}),
+  };
+}
+
+function parseDownloadResult(data: unknown): DownloadResult {
+  const raw = data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  const downloads = Array.isArray(raw.downloads) ? raw.downloads : [];
+  return {
+    downloads: downloads.map(downloadInfoFromUnknown).filter((v): v is DownloadInfo => v !== null),
+    timedOut: raw.timedOut === true,
+  };
+}
+
+function parseWaitCondition(value: unknown): WaitCondition {
+  const raw = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  const kind = raw.kind as WaitConditionKind;
+  if (!WAIT_CONDITION_KINDS.includes(kind)) {
+    throw new Error(`Wait kind must be one of ${WAIT_CONDITION_KINDS.join(", ")}.`);
+  }
+
+  const selector = getStringArg(raw, "selector").trim();
+  const text = getStringArg(raw, "text").trim();
+  if ((kind === "selector_visible" || kind === "selector_hidden") && !selector) {
+    throw new Error(`Wait kind ${kind} requires a selector.`);
+  }
+  if (kind === "text" && !text) {
+    throw new Error("Wait kind text requires text.");
+  }
+
+  const requested = getNumberArg(raw, "timeoutMs") ?? WAIT_DEFAULT_TIMEOUT_MS;
+  const condition: WaitCondition = {
+    kind,
+    timeoutMs: Math.max(100, Math.min(requested, WAIT_MAX_TIMEOUT_MS)),
+  };
+  if (selector) condition.selector = selector;
+  if (text) condition.text = text;
+  const urlIncludes = getStringArg(raw, "urlIncludes").trim();
+  if (urlIncludes) condition.urlIncludes = urlIncludes;
+  const idleMs = getNumberArg(raw, "idleMs");
+  if (kind === "dom_idle") condition.idleMs = Math.max(50, Math.min(idleMs ?? 500, condition.timeoutMs));
+  return condition;
+}
+
+function describeWait(condition: WaitCondition): string {
+  const detail = condition.selector ?? condition.text ?? condition.urlIncludes ?? (condition.idleMs ? `${condition.idleMs}ms` : "");
+  return detail ? `${condition.kind} ${detail}` : condition.kind;
+}
+
+function parseWaitResult(data: unknown, condition: WaitCondition): WaitResult {
+  const raw = data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  return {
+    satisfied: raw.satisfied === true,
+    condition: condition.kind,
+    elapsedMs: typeof raw.elapsedMs === "number" ? raw.elapsedMs : 0,
+    url: typeof raw.url === "string" ? raw.url : "",
+    ...(typeof raw.mutations === "number" ? { mutations: raw.mutations } : {}),
+  };
+}
+
+function parsePlanItems(args: unknown): string[] {
+  const raw = (args as { items?: unknown } | null)?.items;
+  const items = Array.isArray(raw) ? raw.map((item) => String(item ?? "").trim()).filter(Boolean) : [];
+  if (!items.length) {
+    throw new Error("browser.plan needs at least one item");
+  }
+  return items.slice(0, PLAN_MAX_ITEMS);
+}
+
+function parseFormFields(args: unknown): Array<{ field: string; value: string }> {
+  const raw = (args as { fields?: unknown } | null)?.fields;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("fields must be an object mapping field descriptions to values.");
+  }
+  const fields = Object.entries(raw as Record<string, unknown>)
+    .filter(([field, value]) => field.trim() && ["string", "number", "boolean"].includes(typeof value))
+    .map(([field, value]) => ({ field: field.trim(), value: String(value) }));
+  if (!fields.length) {
+    throw new Error("fields must contain at least one field description and value.");
+  }
+  return fields;
+}
+
+function formFieldPreviewFromUnknown(value: unknown): FormFieldPreview | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const item = value as Record<string, unknown>;
+  if (typeof item.field !== "string" || typeof item.status !== "string") {
+    return null;
+  }
+  const preview: FormFieldPreview = {
+    field: item.field,
+    value: typeof item.value === "string" ? item.value : "",
+    status: item.status as FormFieldPreview["status"],
+  };
+  if (typeof item.ref === "string") preview.ref = item.ref;
+  if (typeof item.label === "string") preview.label = item.label;
+  if (typeof item.kind === "string") preview.kind = item.kind as FormFieldKind;
+  if (Array.isArray(item.candidates)) {
+    preview.candidates = item.candidates.filter((c): c is string => typeof c === "string");
+  }
+  if (item.sensitive === true) preview.sensitive = true;
+  return preview;
+}
+
+function parseFormPreviewResult(data: unknown): FormPreviewResult {
+  const raw = data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  return {
+    scope: typeof raw.scope === "string" ? raw.scope : "",
+    fields: Array.isArray(raw.fields)
+      ? raw.fields.map(formFieldPreviewFromUnknown).filter((v): v is FormFieldPreview => v !== null)
+      : [],
+    ...(typeof raw.error === "string" ? { error: raw.error } : {}),
+  };
+}
+
+function parseFormFillResult(data: unknown): FormFillFieldResult[] {
+  const raw = data && typeof data === "object" ? (data as { fields?: unknown }).fields : undefined;
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw
+    .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === "object")
+    .map((item) => ({
+      field: typeof item.field === "string" ? item.field : "",
+      ok: item.ok === true,
+      ...(item.ok === true ? {} : { error: toErrorCode(item.error) }),
+      ...(item.sensitive === true ? { sensitive: true } : {}),
+    }));
+}
+
+function extractFieldType(schema: Record<string, unknown>): ExtractFieldType {
+  if (schema.type === "number" || schema.type === "integer") return "number";
+  if (schema.type === "boolean") return "boolean";
+  if (schema.type === "url" || schema.format === "uri" || schema.format === "url") return "url";
+  return "string";
+}
+
+// Accepts either a field list (names or {name, type, selector}) or a JSON schema for one record.
+function parseExtractFields(args: unknown): ExtractField[] {
+  const raw = args && typeof args === "object" ? (args as Record<string, unknown>) : {};
+  const fields: ExtractField[] = [];
+
+  if (raw.schema && typeof raw.schema === "object") {
+    let schema = raw.schema as Record<string, unknown>;
+    if (schema.type === "array" && schema.items && typeof schema.items === "object") {
+      schema = schema.items as Record<string, unknown>;
+    }
+    const properties = schema.properties && typeof schema.properties === "object" ? schema.properties : {};
+    for (const [name, value] of Object.entries(properties as Record<string, unknown>)) {
+      fields.push({ name, type: extractFieldType(value && typeof value === "object" ? (value as Record<string, unknown>) : {}) });
+    }
+  }
+
+  if (Array.isArray(raw.fields)) {
+    for (const item of raw.fields) {
+      if (typeof item === "string" && item.trim()) {
+        fields.push({ name: item.trim(), type: "string" });
+      } else if (item && typeof item === "object" && typeof (item as { name?: unknown }).name === "string") {
+        const field = item as Record<string, unknown>;
+        const selector = getStringArg(field, "selector").trim();
+        fields.push({
+          name: (field.name as string).trim(),
+          type: extractFieldType(field),
+          ...(selector ? { selector } : {}),
+        });
+      }
+    }
+  }
+
+  if (!fields.length) {
+    throw new Error("Provide fields (a list of field names) or a JSON schema describing one record.");
+  }
+  return fields;
+}
+
+function parseExtractResult(data: unknown, fields: ExtractField[]): ExtractResult {
+  const raw = data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  const records = Array.isArray(raw.records)
+    ? raw.records
+        .filter((r): r is Record<string, unknown> => Boolean(r) && typeof r === "object")
+        .map((r) => {
+          const record: Record<string, ExtractValue> = {};
+          for (const field of fields) {
+            const value = r[field.name];
+            record[field.name] = ["string", "number", "boolean"].includes(typeof value) ? (value as ExtractValue) : null;
+          }
+          return record;
+        })
+    : [];
+  const pagination = raw.pagination && typeof raw.pagination === "object" ? (raw.pagination as Record<string, unknown>) : {};
+  return {
+    title: typeof raw.title === "string" ? raw.title : "",
+    url: typeof raw.url === "string" ? raw.url : "",
+    container: typeof raw.container === "string" ? raw.container : "",
+    itemSelector: typeof raw.itemSelector === "string" ? raw.itemSelector : "",
+    fields,
+    records,
+    itemCount: typeof raw.itemCount === "number" ? raw.itemCount : records.length,
+    truncated: raw.truncated === true,
+    pagination: {
+      hasMore: pagination.hasMore === true,
+      ...(typeof pagination.nextUrl === "string" ? { nextUrl: pagination.nextUrl } : {}),
+      ...(typeof pagination.nextSelector === "string" ? { nextSelector: pagination.nextSelector } : {}),
+      ...(typeof pagination.loadMoreSelector === "string" ? { loadMoreSelector: pagination.loadMoreSelector } : {}),
+    },
+  };
+}
+
+function parseScreenshotResult(data: unknown): ScreenshotResult {
+  const raw = data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  if (typeof raw.data !== "string" || !raw.data) {
+    throw new Error("NOT_FOUND");
+  }
+  return {
+    mimeType: typeof raw.mimeType === "string" ? raw.mimeType : "image/jpeg",
+    data: raw.data,
+    width: typeof raw.width === "number" ? raw.width : 0,
+    height: typeof raw.height === "number" ? raw.height : 0,
+    cropped: raw.cropped === true,
+    target: typeof raw.target === "string" ? raw.target : "viewport",
+  };
+}
+
+function parseReadPageResult(data: unknown): ReadPageResult {
+  const raw = data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  const headings = Array.isArray(raw.headings)
+    ? raw.headings.filter(
+        (h): h is PageHeading =>
+          Boolean(h) && typeof h === "object" && typeof h.level === "number" && typeof h.text === "string",
+      )
+    : [];
+  const chunks = Array.isArray(raw.chunks) ? raw.chunks.filter((c): c is string => typeof c === "string") : [];
+  return {
+    title: typeof raw.title === "string" ? raw.title : "",
+    url: typeof raw.url === "string" ? raw.url : "",
+    scope: typeof raw.scope === "string" ? raw.scope : "",
+    headings,
+    chunks,
+    totalChars: typeof raw.totalChars === "number" ? raw.totalChars : chunks.join("").length,
+    truncated: raw.truncated === true,
+  };
+}
+
+function snapshotNodeFromUnknown(value: unknown): SnapshotNode | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const item = value as Record<string, unknown>;
+  if (typeof item.ref !== "string" || typeof item.role !== "string" || typeof item.name !== "string") {
+    return null;
+  }
+  const node: SnapshotNode = { ref: item.ref, role: item.role, name: item.name };
+  if (Array.isArray(item.states)) {
+    node.states = item.states.filter((v): v is string => typeof v === "string");
+  }
+  if (typeof item.level === "number") {
+    node.level = item.level;
+  }
+  if (Array.isArray(item.children)) {
+    node.children = item.children.map(snapshotNodeFromUnknown).filter((v): v is SnapshotNode => v !== null);
+  }
+  return node;
+}
+
+function parseSnapshotResult(data: unknown): SnapshotResult {
+  const raw = data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  const nodes = Array.isArray(raw.nodes)
+    ? raw.nodes.map(snapshotNodeFromUnknown).filter((v): v is SnapshotNode => v !== null)
+    : [];
+  return {
+    title: typeof raw.title === "string" ? raw.title : "",
+    url: typeof raw.url === "string" ? raw.url : "",
+    nodes,
+    nodeCount: typeof raw.nodeCount === "number" ? raw.nodeCount : nodes.length,
+    truncated: raw.truncated === true,
+  };
+}
+
+function indexSnapshotRefs(nodes: SnapshotNode[], into: Map<string, SnapshotNode>) {
+  for (const node of nodes) {
+    into.set(node.ref, node);
+    if (node.children) {
+      indexSnapshotRefs(node.children, into);
+    }
+  }
+}
+
+// Renders nodes as indented lines, e.g. `- button "Search" [disabled] [ref=e4]`.
+function formatSnapshotTree(nodes: SnapshotNode[], depth = 0): string {
+  const lines: string[] = [];
+  for (const node of nodes) {
+    const parts = [`${"  ".repeat(depth)}- ${node.role}`];
+    if (node.name) {
+      parts.push(JSON.stringify(node.name));
+    }
+    if (node.level) {
+      parts.push(`[level=${node.level}]`);
+    }
+    for (const stateName of node.states ?? []) {
+      parts.push(`[${stateName}]`);
+    }
+    parts.push(`[ref=${node.ref}]`);
+    lines.push(parts.join(" "));
+    if (node.children?.length) {
+      lines.push(formatSnapshotTree(node.children, depth + 1));
+    }
+  }
+  return lines.join("\n");
+}
+
 function getStringArg(args: unknown, key: string): string {
   if (!args || typeof args !== "object") {
     return "";
@@ -258,6 +1462,22 @@ function getStringArg(args: unknown, key: string): string {
   return typeof value === "string" ? value : "";
 }
 
+function getNumberArg(args: unknown, key: string): number | undefined {
+  if (!args || typeof args !== "object") {
+    return undefined;
+  }
+  const value = (args as Record<string, unknown>)[key];
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function getBooleanArg(args: unknown, key: string): boolean | undefined {
+  if (!args || typeof args !== "object") {
+    return undefined;
+  }
+  const value = (args as Record<string, unknown>)[key];
+  return typeof value === "boolean" ? value : undefined;
+}
+
 function extractDomainHint(text: string): string | null {
   const match = text.match(/\b([a-z0-9-]+\.[a-z]{2,}(?:\.[a-z]{2,})?)\b/i);
   if (!match) {
@@ -278,32 +1498,73 @@ async function resolveModelSelection(): Promise<void> {
   try {
     const models = await client.listModels();
     const modelIds = models.map((model) => model.id);
+    for (const model of models) {
+      if (model.capabilities?.supports?.vision) {
+        visionModelIds.add(model.id);
+      }
+    }
+    availableModels = models.map((model) => ({
+      id: model.id,
+      name: model.name || model.id,
+      vision: visionModelIds.has(model.id),
+    }));
     if (modelIds.length) {
       log(`Available Copilot models: ${modelIds.join(", ")}`);
     }
 
     if (configuredModelName && !modelIds.includes(configuredModelName)) {
-      selectedModelName = undefined;
+      defaultModelName = undefined;
       log(
         `Configured model '${configuredModelName}' is not available for this account/policy. Falling back to Copilot CLI default model.`,
       );
       return;
     }
 
-    selectedModelName = configuredModelName;
+    defaultModelName = configuredModelName;
   } catch (error) {
-    selectedModelName = configuredModelName;
+    defaultModelName = configuredModelName;
     log("Could not list Copilot models; continuing with configured/default model.", error);
   }
 }
 
-function buildSessionConfig(state: SessionState, includeConfiguredModel: boolean): SessionConfig {
+// The CLI default model is unknown here, so screenshots are only attached for a listed vision model.
+function modelSupportsVision(state: SessionState): boolean {
+  return Boolean(state.model && visionModelIds.has(state.model));
+}
+
+function buildSessionConfig(state: SessionState): SessionConfig {
   return {
     sessionId: state.sessionId,
-    ...(includeConfiguredModel && selectedModelName ? { model: selectedModelName } : {}),
+    ...(state.model ? { model: state.model } : {}),
     streaming: true,
-    tools: createTools(state),
-    availableTools: ["browser_navigate", "browser_find", "browser_select_candidate", "browser_highlight", "browser_click", "browser_type"],
+    tools: createTools(() => state).map(reportToolErrors),
+    availableTools: [
+      "browser_navigate",
+      "browser_find",
+      "browser_select_candidate",
+      "browser_read_page",
+      "browser_extract",
+      "browser_screenshot",
+      "browser_snapshot",
+      "browser_tabs_list",
+      "browser_tab_open",
+      "browser_tab_switch",
+      "browser_tab_close",
+      "browser_wait",
+      "browser_highlight",
+      "browser_click",
+      "browser_type",
+      "browser_select_option",
+      "browser_set_checked",
+      "browser_press_key",
+      "browser_hover",
+      "browser_scroll",
+      "browser_fill_form",
+      "browser_upload",
+      "browser_download",
+      "browser_plan",
+      "browser_plan_update",
+    ],
     systemMessage: {
       content: SYSTEM_PROMPT,
     },
@@ -313,7 +1574,8 @@ function buildSessionConfig(state: SessionState, includeConfiguredModel: boolean
   };
 }
 
-async function rebuildSessionWithDefaultModel(state: SessionState): Promise<void> {
+// Reopens the Copilot session on state.model. Resuming keeps the conversation; a fresh session is the fallback.
+async function rebuildSession(state: SessionState): Promise<void> {
   for (const unsub of state.unsubs) {
     unsub();
   }
@@ -323,174 +1585,1311 @@ async function rebuildSessionWithDefaultModel(state: SessionState): Promise<void
     try {
       await state.copilotSession.destroy();
     } catch (error) {
-      log(`Failed to destroy session during fallback ${state.sessionId}`, error);
+      log(`Failed to destroy session during rebuild ${state.sessionId}`, error);
     }
   }
 
-  state.copilotSession = await client.createSession(buildSessionConfig(state, false));
+  state.copilotSession = null;
+  try {
+    state.copilotSession = await client.resumeSession(state.sessionId, buildSessionConfig(state));
+  } catch (error) {
+    log(`Could not resume Copilot session ${state.sessionId} on the new model; starting a new one`, error);
+    state.copilotSession = await client.createSession(buildSessionConfig(state));
+  }
   wireSessionEvents(state);
 }
 
-function createTools(state: SessionState) {
-  return [
+function isModelRejected(state: SessionState, message: string): boolean {
+  return Boolean(state.model) && isBadRequestError(message) && !message.includes("401");
+}
+
+function modelState(sessionId: string, token: string, model: string | undefined, notice?: string): ModelState {
+  return {
+    type: "model_state",
+    sessionId,
+    token,
+    models: availableModels,
+    defaultModel: defaultModelName ?? null,
+    model: model ?? null,
+    ...(notice ? { notice } : {}),
+  };
+}
+
+function sendModelState(state: SessionState, notice?: string) {
+  send(state, modelState(state.sessionId, state.token, state.model, notice));
+}
+
+// A rejected model only affects the session that used it; other sessions keep their model.
+function fallBackToDefaultModel(state: SessionState) {
+  const notice = `Model ${state.model} was rejected (400). This conversation now uses the Copilot default model.`;
+  log(`${notice} Session ${state.sessionId}`);
+  state.model = undefined;
+  sendModelState(state, notice);
+}
+
+async function setSessionModel(state: SessionState, model: string | undefined) {
+  if (model === state.model) {
+    sendModelState(state);
+    return;
+  }
+
+  state.model = model;
+  try {
+    await rebuildSession(state);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!isModelRejected(state, message)) {
+      throw error;
+    }
+    fallBackToDefaultModel(state);
+    await rebuildSession(state);
+    return;
+  }
+  log(`Session ${state.sessionId} switched to model ${model ?? "default"}`);
+  sendModelState(state);
+}
+
+// Handlers look the session up when called, so the definitions can be listed without one (see describeMcpTools).
+function createTools(session: () => SessionState): Tool[] {
+  const tools = [
+    defineTool("browser_plan", {
+      description:
+        "Show the user a checklist plan for a task with several distinct steps before starting it. Replaces the current plan; the first item becomes active.",
+      parameters: {
+        type: "object",
+        properties: {
+          items: { type: "array", items: { type: "string" }, description: "Plan items in order, one short sentence each." },
+        },
+        required: ["items"],
+      },
+      handler: async (args) => {
+        const state = session();
+        const items = parsePlanItems(args);
+        if (!state.run) {
+          throw new Error("No active run");
+        }
+        state.run.plan = items.map((text, index) => ({ id: `p${index + 1}`, text, status: index === 0 ? "active" : "pending" }));
+        state.run.planEdited = false;
+        appendStep(state, `Planned ${items.length} step(s)`);
+        sendPlan(state);
+        return { ok: true, items: state.run.plan };
+      },
+    }),
+    defineTool("browser_plan_update", {
+      description:
+        "Update one plan item by id: active when you start it, done or failed when it finishes, skipped when it no longer applies. In step mode a finished item pauses until the user continues. The result holds the current plan, which the user may have edited.",
+      parameters: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          status: { type: "string", enum: PLAN_STATUSES },
+          note: { type: "string", description: "Optional short outcome, e.g. why the item failed." },
+        },
+        required: ["id", "status"],
+      },
+      handler: async (args) => {
+        const state = session();
+        const run = state.run;
+        const id = getStringArg(args, "id").trim();
+        const item = run?.plan.find((p) => p.id === id);
+        if (!run || !item) {
+          throw new Error(`Unknown plan item ${id}. Call browser.plan first.`);
+        }
+        const status = getStringArg(args, "status") as PlanItemStatus;
+        if (!PLAN_STATUSES.includes(status)) {
+          throw new Error(`Plan status must be one of ${PLAN_STATUSES.join(", ")}`);
+        }
+        const note = getStringArg(args, "note").trim();
+
+        item.status = status;
+        if (note) {
+          item.note = note;
+        }
+        appendStep(state, `Plan ${status}: ${item.text}`);
+        if (status !== "active") {
+          activateNextPlanItem(run);
+        }
+
+        const unfinished = run.plan.some((p) => p.status === "pending" || p.status === "active");
+        if (run.stepMode && status !== "active" && unfinished) {
+          appendStep(state, "Step mode: waiting for the user to continue");
+          sendPlan(state, true);
+          await waitForPlanContinue(state);
+        }
+        sendPlan(state);
+
+        const edited = run.planEdited;
+        run.planEdited = false;
+        return {
+          ok: true,
+          items: run.plan,
+          ...(edited ? { userEdited: "The user edited the plan; continue with the items listed here." } : {}),
+        };
+      },
+    }),
     defineTool("browser_navigate", {
-      description: "Navigate the active browser tab to a URL or domain.",
+      description:
+        "Navigate the working tab to a URL or domain. Pass waitFor to also wait for a condition after the page loads and get back what changed.",
       parameters: {
         type: "object",
         properties: {
           url: { type: "string" },
+          waitFor: { type: "object", properties: WAIT_CONDITION_PROPERTIES, required: ["kind"] },
         },
         required: ["url"],
       },
       handler: async (args, invocation) => {
+        const state = session();
         const url = getStringArg(args, "url").trim();
         if (!url) {
           throw new Error("NOT_FOUND");
         }
+        const rawWaitFor = (args as { waitFor?: unknown } | null)?.waitFor;
+        const waitFor = rawWaitFor ? parseWaitCondition(rawWaitFor) : undefined;
+        const verdict = checkPolicy(state, "browser_navigate", { targetUrl: url });
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
+        }
 
         appendStep(state, `Navigating to ${url}`);
         const rawResult = await requestToolRoundTrip(
           state,
           invocation.toolCallId,
           "browser_navigate",
-          { url },
+          { url, ...(waitFor ? { waitFor } : {}) },
           `navigating to ${url}`,
+          TOOL_TIMEOUT_NAVIGATE_MS + (waitFor?.timeoutMs ?? 0),
         );
         const result = typeof rawResult === "object" && rawResult ? rawResult : { ok: true, url };
+        if (waitFor) {
+          appendWaitStep(state, waitFor, (result as { wait?: unknown }).wait);
+        }
         state.lastFindCandidates = [];
+        state.snapshotRefs.clear();
         return result;
       },
     }),
-    defineTool("browser_find", {
-      description: "Find candidate elements from a user query. Call this first.",
+    defineTool("browser_tabs_list", {
+      description: "List open browser tabs with their tabId, title and URL. workingTab marks the tab your tools act on.",
       parameters: {
         type: "object",
-        properties: {
-          query: { type: "string" },
-        },
-        required: ["query"],
+        properties: {},
       },
-      handler: async (args, invocation) => {
-        const query = getStringArg(args, "query").trim();
-        if (!query) {
-          return { candidates: [] };
+      handler: async (_args, invocation) => {
+        const state = session();
+        const verdict = checkPolicy(state, "browser_tabs_list");
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
         }
 
-        appendStep(state, `Finding elements for \"${query}\"`);
-        const rawResult = await requestToolRoundTrip(
-          state,
-          invocation.toolCallId,
-          "browser_find",
-          { query },
-          `finding ${query}`,
-        );
-
-        const parsed = parseFindResult(rawResult);
-        state.lastFindCandidates = parsed.candidates;
-        appendStep(state, `Found ${parsed.candidates.length} candidate(s)`);
-        return parsed;
+        const rawResult = await requestToolRoundTrip(state, invocation.toolCallId, "browser_tabs_list", {}, "listing tabs");
+        const rawTabs =
+          rawResult && typeof rawResult === "object" && Array.isArray((rawResult as { tabs?: unknown }).tabs)
+            ? (rawResult as { tabs: unknown[] }).tabs
+            : [];
+        const tabs = rawTabs.map(tabInfoFromUnknown).filter((v): v is TabInfo => v !== null);
+        appendStep(state, `Listed ${tabs.length} tab(s)`);
+        return {
+          tabs: tabs.map((tab) => ({ ...tab, workingTab: tab.tabId === state.run?.tabId })),
+        };
       },
     }),
-    defineTool("browser_select_candidate", {
-      description: "Select a single candidate from the last browser.find results by candidate id. Use this to disambiguate when browser.find returned multiple candidates.",
+    defineTool("browser_tab_open", {
+      description: "Open a new tab, optionally at a URL or domain, and make it your working tab.",
       parameters: {
         type: "object",
         properties: {
-          id: { type: "string" },
+          url: { type: "string" },
         },
-        required: ["id"],
       },
-      handler: async (args) => {
-        const id = getStringArg(args, "id").trim();
-        const candidate = state.lastFindCandidates.find((c) => c.id === id);
-        if (!candidate) {
-          throw new Error("NOT_FOUND");
+      handler: async (args, invocation) => {
+        const state = session();
+        const url = getStringArg(args, "url").trim();
+        const verdict = checkPolicy(state, "browser_tab_open", url ? { targetUrl: url } : {});
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
         }
-        state.lastFindCandidates = [candidate];
-        appendStep(state, `Selected candidate ${id}: ${candidate.label}`);
-        return { selected: candidate };
+
+        appendStep(state, url ? `Opening new tab at ${url}` : "Opening new tab");
+        const rawResult = await requestToolRoundTrip(
+          state,
+          invocation.toolCallId,
+          "browser_tab_open",
+          url ? { url } : {},
+          url ? `opening tab ${url}` : "opening tab",
+        );
+        const tab = tabInfoFromUnknown(rawResult);
+        if (!tab) {
+          throw new Error("NO_ACTIVE_TAB");
+        }
+        pinTab(state, tab);
+        state.run?.openedTabIds.add(tab.tabId);
+        appendStep(state, `Working in tab ${tab.tabId}`);
+        return tab;
       },
     }),
-    defineTool("browser_highlight", {
-      description: "Highlight a selected element on the active page.",
+    defineTool("browser_tab_switch", {
+      description: "Make another open tab your working tab (by tabId from browser.tabs_list) and bring it to the front.",
       parameters: {
         type: "object",
         properties: {
-          selector: { type: "string" },
-          label: { type: "string" },
+          tabId: { type: "number" },
         },
-        required: ["selector"],
+        required: ["tabId"],
       },
       handler: async (args, invocation) => {
-        ensureSingleCandidateBeforeAction(state, "browser_highlight");
-        const selector = getStringArg(args, "selector").trim();
-        const label = getStringArg(args, "label").trim();
-        if (!selector) {
-          throw new Error("NOT_FOUND");
+        const state = session();
+        const tabId = getNumberArg(args, "tabId");
+        if (tabId === undefined) {
+          throw new Error("NO_ACTIVE_TAB");
+        }
+        const verdict = checkPolicy(state, "browser_tab_switch");
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
         }
 
-        appendStep(state, `Highlighting ${selector}`);
-        await requestToolRoundTrip(
+        appendStep(state, `Switching to tab ${tabId}`);
+        const rawResult = await requestToolRoundTrip(
           state,
           invocation.toolCallId,
-          "browser_highlight",
-          { selector, label },
-          `highlighting ${label || selector}`,
+          "browser_tab_switch",
+          { tabId },
+          `switching to tab ${tabId}`,
         );
-        return { ok: true };
+        const tab = tabInfoFromUnknown(rawResult);
+        if (!tab) {
+          throw new Error("NO_ACTIVE_TAB");
+        }
+        pinTab(state, tab);
+        return tab;
       },
     }),
-    defineTool("browser_click", {
-      description: "Click the target element.",
+    defineTool("browser_tab_close", {
+      description: "Close a tab by tabId (defaults to your working tab). Closing a tab you did not open needs user approval. After closing your working tab, call browser.tab_switch or browser.tab_open before using other tools.",
       parameters: {
         type: "object",
         properties: {
-          selector: { type: "string" },
+          tabId: { type: "number" },
         },
-        required: ["selector"],
       },
       handler: async (args, invocation) => {
-        ensureSingleCandidateBeforeAction(state, "browser_click");
-        const selector = getStringArg(args, "selector").trim();
-        if (!selector) {
-          throw new Error("NOT_FOUND");
+        const state = session();
+        const tabId = getNumberArg(args, "tabId") ?? state.run?.tabId ?? undefined;
+        if (tabId === undefined) {
+          throw new Error("NO_ACTIVE_TAB");
+        }
+        const verdict = checkPolicy(state, "browser_tab_close");
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
+        }
+
+        const uiLabel = `closing tab ${tabId}`;
+        if (!state.run?.openedTabIds.has(tabId)) {
+          const target = { description: `tab ${tabId}`, name: "" };
+          await requireApproval(state, invocation.toolCallId, "browser_tab_close", target, verdict, { tabId }, uiLabel);
         }
 
-        appendStep(state, `Clicking ${selector}`);
-        await requestToolRoundTrip(state, invocation.toolCallId, "browser_click", { selector }, `clicking ${selector}`);
-        return { ok: true };
+        appendStep(state, `Closing tab ${tabId}`);
+        await requestToolRoundTrip(state, invocation.toolCallId, "browser_tab_close", { tabId }, uiLabel);
+        state.run?.openedTabIds.delete(tabId);
+        if (state.run?.tabId === tabId) {
+          state.run.tabId = null;
+          state.run.tabClosed = true;
+          state.lastFindCandidates = [];
+          state.snapshotRefs.clear();
+        }
+        return { ok: true, tabId };
       },
     }),
-    defineTool("browser_type", {
-      description: "Type text into the target input element.",
+    defineTool("browser_wait", {
+      description:
+        "Wait, with a timeout, until a selector appears or disappears, text appears, the URL changes, or the DOM stops changing. Use before browser.find on single-page apps and lazy-loaded results.",
       parameters: {
         type: "object",
-        properties: {
-          selector: { type: "string" },
-          text: { type: "string" },
+        properties: WAIT_CONDITION_PROPERTIES,
+        required: ["kind"],
+      },
+      handler: async (args, invocation) => {
+        const state = session();
+        const condition = parseWaitCondition(args);
+        const verdict = checkPolicy(state, "browser_wait");
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
+        }
+
+        appendStep(state, `Waiting for ${describeWait(condition)}`);
+        const rawResult = await requestToolRoundTrip(
+          state,
+          invocation.toolCallId,
+          "browser_wait",
+          { condition },
+          `waiting for ${describeWait(condition)}`,
+          condition.timeoutMs + TOOL_TIMEOUT_MS,
+        );
+        const result = parseWaitResult(rawResult, condition);
+        appendWaitStep(state, condition, result);
+        if (!result.satisfied) {
+          throw new Error("TIMEOUT");
+        }
+        if (result.url) {
+          state.pageUrl = result.url;
+        }
+        return result;
+      },
+    }),
+    defineTool("browser_find", {
+      description:
+        "Find candidate elements from a user query. Call this first. Matches accessible names, labels, placeholders, titles, image alt text and roles (e.g. \"search box\", \"sign in button\"), tolerating synonyms and typos. Each candidate has a 0-100 score and the reasons for it.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: { type: "string" },
+          maxResults: { type: "number", description: "Optional candidate budget (default 8, max 20)." },
+        },
+        required: ["query"],
+      },
+      handler: async (args, invocation) => {
+        const state = session();
+        const query = getStringArg(args, "query").trim();
+        if (!query) {
+          return { candidates: [] };
+        }
+        const verdict = checkPolicy(state, "browser_find");
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
+        }
+
+        const maxResults = getNumberArg(args, "maxResults");
+        appendStep(state, `Finding elements for \"${query}\"`);
+        const rawResult = await requestToolRoundTrip(
+          state,
+          invocation.toolCallId,
+          "browser_find",
+          { query, ...(maxResults ? { maxResults } : {}) },
+          `finding ${query}`,
+        );
+
+        const parsed = parseFindResult(rawResult);
+        state.lastFindCandidates = parsed.candidates;
+        const best = parsed.candidates[0]?.score;
+        appendStep(state, `Found ${parsed.candidates.length} candidate(s)${best === undefined ? "" : ` (best score ${best})`}`);
+        return { candidates: parsed.candidates.map(withoutFingerprint) };
+      },
+    }),
+    defineTool("browser_select_candidate", {
+      description: "Select a single candidate from the last browser.find results by candidate id. Use this to disambiguate when browser.find returned multiple candidates.",
+      parameters: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+        },
+        required: ["id"],
+      },
+      handler: async (args) => {
+        const state = session();
+        const id = getStringArg(args, "id").trim();
+        const candidate = state.lastFindCandidates.find((c) => c.id === id);
+        if (!candidate) {
+          throw new Error("NOT_FOUND");
+        }
+        state.lastFindCandidates = [candidate];
+        appendStep(state, `Selected candidate ${id}: ${candidate.label}`);
+        return { selected: withoutFingerprint(candidate) };
+      },
+    }),
+    defineTool("browser_read_page", {
+      description:
+        "Read the active page as text: title, URL, heading outline and main-content text chunks (navigation, headers and footers stripped). Pass a CSS selector to read only one region.",
+      parameters: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "Optional CSS selector limiting the read to one region." },
+          maxChars: { type: "number", description: "Optional text budget in characters (default 12000, max 40000)." },
+        },
+      },
+      handler: async (args, invocation) => {
+        const state = session();
+        const selector = getStringArg(args, "selector").trim();
+        const maxChars = getNumberArg(args, "maxChars");
+        const verdict = checkPolicy(state, "browser_read_page");
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
+        }
+
+        appendStep(state, selector ? `Reading page region ${selector}` : "Reading page content");
+        const rawResult = await requestToolRoundTrip(
+          state,
+          invocation.toolCallId,
+          "browser_read_page",
+          { ...(selector ? { selector } : {}), ...(maxChars ? { maxChars } : {}) },
+          selector ? `reading ${selector}` : "reading page",
+        );
+
+        const parsed = parseReadPageResult(rawResult);
+        appendStep(state, `Read ${parsed.totalChars} chars${parsed.truncated ? " (truncated)" : ""}`);
+        return parsed;
+      },
+    }),
+    defineTool("browser_extract", {
+      description:
+        "Extract repeated items (table rows, cards, list items) from the page as typed JSON records. Describe one record with fields (names, or {name, type, selector} with type string/number/boolean/url) or a JSON schema. Optional selector limits extraction to a container. Returns records plus pagination hints (next page link, load-more button).",
+      parameters: {
+        type: "object",
+        properties: {
+          fields: {
+            type: "array",
+            items: {
+              anyOf: [
+                { type: "string" },
+                {
+                  type: "object",
+                  properties: {
+                    name: { type: "string" },
+                    type: { type: "string", enum: ["string", "number", "boolean", "url"] },
+                    selector: { type: "string", description: "Optional CSS selector relative to each item." },
+                  },
+                  required: ["name"],
+                },
+              ],
+            },
+          },
+          schema: { type: "object", description: "JSON schema of one record (or an array of records)." },
+          selector: { type: "string", description: "Optional CSS selector of the container holding the items." },
+          maxItems: { type: "number", description: "Optional record budget (default 100, max 500)." },
+        },
+      },
+      handler: async (args, invocation) => {
+        const state = session();
+        const fields = parseExtractFields(args);
+        const selector = getStringArg(args, "selector").trim();
+        const maxItems = getNumberArg(args, "maxItems");
+        const verdict = checkPolicy(state, "browser_extract");
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
+        }
+
+        appendStep(state, `Extracting ${fields.map((f) => f.name).join(", ")}${selector ? ` from ${selector}` : ""}`);
+        const rawResult = await requestToolRoundTrip(
+          state,
+          invocation.toolCallId,
+          "browser_extract",
+          { fields, ...(selector ? { selector } : {}), ...(maxItems ? { maxItems } : {}) },
+          selector ? `extracting from ${selector}` : "extracting data",
+        );
+
+        const parsed = parseExtractResult(rawResult, fields);
+        appendStep(
+          state,
+          `Extracted ${parsed.records.length} of ${parsed.itemCount} items${parsed.pagination.hasMore ? " (more pages available)" : ""}`,
+        );
+        if (parsed.records.length) {
+          send(state, { type: "extract_result", sessionId: state.sessionId, token: state.token, result: parsed });
+        }
+        return parsed;
+      },
+    }),
+    defineTool("browser_screenshot", {
+      description:
+        "Capture what the working tab currently shows. Pass a selector or ref to crop to one element, or highlight: true to crop to the current highlight box. Use it to identify icon-only controls or check visual state. The working tab must be the visible tab; call browser.tab_switch first if it is not.",
+      parameters: {
+        type: "object",
+        properties: {
+          selector: { type: "string" },
+          ref: { type: "string" },
+          highlight: { type: "boolean", description: "Crop to the box drawn by the last browser.highlight." },
         },
-        required: ["selector", "text"],
       },
       handler: async (args, invocation) => {
-        ensureSingleCandidateBeforeAction(state, "browser_type");
+        const state = session();
         const selector = getStringArg(args, "selector").trim();
+        const ref = getStringArg(args, "ref").trim();
+        const highlight = getBooleanArg(args, "highlight") === true;
+        const verdict = checkPolicy(state, "browser_screenshot");
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
+        }
+
+        const what = highlight ? "highlighted element" : ref || selector || "visible page";
+        appendStep(state, `Capturing screenshot of ${what}`);
+        const shot = parseScreenshotResult(
+          await requestToolRoundTrip(
+            state,
+            invocation.toolCallId,
+            "browser_screenshot",
+            { ...(selector ? { selector } : {}), ...(ref ? { ref } : {}), ...(highlight ? { highlight } : {}) },
+            `capturing ${what}`,
+          ),
+        );
+        send(state, {
+          type: "screenshot",
+          sessionId: state.sessionId,
+          token: state.token,
+          label: `Screenshot of ${shot.target} (${shot.width}×${shot.height})`,
+          mimeType: shot.mimeType,
+          data: shot.data,
+        });
+
+        const attached = modelSupportsVision(state);
+        const summary = { ok: true, width: shot.width, height: shot.height, cropped: shot.cropped, target: shot.target, attached };
+        if (!attached) {
+          return {
+            textResultForLlm: `${JSON.stringify(summary)}\nThe current model does not accept images; the screenshot was shown to the user only.`,
+            resultType: "success",
+          };
+        }
+        return {
+          textResultForLlm: JSON.stringify(summary),
+          binaryResultsForLlm: [
+            { data: shot.data, mimeType: shot.mimeType, type: "image", description: `Screenshot of ${shot.target}` },
+          ],
+          resultType: "success",
+        };
+      },
+    }),
+    defineTool("browser_snapshot", {
+      description:
+        "Capture a compact accessibility tree of the visible page. Each node lists role, accessible name, state (checked/disabled/expanded) and a ref id usable with browser.highlight, browser.click and browser.type.",
+      parameters: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "Optional CSS selector limiting the snapshot to one region." },
+          maxNodes: { type: "number", description: "Optional node budget (default 250, max 600)." },
+        },
+      },
+      handler: async (args, invocation) => {
+        const state = session();
+        const selector = getStringArg(args, "selector").trim();
+        const maxNodes = getNumberArg(args, "maxNodes");
+        const verdict = checkPolicy(state, "browser_snapshot");
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
+        }
+
+        appendStep(state, selector ? `Snapshotting ${selector}` : "Snapshotting page");
+        const rawResult = await requestToolRoundTrip(
+          state,
+          invocation.toolCallId,
+          "browser_snapshot",
+          { ...(selector ? { selector } : {}), ...(maxNodes ? { maxNodes } : {}) },
+          selector ? `snapshotting ${selector}` : "snapshotting page",
+        );
+
+        const parsed = parseSnapshotResult(rawResult);
+        state.snapshotRefs.clear();
+        indexSnapshotRefs(parsed.nodes, state.snapshotRefs);
+        state.lastFindCandidates = [];
+        appendStep(state, `Snapshot has ${parsed.nodeCount} node(s)${parsed.truncated ? " (truncated)" : ""}`);
+        return {
+          title: parsed.title,
+          url: parsed.url,
+          nodeCount: parsed.nodeCount,
+          truncated: parsed.truncated,
+          tree: formatSnapshotTree(parsed.nodes),
+        };
+      },
+    }),
+    defineTool("browser_highlight", {
+      description: "Highlight a selected element on the active page. Pass either a selector or a ref from browser.snapshot.",
+      parameters: {
+        type: "object",
+        properties: {
+          selector: { type: "string" },
+          ref: { type: "string" },
+          label: { type: "string" },
+        },
+      },
+      handler: async (args, invocation) => {
+        const state = session();
+        const target = resolveActionTarget(state, args, "browser_highlight");
+        const label = getStringArg(args, "label").trim();
+        const verdict = checkPolicy(state, "browser_highlight");
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
+        }
+
+        appendStep(state, `Highlighting ${target.description}`);
+        const rawResult = await requestToolRoundTrip(
+          state,
+          invocation.toolCallId,
+          "browser_highlight",
+          { ...target.params, label },
+          `highlighting ${label || target.description}`,
+        );
+        return rawResult && typeof rawResult === "object" ? rawResult : { ok: true };
+      },
+    }),
+    defineTool("browser_click", {
+      description:
+        "Click the target element. Pass either a selector or a ref from browser.snapshot. Pass waitFor to wait for a condition after clicking and get back what changed (URL, title, wait outcome).",
+      parameters: {
+        type: "object",
+        properties: {
+          selector: { type: "string" },
+          ref: { type: "string" },
+          waitFor: { type: "object", properties: WAIT_CONDITION_PROPERTIES, required: ["kind"] },
+        },
+      },
+      handler: async (args, invocation) => {
+        const state = session();
+        const target = resolveActionTarget(state, args, "browser_click");
+        const rawWaitFor = (args as { waitFor?: unknown } | null)?.waitFor;
+        const waitFor = rawWaitFor ? parseWaitCondition(rawWaitFor) : undefined;
+        const uiLabel = `clicking ${target.name ? `"${target.name}" ` : ""}${target.description}`;
+        const verdict = checkPolicy(state, "browser_click", { actionText: `${target.description} ${target.name}` });
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
+        }
+        await requireApproval(state, invocation.toolCallId, "browser_click", target, verdict, target.params, uiLabel);
+
+        appendStep(state, `Clicking ${target.description}`);
+        const rawResult = await requestToolRoundTrip(
+          state,
+          invocation.toolCallId,
+          "browser_click",
+          { ...target.params, ...(waitFor ? { waitFor } : {}) },
+          uiLabel,
+          TOOL_TIMEOUT_ACTION_MS + (waitFor?.timeoutMs ?? 0),
+        );
+        if (!waitFor) {
+          return rawResult && typeof rawResult === "object" ? rawResult : { ok: true };
+        }
+
+        const changes = rawResult && typeof rawResult === "object" ? (rawResult as Record<string, unknown>) : {};
+        appendWaitStep(state, waitFor, changes.wait);
+        if (typeof changes.urlAfter === "string" && changes.urlAfter) {
+          state.pageUrl = changes.urlAfter;
+        }
+        if (changes.urlChanged === true) {
+          state.lastFindCandidates = [];
+          state.snapshotRefs.clear();
+        }
+        return changes;
+      },
+    }),
+    defineTool("browser_type", {
+      description:
+        "Type text into the target input element. Pass either a selector or a ref from browser.snapshot. Use {{secret:name}} in text to type a secret stored in the extension.",
+      parameters: {
+        type: "object",
+        properties: {
+          selector: { type: "string" },
+          ref: { type: "string" },
+          text: { type: "string" },
+        },
+        required: ["text"],
+      },
+      handler: async (args, invocation) => {
+        const state = session();
+        const target = resolveActionTarget(state, args, "browser_type");
         const text = getStringArg(args, "text");
-        if (!selector) {
+        const params = { ...target.params, text, ...(target.sensitive ? { sensitive: true } : {}) };
+        const uiLabel = `typing into ${target.description}`;
+        const verdict = checkPolicy(state, "browser_type", {
+          actionText: `${target.description} ${target.name} ${text}`,
+        });
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
+        }
+        await requireApproval(state, invocation.toolCallId, "browser_type", target, verdict, params, uiLabel);
+
+        appendStep(state, `Typing into ${target.description}`);
+        const rawResult = await requestToolRoundTrip(state, invocation.toolCallId, "browser_type", params, uiLabel);
+        return rawResult && typeof rawResult === "object" ? rawResult : { ok: true };
+      },
+    }),
+    defineTool("browser_select_option", {
+      description:
+        "Choose an option in a native <select> element by option value, visible label or zero-based index. Pass either a selector or a ref from browser.snapshot.",
+      parameters: {
+        type: "object",
+        properties: {
+          selector: { type: "string" },
+          ref: { type: "string" },
+          value: { type: "string" },
+          label: { type: "string" },
+          index: { type: "number" },
+        },
+      },
+      handler: async (args, invocation) => {
+        const state = session();
+        const target = resolveActionTarget(state, args, "browser_select_option");
+        const value = getStringArg(args, "value");
+        const label = getStringArg(args, "label").trim();
+        const index = getNumberArg(args, "index");
+        if (!value && !label && index === undefined) {
+          throw new Error("Provide value, label or index of the option to select.");
+        }
+        const choice = label || value || `#${index}`;
+        return runInteraction(
+          state,
+          invocation.toolCallId,
+          "browser_select_option",
+          target,
+          { ...(value ? { value } : {}), ...(label ? { label } : {}), ...(index !== undefined ? { index } : {}) },
+          `Selecting "${choice}" in ${target.description}`,
+          `selecting "${choice}" in ${target.description}`,
+        );
+      },
+    }),
+    defineTool("browser_set_checked", {
+      description:
+        "Check or uncheck a checkbox, radio button or switch. Does nothing if it is already in the requested state. Pass either a selector or a ref from browser.snapshot.",
+      parameters: {
+        type: "object",
+        properties: {
+          selector: { type: "string" },
+          ref: { type: "string" },
+          checked: { type: "boolean" },
+        },
+        required: ["checked"],
+      },
+      handler: async (args, invocation) => {
+        const state = session();
+        const target = resolveActionTarget(state, args, "browser_set_checked");
+        const checked = getBooleanArg(args, "checked") ?? true;
+        const verb = checked ? "checking" : "unchecking";
+        return runInteraction(
+          state,
+          invocation.toolCallId,
+          "browser_set_checked",
+          target,
+          { checked },
+          `${checked ? "Checking" : "Unchecking"} ${target.description}`,
+          `${verb} ${target.name ? `"${target.name}" ` : ""}${target.description}`,
+        );
+      },
+    }),
+    defineTool("browser_press_key", {
+      description:
+        "Press a key (e.g. Enter, Escape, Tab, ArrowDown, or a single character) on the target element, or on the focused element when no target is given. Enter in a text field submits its form.",
+      parameters: {
+        type: "object",
+        properties: {
+          key: { type: "string" },
+          modifiers: { type: "array", items: { type: "string", enum: ["Shift", "Control", "Alt", "Meta"] } },
+          selector: { type: "string" },
+          ref: { type: "string" },
+        },
+        required: ["key"],
+      },
+      handler: async (args, invocation) => {
+        const state = session();
+        const key = getStringArg(args, "key");
+        if (!key) {
           throw new Error("NOT_FOUND");
         }
+        const rawModifiers = (args as { modifiers?: unknown } | null)?.modifiers;
+        const modifiers = Array.isArray(rawModifiers)
+          ? rawModifiers.filter((m): m is string => typeof m === "string")
+          : [];
+        const target = resolveOptionalActionTarget(state, args, "browser_press_key", "focused element");
+        if (!("selector" in target.params || "ref" in target.params) && ACTIVATION_KEY_RE.test(key)) {
+          target.focusedOnly = true;
+        }
+        const combo = [...modifiers, key].join("+");
+        return runInteraction(
+          state,
+          invocation.toolCallId,
+          "browser_press_key",
+          target,
+          { key, modifiers },
+          `Pressing ${combo} on ${target.description}`,
+          `pressing ${combo} on ${target.name ? `"${target.name}" ` : ""}${target.description}`,
+        );
+      },
+    }),
+    defineTool("browser_hover", {
+      description:
+        "Move the pointer over the target element to open hover menus or tooltips. Pass either a selector or a ref from browser.snapshot.",
+      parameters: {
+        type: "object",
+        properties: {
+          selector: { type: "string" },
+          ref: { type: "string" },
+        },
+      },
+      handler: async (args, invocation) => {
+        const state = session();
+        const target = resolveActionTarget(state, args, "browser_hover");
+        return runInteraction(
+          state,
+          invocation.toolCallId,
+          "browser_hover",
+          target,
+          {},
+          `Hovering ${target.description}`,
+          `hovering ${target.description}`,
+        );
+      },
+    }),
+    defineTool("browser_scroll", {
+      description:
+        "Scroll the page (or a scrollable element) up/down/left/right by a page or amount pixels, or to top/bottom. With a target and no direction, scrolls that element into view. Returns the scroll position and whether the bottom was reached.",
+      parameters: {
+        type: "object",
+        properties: {
+          direction: { type: "string", enum: ["up", "down", "left", "right", "top", "bottom"] },
+          amount: { type: "number" },
+          selector: { type: "string" },
+          ref: { type: "string" },
+        },
+      },
+      handler: async (args, invocation) => {
+        const state = session();
+        const direction = getStringArg(args, "direction");
+        const amount = getNumberArg(args, "amount");
+        const target = resolveOptionalActionTarget(state, args, "browser_scroll", "page");
+        const what = direction ? `${target.description} ${direction}` : `to ${target.description}`;
+        return runInteraction(
+          state,
+          invocation.toolCallId,
+          "browser_scroll",
+          target,
+          { ...(direction ? { direction } : {}), ...(amount ? { amount } : {}) },
+          `Scrolling ${what}`,
+          `scrolling ${what}`,
+        );
+      },
+    }),
+    defineTool("browser_fill_form", {
+      description:
+        "Fill several fields of one form in a single approved step. fields maps a field description (its label, name or placeholder) to the value; selects and radios take the option label, checkboxes take true/false. Every mapping is previewed with highlights and the user approves the whole batch once. Pass selector to choose the form when the page has more than one. Values may use {{secret:name}} placeholders for secrets stored in the extension. Does not submit the form.",
+      parameters: {
+        type: "object",
+        properties: {
+          selector: { type: "string" },
+          fields: {
+            type: "object",
+            additionalProperties: { type: ["string", "number", "boolean"] },
+          },
+        },
+        required: ["fields"],
+      },
+      handler: async (args, invocation) => {
+        const state = session();
+        const fields = parseFormFields(args);
+        const selector = getStringArg(args, "selector").trim();
+        const verdict = checkPolicy(state, "browser_fill_form", {
+          actionText: fields.map((f) => `${f.field} ${f.value}`).join(" "),
+        });
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
+        }
+
+        // The highlights stay on the page until the fill replaces them, so every other way out removes them.
+        let filling = false;
+        try {
+          appendStep(state, `Previewing ${fields.length} form field(s)`);
+          const preview = parseFormPreviewResult(
+            await requestToolRoundTrip(
+              state,
+              `${invocation.toolCallId}:preview`,
+              "browser_fill_form",
+              { phase: "preview", ...(selector ? { selector } : {}), fields },
+              `previewing ${fields.length} form field(s)`,
+              TOOL_TIMEOUT_MS,
+            ),
+          );
+          ensureFormFieldsResolved(preview);
+
+          const uiLabel = `filling ${fields.length} form field(s) in ${preview.scope}`;
+          await requireApproval(
+            state,
+            invocation.toolCallId,
+            "browser_fill_form",
+            { description: `form ${preview.scope}`, name: "" },
+            verdict,
+            {
+              fields: preview.fields.map((f) => ({
+                field: f.field,
+                label: f.label ?? "",
+                value: f.value,
+                ...(f.sensitive ? { sensitive: true } : {}),
+              })),
+            },
+            uiLabel,
+          );
+
+          filling = true;
+          appendStep(state, `Filling ${fields.length} form field(s) in ${preview.scope}`);
+          const results = parseFormFillResult(
+            await requestToolRoundTrip(
+              state,
+              invocation.toolCallId,
+              "browser_fill_form",
+              {
+                phase: "fill",
+                fields: preview.fields.map((f) => ({
+                  field: f.field,
+                  ref: f.ref,
+                  kind: f.kind,
+                  value: f.value,
+                  ...(f.sensitive ? { sensitive: true } : {}),
+                })),
+              },
+              uiLabel,
+            ),
+          );
+          const failed = results.filter((r) => !r.ok);
+          if (failed.length) {
+            appendStep(state, `Could not fill: ${failed.map((r) => r.field).join(", ")}`);
+          }
+          return { ok: failed.length === 0, fields: results };
+        } finally {
+          if (!filling) {
+            await clearFormPreview(state, `${invocation.toolCallId}:clear`, selector);
+          }
+        }
+      },
+    }),
+    defineTool("browser_upload", {
+      description:
+        "Attach a file from the backend's upload directory to an <input type=file>. Pass the file name (relative to the upload directory) and either a selector or a ref from browser.snapshot. Always needs user approval. Does not submit the form.",
+      parameters: {
+        type: "object",
+        properties: {
+          selector: { type: "string" },
+          ref: { type: "string" },
+          file: { type: "string", description: "File name inside the upload directory." },
+        },
+        required: ["file"],
+      },
+      handler: async (args, invocation) => {
+        const state = session();
+        const target = resolveActionTarget(state, args, "browser_upload");
+        const name = getStringArg(args, "file").trim();
+        if (!name) {
+          throw new Error("Provide the name of a file in the upload directory.");
+        }
+        const verdict = checkPolicy(state, "browser_upload", { actionText: `${target.description} ${target.name} ${name}` });
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
+        }
+
+        const file = await readUploadFile(name);
+        const params = { ...target.params, file };
+        const uiLabel = `uploading ${file.name} to ${target.name ? `"${target.name}" ` : ""}${target.description}`;
+        await requireApproval(state, invocation.toolCallId, "browser_upload", target, verdict, params, uiLabel);
+
+        appendStep(state, `Uploading ${file.name} (${file.size} bytes) to ${target.description}`);
+        const rawResult = await requestToolRoundTrip(state, invocation.toolCallId, "browser_upload", params, uiLabel);
+        return rawResult && typeof rawResult === "object" ? rawResult : { ok: true };
+      },
+    }),
+    defineTool("browser_download", {
+      description:
+        "Download a file and report its filename, size and path on this computer. Pass url to download it directly, or a selector/ref of the link or button that starts it; with neither, reports the downloads earlier browser.download calls of this task started, waiting for running ones. Always needs user approval.",
+      parameters: {
+        type: "object",
+        properties: {
+          url: { type: "string" },
+          selector: { type: "string" },
+          ref: { type: "string" },
+          waitMs: { type: "number", description: "How long to wait for the download to finish (default 30000, max 60000)." },
+        },
+      },
+      handler: async (args, invocation) => {
+        const state = session();
+        const url = getStringArg(args, "url").trim();
+        const hasTarget = Boolean(getStringArg(args, "ref").trim() || getStringArg(args, "selector").trim());
+        if (url && hasTarget) {
+          throw new Error("Pass either url or the selector/ref to click, not both.");
+        }
+        const watchOnly = !url && !hasTarget;
+        if (watchOnly && !state.run?.downloadIds.size) {
+          throw new ToolError("NOT_FOUND", "No download was started with browser.download in this task.");
+        }
+        const target = hasTarget
+          ? resolveActionTarget(state, args, "browser_download")
+          : { params: {}, description: url || "earlier downloads of this task", name: "" };
+        const waitMs = Math.min(Math.max(getNumberArg(args, "waitMs") ?? DOWNLOAD_DEFAULT_WAIT_MS, 1_000), DOWNLOAD_MAX_WAIT_MS);
+        const verdict = checkPolicy(state, "browser_download", {
+          targetUrl: url || undefined,
+          actionText: `${target.description} ${target.name}`,
+        });
+        if (verdict.decision === "deny") {
+          return toPolicyDenial(verdict);
+        }
+
+        const params = {
+          ...target.params,
+          ...(url ? { url } : {}),
+          ...(watchOnly ? { ids: [...(state.run?.downloadIds ?? [])] } : {}),
+          waitMs,
+        };
+        const uiLabel = `downloading ${target.name ? `"${target.name}" ` : ""}${target.description}`;
+        await requireApproval(state, invocation.toolCallId, "browser_download", target, verdict, params, uiLabel);
+
+        appendStep(state, `Downloading ${target.description}`);
+        const rawResult = await requestToolRoundTrip(
+          state,
+          invocation.toolCallId,
+          "browser_download",
+          params,
+          uiLabel,
+          TOOL_TIMEOUT_ACTION_MS + waitMs,
+        );
+        const result = parseDownloadResult(rawResult);
+        for (const download of result.downloads) {
+          state.run?.downloadIds.add(download.id);
+        }
+        appendStep(
+          state,
+          result.downloads.length
+            ? `Downloads: ${result.downloads.map((d) => `${d.filename} (${d.size} bytes, ${d.state})`).join(", ")}`
+            : "No download started",
+        );
+        return result;
+      },
+    }),
+  ];
+  return tools.map((tool) => recordMacroSteps(session, tool));
+}
+
+// Reads leave nothing to replay, and tab ids do not survive into a later run.
+const MACRO_SKIPPED_TOOLS: ToolName[] = [
+  "browser_plan",
+  "browser_plan_update",
+  "browser_read_page",
+  "browser_extract",
+  "browser_screenshot",
+  "browser_tabs_list",
+  "browser_tab_switch",
+  "browser_tab_close",
+];
+// The recorded target no longer resolves, so nothing was dispatched and the agent can do the step instead. After any
+// other failure a click, keystroke or submit may already have reached the page, and doing it again could repeat it.
+const MACRO_UNRESOLVED_ERRORS = new Set<ToolResultError>(["NOT_FOUND", "STALE_ELEMENT", "AMBIGUOUS_TARGET"]);
+
+function macroStepFor(state: SessionState, tool: ToolName, args: unknown, result: unknown): MacroStep {
+  const recorded: Record<string, unknown> = args && typeof args === "object" ? { ...(args as Record<string, unknown>) } : {};
+  const ref = getStringArg(args, "ref").trim();
+  const selector = getStringArg(args, "selector").trim();
+  const node = ref ? state.snapshotRefs.get(ref) : undefined;
+  const candidate = state.lastFindCandidates.find((c) => c.selector === selector);
+  let target = node?.name ?? candidate?.label;
+
+  const sensitiveFields: string[] = [];
+  // The content script reports the field it actually typed into, which after a re-location may not be the candidate.
+  const typedSensitive = result && typeof result === "object" && (result as { sensitive?: unknown }).sensitive === true;
+  if (
+    tool === "browser_type" &&
+    (typedSensitive || node?.states?.includes("sensitive") || (!node && (!candidate || candidate.sensitive)))
+  ) {
+    sensitiveFields.push("text");
+  }
+  if (tool === "browser_fill_form") {
+    const fields = result && typeof result === "object" ? (result as { fields?: FormFillFieldResult[] }).fields : undefined;
+    sensitiveFields.push(...(fields ?? []).filter((f) => f.sensitive).map((f) => f.field));
+  }
+
+  if (tool === "browser_select_candidate") {
+    // Candidate ids are renumbered by every find, so the chosen element is remembered by selector.
+    const [selected] = state.lastFindCandidates;
+    recorded.selector = selected?.selector ?? "";
+    target = selected?.label;
+  }
+
+  const detail =
+    target ||
+    ref ||
+    selector ||
+    ["url", "query", "key", "kind"].map((key) => getStringArg(args, key)).find(Boolean) ||
+    "";
+  return {
+    tool,
+    args: recorded,
+    label: `${tool.replace(/^browser_/, "")}${detail ? ` ${detail}` : ""}`,
+    ...(target ? { target } : {}),
+    ...(node ? { role: node.role } : {}),
+    ...(sensitiveFields.length ? { sensitiveFields } : {}),
+  };
+}
+
+function recordMacroSteps(session: () => SessionState, tool: Tool): Tool {
+  const name = tool.name as ToolName;
+  if (MACRO_SKIPPED_TOOLS.includes(name)) {
+    return tool;
+  }
+  return {
+    ...tool,
+    handler: async (args, invocation) => {
+      const state = session();
+      const result = await tool.handler(args, invocation);
+      const failed = Boolean(result && typeof result === "object" && (result as { ok?: unknown }).ok === false);
+      if (state.run && !failed) {
+        state.run.toolCalls.push(macroStepFor(state, name, args, result));
+      }
+      return result;
+    },
+  };
+}
+
+// Maps recorded refs and candidate ids onto the current page; NOT_FOUND hands the step to the agent.
+function resolveMacroStepArgs(state: SessionState, step: MacroStep, values: Record<string, string>) {
+  const args = substituteParams(step, values);
+
+  if (typeof args.ref === "string" && args.ref) {
+    const matches = [...state.snapshotRefs.values()].filter((n) => n.name === step.target && n.role === step.role);
+    if (matches.length !== 1) {
+      throw new Error("NOT_FOUND");
+    }
+    args.ref = matches[0].ref;
+  }
+
+  if (step.tool === "browser_select_candidate") {
+    const candidate =
+      state.lastFindCandidates.find((c) => c.selector === args.selector) ??
+      state.lastFindCandidates.find((c) => c.label === step.target);
+    if (!candidate) {
+      throw new Error("NOT_FOUND");
+    }
+    return { id: candidate.id };
+  }
+
+  // Generated selectors can change between page loads; the replayed find step picked the same element by its label.
+  const [candidate] = state.lastFindCandidates;
+  if (
+    typeof args.selector === "string" &&
+    args.selector &&
+    state.lastFindCandidates.length === 1 &&
+    candidate.selector !== args.selector &&
+    candidate.label === step.target
+  ) {
+    args.selector = candidate.selector;
+  }
+  return args;
+}
+
+async function askAgentForStep(state: SessionState, macro: Macro, index: number, args: unknown, error: string) {
+  if (!state.copilotSession) {
+    throw new Error("Session not ready");
+  }
+  const step = macro.steps[index];
+  const prompt = [
+    `Macro "${macro.name}" is being replayed step by step.`,
+    `Step ${index + 1} of ${macro.steps.length} could not be replayed (${error}).`,
+    `Recorded step: ${step.tool} ${JSON.stringify(args)}${step.target ? ` targeting "${step.target}"` : ""}.`,
+    "Perform only this step on the current page with the browser tools, then reply with one sentence.",
+    "Do not continue with later steps.",
+  ].join("\n");
+  await state.copilotSession.sendAndWait({ prompt }, MESSAGE_TIMEOUT_MS);
+}
+
+// Runs the recorded tool calls through the same handlers the model uses, so policy and approval still apply.
+async function runMacro(state: SessionState, macro: Macro, values: Record<string, string>, tabId?: number) {
+  // Scheduled jobs run with the defaults only, so a macro that types a sensitive value cannot run unattended.
+  const missing = macro.params.filter((param) => param.required && !values[param.name]).map((param) => param.name);
+  if (missing.length) {
+    sendFinal(state, `Failed: INVALID_ARGUMENT (macro "${macro.name}" needs a value for ${missing.join(", ")})`, "failed");
+    return;
+  }
+  beginRun(state, tabId);
+  recordHistory(state, { kind: "user", text: `Run macro ${macro.name}` });
+  recordAudit(state, {
+    kind: "run_start",
+    source: "macro",
+    prompt: `Run macro ${macro.name} ${JSON.stringify(values)}`,
+    model: "none (replay)",
+    tabId: tabId ?? null,
+    pageUrl: state.pageUrl,
+    autoRun: state.autoRun,
+  });
+  appendStep(state, `Replaying macro "${macro.name}" (${macro.steps.length} steps)`);
+
+  const tools = new Map(createTools(() => state).map((tool) => [tool.name, tool]));
+  let agentSteps = 0;
+
+  try {
+    for (const [index, step] of macro.steps.entries()) {
+      if (!state.run || state.run.cancelled) {
+        return;
+      }
+      const tool = tools.get(step.tool);
+      if (!tool) {
+        throw new Error(`Unknown tool ${step.tool} in macro`);
+      }
+
+      const recordedArgs = substituteParams(step, values);
+      let result: unknown;
+      try {
+        const args = resolveMacroStepArgs(state, step, values);
+        result = await tool.handler(args, {
+          sessionId: state.sessionId,
+          toolCallId: `macro-${randomUUID()}`,
+          toolName: step.tool,
+          arguments: args,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const code = toErrorCode(message);
+        if (code === "CANCELLED") {
+          throw error;
+        }
+        if (!MACRO_UNRESOLVED_ERRORS.has(code)) {
+          const detail = error instanceof ToolError && error.detail ? `: ${error.detail}` : "";
+          sendFinal(state, `Macro "${macro.name}" stopped at step ${index + 1} (${step.label}): ${message}${detail}`, "failed");
+          state.run.finalSent = true;
+          return;
+        }
+        appendStep(state, `Step ${index + 1} (${step.label}) failed: ${code}; asking the agent`);
+        await askAgentForStep(state, macro, index, recordedArgs, code);
+        agentSteps += 1;
+        continue;
+      }
 
-        appendStep(state, `Typing into ${selector}`);
-        await requestToolRoundTrip(
-          state,
-          invocation.toolCallId,
-          "browser_type",
-          { selector, text },
-          `typing into ${selector}`,
-        );
-        return { ok: true };
-      },
-    }),
-  ];
+      const denial = result && typeof result === "object" ? (result as Partial<PolicyDenial>) : {};
+      if (denial.error === "BLOCKED_BY_POLICY") {
+        sendFinal(state, `Macro "${macro.name}" stopped at step ${index + 1} (${step.label}): ${denial.reason}`, "failed");
+        state.run.finalSent = true;
+        return;
+      }
+    }
+
+    if (!state.run || state.run.cancelled) {
+      return;
+    }
+    state.lastRunSteps = state.run.toolCalls;
+    const healed = agentSteps ? `, ${agentSteps} completed by the agent` : "";
+    sendFinal(state, `Macro "${macro.name}" finished: ${macro.steps.length} steps${healed}.`);
+    state.run.finalSent = true;
+  } catch (error) {
+    if (state.run?.cancelled) {
+      return;
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    sendFinal(state, `Macro "${macro.name}" failed: ${message}`, "failed");
+    if (state.run) {
+      state.run.finalSent = true;
+    }
+  } finally {
+    state.run = null;
+  }
+}
+
+async function saveLastRunAsMacro(state: SessionState, name: string) {
+  const trimmed = name.trim();
+  const reply = (ok: boolean, error?: string) =>
+    send(state, {
+      type: "macro_saved",
+      sessionId: state.sessionId,
+      token: state.token,
+      ok,
+      name: trimmed,
+      ...(error ? { error } : {}),
+    });
+
+  if (!trimmed) {
+    reply(false, "Macro name is required");
+    return;
+  }
+  if (!state.lastRunSteps.length) {
+    reply(false, "The last run has no browser actions to record");
+    return;
+  }
+  await saveMacro(buildMacro(trimmed, state.sessionId, state.lastRunSteps));
+  log(`Saved macro ${trimmed} (${state.lastRunSteps.length} steps)`);
+  reply(true);
 }
 
 function wireSessionEvents(state: SessionState) {
@@ -530,8 +2929,8 @@ function wireSessionEvents(state: SessionState) {
   );
 }
 
-async function createSessionState(sessionId: string, token: string, ws: WebSocket): Promise<SessionState> {
-  const state: SessionState = {
+function newSessionState(sessionId: string, token: string, ws: WebSocket): SessionState {
+  return {
     sessionId,
     token,
     ws,
@@ -539,55 +2938,97 @@ async function createSessionState(sessionId: string, token: string, ws: WebSocke
     queue: Promise.resolve(),
     run: null,
     pendingTools: new Map(),
+    pendingApprovals: new Map(),
+    planGate: null,
+    model: defaultModelName,
+    autoRun: false,
+    rejectApprovals: false,
+    pageUrl: "",
     lastFindCandidates: [],
+    snapshotRefs: new Map(),
+    lastRunSteps: [],
+    lastRunStatus: "completed",
+    replayContext: null,
+    outSeq: 0,
+    outbox: [],
+    graceTimer: null,
+    disconnectedSeq: 0,
+    borrowed: false,
+    listeners: new Set(),
     unsubs: [],
   };
+}
 
-  const baseConfig = buildSessionConfig(state, false);
-
-  try {
-    state.copilotSession = await client.createSession(buildSessionConfig(state, true));
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    const shouldFallbackToDefaultModel =
-      Boolean(selectedModelName) &&
-      isBadRequestError(message) &&
-      !message.includes("401");
+async function createSessionState(sessionId: string, token: string, ws: WebSocket): Promise<SessionState> {
+  const state = newSessionState(sessionId, token, ws);
 
-    if (!shouldFallbackToDefaultModel) {
-      throw error;
+  const stored = await loadConversation(sessionId);
+  if (stored) {
+    try {
+      state.copilotSession = await client.resumeSession(sessionId, buildSessionConfig(state));
+      log(`Resumed Copilot session ${sessionId}`);
+    } catch (error) {
+      log(`Could not resume Copilot session ${sessionId}; replaying stored history instead`, error);
+      state.replayContext = buildReplayContext(stored);
     }
+  }
 
-    log(
-      `Model ${selectedModelName} failed with 400. Falling back to Copilot CLI default model for session ${sessionId}.`,
-    );
-    selectedModelName = undefined;
-    state.copilotSession = await client.createSession(baseConfig);
+  if (!state.copilotSession) {
+    try {
+      state.copilotSession = await client.createSession(buildSessionConfig(state));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!isModelRejected(state, message)) {
+        throw error;
+      }
+      fallBackToDefaultModel(state);
+      state.copilotSession = await client.createSession(buildSessionConfig(state));
+    }
+    log(`Created Copilot session ${sessionId}`);
   }
 
   wireSessionEvents(state);
   sessions.set(sessionId, state);
-  log(`Created Copilot session ${sessionId}`);
   return state;
 }
 
 async function getSessionState(sessionId: string, token: string, ws: WebSocket) {
   const existing = sessions.get(sessionId);
   if (existing) {
-    existing.ws = ws;
+    relinkSession(existing, ws);
     existing.token = token;
     return existing;
   }
   return createSessionState(sessionId, token, ws);
 }
 
-async function teardownSession(state: SessionState, reason: string) {
+function rejectPending(state: SessionState, code: ToolResultError) {
   for (const [, pending] of state.pendingTools) {
     clearTimeout(pending.timer);
-    pending.reject(new Error("CANCELLED"));
+    pending.reject(new Error(code));
   }
   state.pendingTools.clear();
 
+  for (const [, pending] of state.pendingApprovals) {
+    clearTimeout(pending.timer);
+    pending.reject(new Error(code));
+  }
+  state.pendingApprovals.clear();
+
+  if (state.planGate) {
+    clearTimeout(state.planGate.timer);
+    state.planGate.reject(new Error(code));
+    state.planGate = null;
+  }
+}
+
+async function teardownSession(state: SessionState, reason: string) {
+  if (state.graceTimer) {
+    clearTimeout(state.graceTimer);
+    state.graceTimer = null;
+  }
+  rejectPending(state, "CANCELLED");
+
   for (const unsub of state.unsubs) {
     unsub();
   }
@@ -609,18 +3050,54 @@ function formatFinalWithSteps(text: string, _steps: string[]) {
   return text;
 }
 
-async function handleUserMessage(state: SessionState, text: string) {
-  if (!state.copilotSession) {
-    throw new Error("Session not ready");
-  }
-
-  state.run = {
+function newRunContext(tabId?: number, stepMode = false): RunContext {
+  return {
+    id: randomUUID(),
+    startedAt: Date.now(),
     cancelled: false,
     finalSent: false,
     steps: [],
+    approvals: [],
+    actionCount: 0,
+    tabId: typeof tabId === "number" ? tabId : null,
+    tabClosed: false,
+    openedTabIds: new Set(),
+    downloadIds: new Set(),
+    toolCalls: [],
+    plan: [],
+    planEdited: false,
+    stepMode,
   };
+}
+
+function beginRun(state: SessionState, tabId?: number, stepMode = false) {
+  if (!state.copilotSession) {
+    throw new Error("Session not ready");
+  }
 
+  state.run = newRunContext(tabId, stepMode);
   state.lastFindCandidates = [];
+  state.snapshotRefs.clear();
+}
+
+async function handleUserMessage(
+  state: SessionState,
+  text: string,
+  tabId?: number,
+  stepMode = false,
+  source: "chat" | "schedule" = "chat",
+) {
+  beginRun(state, tabId, stepMode);
+  recordAudit(state, {
+    kind: "run_start",
+    source,
+    prompt: text,
+    model: state.model ?? "default",
+    tabId: tabId ?? null,
+    pageUrl: state.pageUrl,
+    autoRun: state.autoRun,
+  });
+  recordHistory(state, { kind: "user", text });
   appendStep(state, "Started run");
 
   const keepAlive = setInterval(() => {
@@ -635,13 +3112,23 @@ async function handleUserMessage(state: SessionState, text: string) {
     ? `The user referenced site ${domainHint}. Call browser.navigate with ${domainHint} before searching unless already on that site.`
     : "";
 
+  const replayContext = state.replayContext;
+  state.replayContext = null;
+
   const prompt = [
+    ...(replayContext ? [replayContext, ""] : []),
     "User request:",
     text,
     "",
     "Follow the mandatory browser workflow in system instructions.",
     "When browser.find has multiple candidates and a click/type action is needed, ask the user to pick an id and stop.",
-    "If the request is information-only, summarize relevant candidates instead of clicking.",
+    "If the request is information-only, read the page with browser.read_page and summarize it instead of clicking.",
+    stepMode
+      ? "Step mode is on: start with browser.plan, and call browser.plan_update as each item finishes; it returns once the user continues."
+      : "",
+    source === "schedule"
+      ? "This is a scheduled run and nobody is watching: do the work in a new tab (browser.tab_open) and close it when done, do not ask questions, and report the result in the same short format every run so it can be compared with the previous one. Leave out the current date and time."
+      : "",
     domainInstruction,
   ].join("\n");
 
@@ -650,7 +3137,7 @@ async function handleUserMessage(state: SessionState, text: string) {
       if (!state.copilotSession) {
         throw new Error("Session not ready");
       }
-      return state.copilotSession.sendAndWait({ prompt }, MESSAGE_TIMEOUT_MS);
+      return state.copilotSession.sendAndWait({ prompt }, stepMode ? STEP_MODE_MESSAGE_TIMEOUT_MS : MESSAGE_TIMEOUT_MS);
     };
 
     let finalEvent;
@@ -658,16 +3145,13 @@ async function handleUserMessage(state: SessionState, text: string) {
       finalEvent = await sendPrompt();
     } catch (error) {
       const rawMessage = error instanceof Error ? error.message : String(error);
-      const shouldRetryOnDefaultModel =
-        Boolean(selectedModelName) && isBadRequestError(rawMessage) && !rawMessage.includes("401");
-
-      if (!shouldRetryOnDefaultModel) {
+      if (!isModelRejected(state, rawMessage)) {
         throw error;
       }
 
-      appendStep(state, `Model ${selectedModelName} failed with 400; retrying with Copilot default model`);
-      selectedModelName = undefined;
-      await rebuildSessionWithDefaultModel(state);
+      appendStep(state, `Model ${state.model} failed with 400; retrying with Copilot default model`);
+      fallBackToDefaultModel(state);
+      await rebuildSession(state);
       finalEvent = await sendPrompt();
     }
 
@@ -676,6 +3160,8 @@ async function handleUserMessage(state: SessionState, text: string) {
     }
 
     const finalText = finalEvent?.data?.content?.trim() || "Done.";
+    state.lastRunSteps = state.run.toolCalls;
+    settlePlan(state, false);
     sendFinal(state, formatFinalWithSteps(finalText, state.run.steps));
     state.run.finalSent = true;
   } catch (error) {
@@ -686,9 +3172,10 @@ async function handleUserMessage(state: SessionState, text: string) {
     const rawMessage = error instanceof Error ? error.message : "Unknown error";
     const message =
       isBadRequestError(rawMessage) && configuredModelName
-        ? `${rawMessage}\nHint: configured model '${configuredModelName}' may be invalid for your account/policy. Set COPILOT_MODEL to a model from listModels() output or unset it to use default.`
+        ? `${rawMessage}\nHint: configured model '${configuredModelName}' may be invalid for your account/policy. Pick another model in the side panel, set COPILOT_MODEL to a model from listModels() output, or unset it to use default.`
         : rawMessage;
-    sendFinal(state, `Failed: ${message}`);
+    settlePlan(state, true);
+    sendFinal(state, `Failed: ${message}`, "failed");
     if (state.run) {
       state.run.finalSent = true;
     }
@@ -698,18 +3185,13 @@ async function handleUserMessage(state: SessionState, text: string) {
   }
 }
 
-async function cancelRun(state: SessionState) {
+async function cancelRun(state: SessionState, finalText = "Cancelled by user.") {
   if (!state.run) {
     return;
   }
 
   state.run.cancelled = true;
-
-  for (const [, pending] of state.pendingTools) {
-    clearTimeout(pending.timer);
-    pending.reject(new Error("CANCELLED"));
-  }
-  state.pendingTools.clear();
+  rejectPending(state, "CANCELLED");
 
   if (state.copilotSession) {
     try {
@@ -720,11 +3202,48 @@ async function cancelRun(state: SessionState) {
   }
 
   if (!state.run.finalSent) {
-    sendFinal(state, "Cancelled by user.");
+    settlePlan(state, true);
+    sendFinal(state, finalText, "cancelled");
     state.run.finalSent = true;
   }
 }
 
+function onUserApproval(message: Extract<ExtensionToBackend, { type: "user_approval" }>) {
+  const state = sessions.get(message.sessionId);
+  if (!state) {
+    return;
+  }
+
+  const pending = state.pendingApprovals.get(message.actionId);
+  if (!pending) {
+    log(`Ignoring approval for unknown action ${message.sessionId}:${message.actionId}`);
+    return;
+  }
+
+  clearTimeout(pending.timer);
+  state.pendingApprovals.delete(message.actionId);
+
+  const decision: ApprovalDecision = {
+    actionId: message.actionId,
+    tool: pending.tool,
+    label: pending.label,
+    reason: pending.reason,
+    approved: message.approved === true,
+    requestedAt: pending.requestedAt,
+    decidedAt: now(),
+  };
+  state.run?.approvals.push(decision);
+  recordAudit(state, { kind: "approval", ...decision });
+  log(`user_approval ${message.sessionId}:${message.actionId} approved=${decision.approved}`);
+  appendStep(state, `User ${decision.approved ? "approved" : "rejected"} action ${message.actionId}`);
+
+  if (decision.approved) {
+    pending.resolve();
+    return;
+  }
+  pending.reject(new Error("APPROVAL_REJECTED"));
+}
+
 function onToolResult(message: Extract<ExtensionToBackend, { type: "tool_result" }>) {
   const state = sessions.get(message.sessionId);
   if (!state) {
@@ -738,13 +3257,252 @@ function onToolResult(message: Extract<ExtensionToBackend, { type: "tool_result"
 
   clearTimeout(pending.timer);
   state.pendingTools.delete(message.actionId);
+  if (typeof message.pageUrl === "string" && message.pageUrl) {
+    state.pageUrl = message.pageUrl;
+  }
 
   if (message.ok) {
     pending.resolve(message.data);
     return;
   }
 
-  pending.reject(new Error(toErrorCode(message.error)));
+  pending.reject(new ToolError(toErrorCode(message.error), typeof message.message === "string" ? message.message : ""));
+}
+
+// Sessions started over HTTP borrow the most recently paired extension connection to run their tools.
+function extensionSocket(): WebSocket | null {
+  const open = [...pairedSockets].filter((ws) => ws.readyState === WebSocket.OPEN);
+  return open[open.length - 1] ?? null;
+}
+
+function createApiHooks(): ApiHooks {
+  return {
+    token: pairingToken,
+    isValidSessionId,
+    listSessions: (): ApiSessionSummary[] =>
+      [...sessions.values()].map((state) => ({
+        sessionId: state.sessionId,
+        running: state.run !== null,
+        pendingApprovals: state.pendingApprovals.size,
+        model: state.copilotSession ? (state.model ?? null) : null,
+      })),
+    openSession: async (sessionId) => {
+      const existing = sessions.get(sessionId);
+      if (existing && isReachable(existing)) {
+        return;
+      }
+      const ws = extensionSocket();
+      if (!ws) {
+        throw new Error("EXTENSION_NOT_READY");
+      }
+      const state = await getSessionState(sessionId, pairingToken, ws);
+      state.borrowed = true;
+    },
+    runMessage: (sessionId, request: ApiMessageRequest, listener) => {
+      const state = sessions.get(sessionId);
+      if (!state) {
+        return Promise.reject(new Error("NOT_FOUND"));
+      }
+      log(`api message ${sessionId}`, request.text);
+      // Queued like a side panel message; the listener only sees this run's messages.
+      const run = state.queue.then(async () => {
+        state.autoRun = request.autoRun === true;
+        if (request.pageUrl) {
+          state.pageUrl = request.pageUrl;
+        }
+        state.listeners.add(listener);
+        try {
+          await handleUserMessage(state, request.text, request.tabId, request.stepMode === true);
+        } finally {
+          state.listeners.delete(listener);
+        }
+      });
+      state.queue = run.catch((error) => {
+        const errMessage = error instanceof Error ? error.message : String(error);
+        sendFinal(state, `Failed: ${errMessage}`, "failed");
+      });
+      return run;
+    },
+    subscribe: (sessionId, listener) => {
+      const state = sessions.get(sessionId);
+      if (!state) {
+        return null;
+      }
+      state.listeners.add(listener);
+      return () => state.listeners.delete(listener);
+    },
+    listApprovals: (sessionId): ApiPendingApproval[] | null => {
+      const state = sessions.get(sessionId);
+      if (!state) {
+        return null;
+      }
+      return [...state.pendingApprovals].map(([actionId, pending]) => ({
+        actionId,
+        tool: pending.tool,
+        label: pending.label,
+        reason: pending.reason,
+        requestedAt: pending.requestedAt,
+      }));
+    },
+    decideApproval: (sessionId, actionId, approved) => {
+      const state = sessions.get(sessionId);
+      if (!state?.pendingApprovals.has(actionId)) {
+        return false;
+      }
+      onUserApproval({ type: "user_approval", sessionId, token: state.token, actionId, approved });
+      return true;
+    },
+    cancel: async (sessionId) => {
+      const state = sessions.get(sessionId);
+      if (!state) {
+        return false;
+      }
+      await cancelRun(state);
+      return true;
+    },
+  };
+}
+
+// A scheduled job runs like an API message on its own session, borrowing the most recently paired extension connection.
+async function runScheduledJob(job: ScheduledJob): Promise<Omit<JobRun, "changed"> | null> {
+  const ws = extensionSocket();
+  if (!ws) {
+    return null;
+  }
+  const macro = job.task.kind === "macro" ? await getMacro(job.task.name) : null;
+  if (job.task.kind === "macro" && !macro) {
+    throw new Error(`Macro "${job.task.name}" not found`);
+  }
+  const existing = sessions.get(job.sessionId);
+  let state = existing;
+  if (!state || !isReachable(state)) {
+    state = await getSessionState(job.sessionId, pairingToken, ws);
+    state.borrowed = true;
+  }
+  log(`job ${job.name} on session ${job.sessionId}`);
+
+  const startedAt = now();
+  let output = "";
+  const listener: SessionListener = (message) => {
+    if (message.type === "assistant_final") {
+      output = message.text;
+    }
+  };
+  const run = state.queue.then(async () => {
+    state.autoRun = job.approvalMode === "auto_run";
+    state.rejectApprovals = job.approvalMode === "deny";
+    state.listeners.add(listener);
+    try {
+      if (macro) {
+        const values: Record<string, string> = Object.fromEntries(macro.params.map((p) => [p.name, p.defaultValue]));
+        await runMacro(state, macro, values);
+      } else if (job.task.kind === "prompt") {
+        await handleUserMessage(state, job.task.text, undefined, false, "schedule");
+      }
+    } finally {
+      state.rejectApprovals = false;
+      state.listeners.delete(listener);
+    }
+  });
+  state.queue = run.catch((error) => {
+    const errMessage = error instanceof Error ? error.message : String(error);
+    sendFinal(state, `Failed: ${errMessage}`, "failed");
+  });
+  await run;
+  return { startedAt, finishedAt: now(), status: state.lastRunStatus, output };
+}
+
+// Every paired extension hears about finished jobs, whichever conversation it shows.
+function broadcastJobFinished(job: ScheduledJob) {
+  for (const ws of pairedSockets) {
+    sendTo(ws, { type: "job_finished", sessionId: job.sessionId, token: pairingToken, job });
+  }
+}
+
+// Plan tools drive the side panel checklist of a Copilot run; MCP clients keep their own plans.
+const MCP_EXCLUDED_TOOLS = ["browser_plan", "browser_plan_update"];
+
+function describeMcpTools(): McpTool[] {
+  // Only names and schemas are read here; listing tools needs no session or connected extension.
+  const noSession = (): SessionState => {
+    throw new Error("Tool definitions listed for MCP are not callable");
+  };
+  return createTools(noSession)
+    .filter((tool) => !MCP_EXCLUDED_TOOLS.includes(tool.name))
+    .map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: (tool.parameters ?? { type: "object" }) as McpTool["inputSchema"],
+    }));
+}
+
+// An MCP session is a browser session without a Copilot session; its run lasts as long as the MCP session.
+function mcpSessionState(mcpSessionId: string): SessionState {
+  const existing = sessions.get(mcpSessionId);
+  if (existing && isReachable(existing)) {
+    return existing;
+  }
+  const ws = extensionSocket();
+  if (!ws) {
+    throw new Error("EXTENSION_NOT_READY");
+  }
+  if (existing) {
+    relinkSession(existing, ws);
+    return existing;
+  }
+  const state = newSessionState(mcpSessionId, pairingToken, ws);
+  state.borrowed = true;
+  state.run = newRunContext();
+  sessions.set(mcpSessionId, state);
+  recordAudit(state, {
+    kind: "run_start",
+    source: "mcp",
+    prompt: "MCP session",
+    model: "external MCP client",
+    tabId: null,
+    pageUrl: state.pageUrl,
+    autoRun: state.autoRun,
+  });
+  log(`MCP session ${mcpSessionId} opened`);
+  return state;
+}
+
+function createMcpHooks(): McpHooks {
+  return {
+    token: pairingToken,
+    listTools: describeMcpTools,
+    callTool: async (mcpSessionId, name, args) => {
+      if (MCP_EXCLUDED_TOOLS.includes(name)) {
+        throw new Error(`Unknown tool ${name}`);
+      }
+      const state = mcpSessionState(mcpSessionId);
+      const tool = createTools(() => state).find((t) => t.name === name);
+      if (!tool) {
+        throw new Error(`Unknown tool ${name}`);
+      }
+      log(`mcp tool ${mcpSessionId} ${name}`);
+      // One call at a time per session, as within a Copilot turn.
+      const result = state.queue.then(() =>
+        reportToolErrors(tool).handler(args, {
+          sessionId: mcpSessionId,
+          toolCallId: `mcp-${randomUUID()}`,
+          toolName: name,
+          arguments: args,
+        }),
+      );
+      state.queue = result.then(
+        () => undefined,
+        () => undefined,
+      );
+      return result;
+    },
+    closeSession: (mcpSessionId) => {
+      const state = sessions.get(mcpSessionId);
+      if (state) {
+        void teardownSession(state, "MCP session closed");
+      }
+    },
+  };
 }
 
 async function routeMessage(ws: WebSocket, message: ExtensionToBackend) {
@@ -753,24 +3511,50 @@ async function routeMessage(ws: WebSocket, message: ExtensionToBackend) {
     ws.close(4001, "invalid token");
     return;
   }
+  const newlyPaired = !pairedSockets.has(ws);
+  pairedSockets.delete(ws);
+  pairedSockets.add(ws);
+  if (newlyPaired) {
+    relinkBorrowedSessions(ws);
+  }
 
   switch (message.type) {
     case "user_message": {
       log(`user_message ${message.sessionId}`, message.text);
       const state = await getSessionState(message.sessionId, message.token, ws);
-      state.queue = state.queue.then(() => handleUserMessage(state, message.text)).catch((error) => {
+      state.autoRun = message.autoRun === true;
+      if (typeof message.pageUrl === "string" && message.pageUrl) {
+        state.pageUrl = message.pageUrl;
+      }
+      const tabId = typeof message.tabId === "number" ? message.tabId : undefined;
+      const stepMode = message.stepMode === true;
+      state.queue = state.queue.then(() => handleUserMessage(state, message.text, tabId, stepMode)).catch((error) => {
         const errMessage = error instanceof Error ? error.message : String(error);
-        sendFinal(state, `Failed: ${errMessage}`);
+        sendFinal(state, `Failed: ${errMessage}`, "failed");
       });
       break;
     }
     case "user_approval": {
+      onUserApproval(message);
+      break;
+    }
+    case "plan_continue": {
+      const state = sessions.get(message.sessionId);
+      if (!state?.planGate) {
+        return;
+      }
+      clearTimeout(state.planGate.timer);
+      state.planGate.resolve();
+      state.planGate = null;
+      appendStep(state, "User continued");
+      break;
+    }
+    case "plan_edit": {
       const state = sessions.get(message.sessionId);
-      if (!state || !state.run || state.run.cancelled) {
+      if (!state || !Array.isArray(message.items)) {
         return;
       }
-      const decision = message.approved ? "approved" : "rejected";
-      appendStep(state, `User ${decision} action ${message.actionId}`);
+      applyPlanEdit(state, message.items);
       break;
     }
     case "cancel": {
@@ -787,6 +3571,164 @@ async function routeMessage(ws: WebSocket, message: ExtensionToBackend) {
       onToolResult(message);
       break;
     }
+    case "resume": {
+      const state = sessions.get(message.sessionId);
+      if (!state) {
+        sendTo(ws, { type: "resume_ack", sessionId: message.sessionId, token: message.token, known: false, replayed: 0 });
+        break;
+      }
+      relinkSession(state, ws);
+      state.token = message.token;
+      state.borrowed = false;
+      const lastSeq = typeof message.lastSeq === "number" ? message.lastSeq : 0;
+      // A lastSeq ahead of ours means the extension saw an earlier incarnation of this session.
+      const known = lastSeq <= state.outSeq;
+      const missed = missedMessages(state, known ? lastSeq : 0);
+      sendTo(ws, { type: "resume_ack", sessionId: state.sessionId, token: state.token, known, replayed: missed.length });
+      for (const replay of missed) {
+        sendTo(ws, replay);
+      }
+      log(`resume ${message.sessionId} from seq ${lastSeq}; replayed ${missed.length}`);
+      break;
+    }
+    case "ping": {
+      sendTo(ws, { type: "pong", sessionId: message.sessionId, token: message.token });
+      break;
+    }
+    case "get_policy": {
+      sendPolicy(ws, message.sessionId, message.token);
+      break;
+    }
+    case "list_history": {
+      sendHistoryList(ws, message.sessionId, message.token, await listConversations());
+      break;
+    }
+    case "get_history": {
+      sendHistory(ws, message.sessionId, message.token, await loadConversation(message.sessionId));
+      break;
+    }
+    case "get_audit": {
+      const records = await loadAuditRun(message.sessionId, message.runId);
+      sendTo(ws, {
+        type: "audit_export",
+        sessionId: message.sessionId,
+        token: message.token,
+        runId: records[0]?.runId ?? null,
+        records,
+        markdown: formatAuditReport(message.sessionId, records),
+      });
+      break;
+    }
+    case "list_models": {
+      // A conversation without a session yet would start on the default model.
+      const state = sessions.get(message.sessionId);
+      if (state) {
+        sendModelState(state);
+      } else {
+        sendTo(ws, modelState(message.sessionId, message.token, defaultModelName));
+      }
+      break;
+    }
+    case "set_model": {
+      const state = await getSessionState(message.sessionId, message.token, ws);
+      const model = typeof message.model === "string" && message.model ? message.model : undefined;
+      if (model && availableModels.length && !availableModels.some((option) => option.id === model)) {
+        sendModelState(state, `Model ${model} is not available for this account.`);
+        break;
+      }
+      // Queued so a running task finishes on the model it started with.
+      state.queue = state.queue.then(() => setSessionModel(state, model)).catch((error) => {
+        const errMessage = error instanceof Error ? error.message : String(error);
+        sendModelState(state, `Could not switch to ${model ?? "the default model"}: ${errMessage}`);
+      });
+      break;
+    }
+    case "list_macros": {
+      sendMacroList(ws, message.sessionId, message.token, await listMacros());
+      break;
+    }
+    case "save_macro": {
+      const state = sessions.get(message.sessionId);
+      if (!state) {
+        sendTo(ws, {
+          type: "macro_saved",
+          sessionId: message.sessionId,
+          token: message.token,
+          ok: false,
+          name: message.name,
+          error: "Run something in this conversation first",
+        });
+        break;
+      }
+      await saveLastRunAsMacro(state, String(message.name ?? ""));
+      sendMacroList(ws, message.sessionId, message.token, await listMacros());
+      break;
+    }
+    case "delete_macro": {
+      await deleteMacro(String(message.name ?? ""));
+      sendMacroList(ws, message.sessionId, message.token, await listMacros());
+      break;
+    }
+    case "run_macro": {
+      log(`run_macro ${message.sessionId}`, message.name);
+      const state = await getSessionState(message.sessionId, message.token, ws);
+      const macro = await getMacro(String(message.name ?? ""));
+      if (!macro) {
+        sendFinal(state, `Failed: macro "${message.name}" not found`, "failed");
+        break;
+      }
+      state.autoRun = message.autoRun === true;
+      if (typeof message.pageUrl === "string" && message.pageUrl) {
+        state.pageUrl = message.pageUrl;
+      }
+      const values: Record<string, string> = Object.fromEntries(macro.params.map((p) => [p.name, p.defaultValue]));
+      for (const [key, value] of Object.entries(message.args ?? {})) {
+        values[key] = String(value);
+      }
+      const tabId = typeof message.tabId === "number" ? message.tabId : undefined;
+      state.queue = state.queue.then(() => runMacro(state, macro, values, tabId)).catch((error) => {
+        const errMessage = error instanceof Error ? error.message : String(error);
+        sendFinal(state, `Failed: ${errMessage}`, "failed");
+      });
+      break;
+    }
+    case "list_jobs": {
+      sendJobList(ws, message.sessionId, message.token);
+      break;
+    }
+    case "save_job": {
+      const input = (message.job ?? {}) as JobInput;
+      try {
+        if (input.task?.kind === "macro" && !(await getMacro(String(input.task.name ?? "")))) {
+          throw new Error(`Macro "${input.task.name}" not found`);
+        }
+        const job = await saveJob(input);
+        log(`Saved job ${job.name} (${job.schedule})`);
+        sendTo(ws, { type: "job_saved", sessionId: message.sessionId, token: message.token, ok: true, name: job.name });
+      } catch (error) {
+        sendTo(ws, {
+          type: "job_saved",
+          sessionId: message.sessionId,
+          token: message.token,
+          ok: false,
+          name: String(input.name ?? ""),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      sendJobList(ws, message.sessionId, message.token);
+      break;
+    }
+    case "delete_job": {
+      await deleteJob(String(message.jobId ?? ""));
+      sendJobList(ws, message.sessionId, message.token);
+      break;
+    }
+    case "run_job": {
+      log(`run_job ${message.jobId}`);
+      runJobNow(String(message.jobId ?? ""));
+      sendJobList(ws, message.sessionId, message.token);
+      break;
+    }
     default: {
       const exhaustive: never = message;
       throw new Error(`Unhandled message: ${JSON.stringify(exhaustive)}`);
@@ -795,6 +3737,12 @@ async function routeMessage(ws: WebSocket, message: ExtensionToBackend) {
 }
 
 async function main() {
+  // A typo must not turn into "keep forever" (or into deleting everything), so only whole days are accepted.
+  if (!Number.isInteger(auditRetentionDays) || auditRetentionDays < 0) {
+    throw new Error(
+      `AUDIT_RETENTION_DAYS must be a whole number of days (0 keeps audit logs forever), got "${process.env.AUDIT_RETENTION_DAYS}"`,
+    );
+  }
   await client.start();
   try {
     const auth = await client.getAuthStatus();
@@ -805,10 +3753,41 @@ async function main() {
     log("Could not read Copilot auth status", error);
   }
   await resolveModelSelection();
+  await initHistoryStore(historyDir);
+  initMacroStore(macrosPath);
+  await initJobStore(jobsPath);
+  await initUploadDir(uploadDir);
+  await initAuditStore(auditDir, auditRetentionDays, (removed) => {
+    log(`Removed ${removed} audit log(s) older than ${auditRetentionDays} days`);
+  });
+
+  const policy = await loadSafetyPolicy(safetyPolicyPath);
+  // There are no previous rules to fall back on yet, so running would mean running without the policy.
+  if (policy.error) {
+    throw new Error(`Safety policy ${safetyPolicyPath} is invalid: ${policy.error}`);
+  }
+  const policyWatcher = watchSafetyPolicy(safetyPolicyPath, (reloaded) => {
+    if (reloaded.error) {
+      log(`Safety policy reload failed; keeping previous rules: ${reloaded.error}`);
+    } else {
+      log(`Safety policy reloaded from ${reloaded.source ?? "defaults"}`);
+    }
+    for (const state of sessions.values()) {
+      sendPolicy(state.ws, state.sessionId, state.token);
+    }
+  });
 
+  const apiHandler = createApiHandler(createApiHooks());
+  const mcpHandler = mcpEnabled ? createMcpHandler(createMcpHooks()) : null;
+  const httpServer = createServer((req, res) => {
+    if (mcpHandler && (req.url ?? "").split("?")[0] === MCP_PATH) {
+      mcpHandler(req, res);
+      return;
+    }
+    apiHandler(req, res);
+  });
   const wss = new WebSocketServer({
-    host: WS_HOST,
-    port: WS_PORT,
+    server: httpServer,
     path: WS_PATH,
     verifyClient: ({ req }: { req: import("http").IncomingMessage }) => {
       const origin = req.headers.origin ?? "";
@@ -835,10 +3814,11 @@ async function main() {
       }
     });
 
-    ws.on("close", async () => {
+    ws.on("close", () => {
+      pairedSockets.delete(ws);
       const linked = [...sessions.values()].filter((s) => s.ws === ws);
       for (const state of linked) {
-        await teardownSession(state, "socket closed");
+        scheduleTeardown(state);
       }
     });
 
@@ -849,19 +3829,41 @@ async function main() {
 
   process.on("SIGINT", async () => {
     log("Shutting down...");
+    policyWatcher?.close();
     for (const state of [...sessions.values()]) {
       await teardownSession(state, "shutdown");
     }
     await client.stop();
-    wss.close(() => process.exit(0));
+    // Open SSE streams would otherwise keep the HTTP server from closing.
+    httpServer.closeAllConnections();
+    wss.close(() => httpServer.close(() => process.exit(0)));
+  });
+
+  await new Promise<void>((resolve) => httpServer.listen(WS_PORT, WS_HOST, resolve));
+  startScheduler(runScheduledJob, (job) => {
+    log(`Job ${job.name} ${job.lastRun?.status ?? "finished"}${job.lastRun?.changed ? " (output changed)" : ""}`);
+    broadcastJobFinished(job);
   });
 
   log(`Backend ready at ws://${WS_HOST}:${WS_PORT}${WS_PATH}`);
+  log(`HTTP API at http://${WS_HOST}:${WS_PORT}/api/sessions`);
+  if (mcpEnabled) {
+    log(`MCP server at http://${WS_HOST}:${WS_PORT}${MCP_PATH}`);
+  }
   log(`Pairing token: ${pairingToken}`);
   if (!process.env.PAIRING_TOKEN) { log("IMPORTANT: Copy the pairing token above into the extension settings."); }
+  log(
+    policy.source
+      ? `Safety policy: ${policy.source}${policyWatcher ? "" : " (not watched; restart to apply edits)"}`
+      : `Safety policy: none found at ${safetyPolicyPath}; using built-in defaults`,
+  );
+  log(`Conversation history: ${historyDir}`);
+  log(`Macros: ${macrosPath}`);
+  log(`Scheduled jobs: ${jobsPath} (${listJobs().length})`);
+  log(`Audit logs: ${auditDir} (${auditRetentionDays > 0 ? `kept ${auditRetentionDays} days` : "kept forever"})`);
   log(`Copilot provider: GitHub Copilot CLI auth`);
   log(`Configured model: ${configuredModelName}`);
-  log(`Effective model: ${selectedModelName ?? "default from Copilot CLI"}`);
+  log(`Default model for new sessions: ${defaultModelName ?? "default from Copilot CLI"}`);
 }
 
 main().catch(async (error) => {
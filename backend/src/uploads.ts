@@ -0,0 +1,64 @@
+import { mkdir, readFile, readdir, realpath, stat } from "node:fs/promises";
+import path from "node:path";
+import { ToolError } from "./errors.js";
+import type { UploadFile } from "./protocol.js";
+
+// Files travel base64-encoded inside one WebSocket message, so they are capped.
+const UPLOAD_MAX_BYTES = 10 * 1024 * 1024;
+const MIME_TYPES: Record<string, string> = {
+  ".csv": "text/csv",
+  ".txt": "text/plain",
+  ".json": "application/json",
+  ".xml": "application/xml",
+  ".html": "text/html",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".zip": "application/zip",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+let uploadDir = "";
+
+export async function initUploadDir(dir: string) {
+  uploadDir = dir;
+  await mkdir(dir, { recursive: true });
+}
+
+export async function listUploadFiles(): Promise<string[]> {
+  const entries = await readdir(uploadDir, { withFileTypes: true }).catch(() => []);
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) => entry.name)
+    .sort();
+}
+
+// Only regular files inside the upload directory, after resolving symlinks, can be sent to a page.
+export async function readUploadFile(name: string): Promise<UploadFile> {
+  const root = await realpath(uploadDir);
+  const resolved = await realpath(path.resolve(root, name)).catch(() => "");
+  const relative = resolved ? path.relative(root, resolved) : "";
+  const info = relative && !relative.startsWith("..") && !path.isAbsolute(relative) ? await stat(resolved) : null;
+  if (!info?.isFile()) {
+    const available = await listUploadFiles();
+    throw new ToolError(
+      "NOT_FOUND",
+      `No file "${name}" in the upload directory. ${available.length ? `Available: ${available.join(", ")}` : "It is empty."}`,
+    );
+  }
+  if (info.size > UPLOAD_MAX_BYTES) {
+    throw new ToolError("INVALID_ARGUMENT", `${name} is ${info.size} bytes; uploads are limited to ${UPLOAD_MAX_BYTES} bytes.`);
+  }
+
+  const data = await readFile(resolved);
+  return {
+    name: path.basename(resolved),
+    mimeType: MIME_TYPES[path.extname(resolved).toLowerCase()] ?? "application/octet-stream",
+    size: info.size,
+    data: data.toString("base64"),
+  };
+}
@@ -1,21 +1,65 @@
 const BACKEND_WS_URL = "ws://127.0.0.1:3210/ws";
 const DEFAULT_TOKEN = "change-me-local-token";
 const TOOL_TIMEOUT_MS = 5000;
-const DANGEROUS_CLICK_RE =
-  /(delete|remove|purchase|buy|checkout|send|payment|pay|place order|confirm order|submit payment|transfer|confirm|submit|withdraw|irreversible)/i;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+const HEARTBEAT_INTERVAL_MS = 20000;
+const HEARTBEAT_TIMEOUT_MS = 10000;
+const OUTBOX_MAX_MESSAGES = 50;
+const WAIT_DEFAULT_TIMEOUT_MS = 10000;
+const WAIT_POLL_MS = 200;
+const SCREENSHOT_MAX_EDGE = 1280;
+const SCREENSHOT_PADDING = 8;
+const SCREENSHOT_QUALITY = 0.85;
+const FIND_DEFAULT_MAX_RESULTS = 8;
+const DOWNLOAD_POLL_MS = 250;
+// Selectors for elements in a child frame are prefixed with "frame:<frameId> >>> " (see findInFrames).
+const FRAME_SELECTOR_RE = /^frame:(\d+)\s*>>>\s*/;
+// Shared with content.js, which substitutes {{secret:name}} placeholders from this storage key.
+const SECRETS_STORAGE_KEY = "secrets";
+const SECRET_NAME_RE = /^[\w.-]{1,64}$/;
+const MASKED_VALUE = "••••••";
+const NOTIFICATION_MAX_CHARS = 200;
+// Basic notifications need an icon; the extension ships none, so a 1x1 pixel stands in.
+const NOTIFICATION_ICON =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPj/HwADBwIAMCbHYQAAAABJRU5ErkJggg==";
+
+// Interaction tools whose params are forwarded to the content script unchanged.
+const INTERACTION_ACTIONS = {
+  browser_select_option: "select_option",
+  browser_set_checked: "set_checked",
+  browser_press_key: "press_key",
+  browser_hover: "hover",
+  browser_scroll: "scroll",
+  browser_upload: "upload",
+};
 
 const state = {
   sessionId: "",
   token: DEFAULT_TOKEN,
   autoRun: false,
+  stepMode: false,
   connected: false,
   connecting: false,
-  pendingAction: null,
+  // Approvals waiting on the user, keyed by sessionId and actionId; borrowed sessions (HTTP API, MCP, scheduled
+  // jobs) can ask while the side panel's own run does.
+  pendingActions: new Map(),
+  policy: null,
 };
 
 let ws = null;
 let connectPromise = null;
-const pendingToolRequests = new Map();
+let lastRequestTabId;
+
+// Reconnect state. lastSeq is the highest sequenced backend message already handled for this session.
+let autoReconnect = false;
+let reconnectTimer = null;
+let reconnectAttempts = 0;
+let heartbeatTimer = null;
+let pongTimer = null;
+let runActive = false;
+let lastSeq = 0;
+const outbox = [];
 
 function log(...args) {
   console.log("[copilot-extension]", ...args);
@@ -26,9 +70,11 @@ function getPublicState() {
     sessionId: state.sessionId,
     token: state.token,
     autoRun: state.autoRun,
+    stepMode: state.stepMode,
     connected: state.connected,
     connecting: state.connecting,
-    pendingAction: state.pendingAction,
+    pendingActions: [...state.pendingActions.values()],
+    policy: state.policy,
   };
 }
 
@@ -51,21 +97,31 @@ async function persistState() {
     sessionId: state.sessionId,
     token: state.token,
     autoRun: state.autoRun,
+    stepMode: state.stepMode,
   });
 }
 
 async function initState() {
-  const saved = await chrome.storage.local.get(["sessionId", "token", "autoRun"]);
+  const saved = await chrome.storage.local.get(["sessionId", "token", "autoRun", "stepMode"]);
   state.sessionId = saved.sessionId || crypto.randomUUID();
   state.token = typeof saved.token === "string" && saved.token.length ? saved.token : DEFAULT_TOKEN;
   state.autoRun = saved.autoRun === true;
+  state.stepMode = saved.stepMode === true;
   await persistState();
 
+  const session = await chrome.storage.session.get(["lastSeq", "lastSeqSessionId", "autoReconnect"]);
+  lastSeq = session.lastSeqSessionId === state.sessionId && Number.isInteger(session.lastSeq) ? session.lastSeq : 0;
+
   if (chrome.sidePanel && chrome.sidePanel.setPanelBehavior) {
     await chrome.sidePanel.setPanelBehavior({ openPanelOnActionClick: true });
   }
 
   broadcastState();
+
+  // The worker was suspended while connected; pick the connection (and any in-flight run) back up.
+  if (session.autoReconnect === true) {
+    ensureConnected().catch(() => undefined);
+  }
 }
 
 function parseBackendMessage(event) {
@@ -80,11 +136,79 @@ function isOpenSocket() {
   return ws && ws.readyState === WebSocket.OPEN;
 }
 
+// Stored in session storage so a restarted service worker does not replay messages it already handled.
+function setLastSeq(seq) {
+  lastSeq = seq;
+  chrome.storage.session.set({ lastSeq, lastSeqSessionId: state.sessionId }).catch(() => undefined);
+}
+
+function setAutoReconnect(enabled) {
+  autoReconnect = enabled;
+  chrome.storage.session.set({ autoReconnect: enabled }).catch(() => undefined);
+}
+
+function scheduleReconnect() {
+  if (reconnectTimer || !autoReconnect) {
+    return;
+  }
+  const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** reconnectAttempts);
+  reconnectAttempts += 1;
+  log(`Reconnecting in ${delay}ms (attempt ${reconnectAttempts})`);
+  state.connecting = true;
+  broadcastState();
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    ensureConnected().catch(() => undefined);
+  }, delay);
+}
+
+// Pings keep the service worker alive during a run and detect sockets that died without a close frame.
+function sendPing() {
+  if (!isOpenSocket()) {
+    return;
+  }
+  sendToBackend({ type: "ping", sessionId: state.sessionId, token: state.token });
+  if (!pongTimer) {
+    pongTimer = setTimeout(() => {
+      pongTimer = null;
+      log("Heartbeat timed out; closing socket");
+      ws?.close();
+    }, HEARTBEAT_TIMEOUT_MS);
+  }
+}
+
+function startHeartbeat() {
+  if (heartbeatTimer || !isOpenSocket()) {
+    return;
+  }
+  heartbeatTimer = setInterval(sendPing, HEARTBEAT_INTERVAL_MS);
+}
+
+function stopHeartbeat() {
+  clearInterval(heartbeatTimer);
+  heartbeatTimer = null;
+  clearTimeout(pongTimer);
+  pongTimer = null;
+}
+
+function setRunActive(active) {
+  runActive = active;
+  if (active) {
+    startHeartbeat();
+  } else {
+    stopHeartbeat();
+  }
+}
+
 async function ensureConnected() {
   if (isOpenSocket()) {
     return true;
   }
 
+  setAutoReconnect(true);
+  clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+
   if (connectPromise) {
     return connectPromise;
   }
@@ -97,19 +221,32 @@ async function ensureConnected() {
 
     ws.onopen = () => {
       log("WebSocket connected");
+      reconnectAttempts = 0;
       state.connected = true;
       state.connecting = false;
       broadcastState();
+      sendToBackend({ type: "resume", sessionId: state.sessionId, token: state.token, lastSeq });
+      flushOutbox();
+      requestPolicy();
+      if (runActive) {
+        startHeartbeat();
+      }
       resolve(true);
     };
 
-    ws.onclose = () => {
-      log("WebSocket closed");
+    ws.onclose = (event) => {
+      log("WebSocket closed", event.code);
+      stopHeartbeat();
       state.connected = false;
       state.connecting = false;
       ws = null;
       resolve(false);
       connectPromise = null;
+      // 4001 is the backend rejecting the pairing token; retrying would only repeat that.
+      if (event.code === 4001) {
+        setAutoReconnect(false);
+      }
+      scheduleReconnect();
       broadcastState();
     };
 
@@ -123,20 +260,101 @@ async function ensureConnected() {
         return;
       }
 
+      // Scheduled jobs belong to no single conversation, so their messages skip the session check.
+      if (message.token === state.token && onJobMessage(message)) {
+        return;
+      }
+
+      // Sessions driven through the backend's HTTP API or MCP server borrow this connection to run tools and ask for approvals.
+      if (message.sessionId !== state.sessionId && message.token === state.token) {
+        if (message.type === "tool_request") {
+          await onToolRequest(message);
+        } else if (message.type === "approval_request") {
+          await onApprovalRequest(message);
+        }
+        return;
+      }
+
       if (message.sessionId !== state.sessionId || message.token !== state.token) {
         return;
       }
 
+      if (typeof message.seq === "number") {
+        if (message.seq <= lastSeq) {
+          return;
+        }
+        setLastSeq(message.seq);
+      }
+
       switch (message.type) {
+        case "resume_ack":
+          if (!message.known) {
+            setLastSeq(0);
+          }
+          if (message.replayed) {
+            log(`Replaying ${message.replayed} missed messages`);
+          }
+          break;
+        case "pong":
+          clearTimeout(pongTimer);
+          pongTimer = null;
+          break;
         case "assistant_delta":
           broadcastEvent({ type: "assistant_delta", textDelta: message.textDelta });
           break;
         case "assistant_final":
+          setRunActive(false);
+          dropApprovals(state.sessionId);
           broadcastEvent({ type: "assistant_final", text: message.text });
           break;
         case "step_event":
           broadcastEvent({ type: "step_event", step: message.step });
           break;
+        case "screenshot":
+          broadcastEvent({ type: "screenshot", label: message.label, mimeType: message.mimeType, data: message.data });
+          break;
+        case "history_list":
+          broadcastEvent({ type: "history_list", conversations: message.conversations || [] });
+          break;
+        case "history":
+          broadcastEvent({ type: "history", conversation: message.conversation || null });
+          break;
+        case "plan":
+          broadcastEvent({ type: "plan", items: message.items || [], paused: message.paused === true });
+          break;
+        case "macro_list":
+          broadcastEvent({ type: "macro_list", macros: message.macros || [] });
+          break;
+        case "macro_saved":
+          broadcastEvent({ type: "macro_saved", ok: message.ok === true, name: message.name, error: message.error });
+          break;
+        case "model_state":
+          broadcastEvent({
+            type: "model_state",
+            models: message.models || [],
+            defaultModel: message.defaultModel || null,
+            model: message.model || null,
+            notice: message.notice,
+          });
+          break;
+        case "audit_export":
+          broadcastEvent({
+            type: "audit_export",
+            runId: message.runId || null,
+            records: message.records || [],
+            markdown: message.markdown || "",
+          });
+          break;
+        case "extract_result":
+          broadcastEvent({ type: "extract_result", result: message.result });
+          break;
+        case "policy_update":
+          state.policy = message.policy || null;
+          broadcastState();
+          break;
+        case "approval_request":
+          await onApprovalRequest(message);
+          break;
         case "tool_request":
           await onToolRequest(message);
           break;
@@ -158,6 +376,91 @@ function sendToBackend(message) {
   ws.send(JSON.stringify(message));
 }
 
+// Tool results and approvals must not be lost while reconnecting; they are sent once the socket is back.
+function deliverToBackend(message) {
+  if (isOpenSocket()) {
+    sendToBackend(message);
+    return;
+  }
+  outbox.push(message);
+  if (outbox.length > OUTBOX_MAX_MESSAGES) {
+    outbox.shift();
+  }
+  scheduleReconnect();
+}
+
+// Results for borrowed sessions (HTTP API, MCP, scheduled jobs) go out too; the backend routes them by sessionId.
+function flushOutbox() {
+  while (outbox.length && isOpenSocket()) {
+    sendToBackend(outbox.shift());
+  }
+}
+
+function onJobMessage(message) {
+  switch (message.type) {
+    case "job_list":
+      broadcastEvent({ type: "job_list", jobs: message.jobs || [] });
+      return true;
+    case "job_saved":
+      broadcastEvent({ type: "job_saved", ok: message.ok === true, name: message.name, error: message.error });
+      return true;
+    case "job_finished":
+      broadcastEvent({ type: "job_finished", job: message.job });
+      if (message.job?.lastRun?.changed) {
+        notifyJobChanged(message.job);
+      }
+      return true;
+    default:
+      return false;
+  }
+}
+
+function notifyJobChanged(job) {
+  const output = String(job.lastRun.output || "").replace(/\s+/g, " ").trim();
+  chrome.notifications
+    .create(`job-${job.id}-${Date.now()}`, {
+      type: "basic",
+      iconUrl: NOTIFICATION_ICON,
+      title: `${job.name}: output changed`,
+      message: output.length > NOTIFICATION_MAX_CHARS ? `${output.slice(0, NOTIFICATION_MAX_CHARS)}…` : output,
+    })
+    .catch((error) => log("Notification failed", error));
+}
+
+function requestPolicy() {
+  if (!isOpenSocket()) {
+    return;
+  }
+  sendToBackend({ type: "get_policy", sessionId: state.sessionId, token: state.token });
+}
+
+function requestHistory(type) {
+  if (!isOpenSocket()) {
+    return false;
+  }
+  sendToBackend({ type, sessionId: state.sessionId, token: state.token });
+  return true;
+}
+
+function sendSessionCommand(type, fields = {}) {
+  if (!isOpenSocket()) {
+    return false;
+  }
+  sendToBackend({ type, sessionId: state.sessionId, token: state.token, ...fields });
+  return true;
+}
+
+// Switching conversations only changes which sessionId the extension speaks for; the backend resumes it lazily.
+async function switchSession(sessionId) {
+  // The conversation being left can no longer be answered from the panel, so its approvals are rejected rather
+  // than left to time out on the backend.
+  await rejectApprovals((action) => action.sessionId === state.sessionId);
+  state.sessionId = sessionId;
+  setLastSeq(0);
+  await persistState();
+  broadcastState();
+}
+
 async function withTimeout(promise, timeoutMs) {
   return new Promise((resolve, reject) => {
     const timer = setTimeout(() => reject(new Error("TIMEOUT")), timeoutMs);
@@ -173,41 +476,45 @@ async function withTimeout(promise, timeoutMs) {
   });
 }
 
+const TOOL_ERROR_CODES = new Set([
+  "EXTENSION_NOT_READY",
+  "INTERNAL_ERROR",
+  "NO_ACTIVE_TAB",
+  "PERMISSION_DENIED",
+  "NOT_FOUND",
+  "TIMEOUT",
+  "CANCELLED",
+  "APPROVAL_REJECTED",
+  "SECRET_NOT_FOUND",
+  "SECRET_NOT_ALLOWED",
+  "INVALID_SELECTOR",
+  "INVALID_ARGUMENT",
+  "NOT_VISIBLE",
+  "NOT_EDITABLE",
+  "STALE_ELEMENT",
+  "AMBIGUOUS_TARGET",
+  "NAVIGATION_FAILED",
+]);
+
+// Unknown failures may have happened halfway through an action, so they never map to the retryable EXTENSION_NOT_READY.
 function normalizeErrorCode(error) {
   if (!error) {
-    return "EXTENSION_NOT_READY";
+    return "INTERNAL_ERROR";
   }
 
   const message = typeof error === "string" ? error : error.message;
-  if (
-    message === "EXTENSION_NOT_READY" ||
-    message === "NO_ACTIVE_TAB" ||
-    message === "PERMISSION_DENIED" ||
-    message === "NOT_FOUND" ||
-    message === "TIMEOUT" ||
-    message === "CANCELLED"
-  ) {
-    return message;
-  }
-  return "EXTENSION_NOT_READY";
+  return TOOL_ERROR_CODES.has(message) ? message : "INTERNAL_ERROR";
 }
 
-function requiresManualApproval(request) {
-  if (request.tool !== "browser_click" && request.tool !== "browser_type") {
-    return false;
-  }
-
-  if (!state.autoRun) {
-    return true;
-  }
-
-  if (request.tool !== "browser_click") {
-    return false;
-  }
+// Only these mean the message never reached a content script; a closed port means it arrived and the page went away.
+function isUndelivered(error) {
+  const message = String(error?.message || error);
+  return message.includes("Receiving end does not exist") || message.includes("Could not establish connection");
+}
 
-  const selector = String(request.params?.selector || "");
-  const label = String(request.ui?.label || "");
-  return DANGEROUS_CLICK_RE.test(`${label} ${selector}`);
+// Error whose message is a tool error code; detail is the human-readable explanation sent along with it.
+function toolError(code, detail) {
+  return Object.assign(new Error(code), { detail: detail || "" });
 }
 
 async function getActiveTab() {
@@ -215,6 +522,37 @@ async function getActiveTab() {
   return tabs[0] || null;
 }
 
+// Tool requests carry the tab the agent is pinned to for the run, so user focus changes don't redirect actions.
+async function resolveTab(tabId) {
+  if (typeof tabId !== "number") {
+    return getActiveTab();
+  }
+  try {
+    return await chrome.tabs.get(tabId);
+  } catch {
+    return null;
+  }
+}
+
+async function getTabUrl(tabId) {
+  try {
+    const tab = await resolveTab(tabId);
+    return tab?.url || "";
+  } catch {
+    return "";
+  }
+}
+
+function toTabInfo(tab) {
+  return {
+    tabId: tab.id,
+    windowId: tab.windowId,
+    title: tab.title || "",
+    url: tab.url || "",
+    active: tab.active === true,
+  };
+}
+
 function isRestrictedUrl(url) {
   if (!url) {
     return true;
@@ -238,8 +576,13 @@ function normalizeUrl(rawValue) {
 
 async function waitForTabLoad(tabId, timeoutMs) {
   return new Promise((resolve, reject) => {
-    const timer = setTimeout(() => {
+    const cleanup = () => {
+      clearTimeout(timer);
       chrome.tabs.onUpdated.removeListener(onUpdated);
+      chrome.webNavigation.onErrorOccurred.removeListener(onError);
+    };
+    const timer = setTimeout(() => {
+      cleanup();
       reject(new Error("TIMEOUT"));
     }, timeoutMs);
 
@@ -248,18 +591,37 @@ async function waitForTabLoad(tabId, timeoutMs) {
         return;
       }
       if (changeInfo.status === "complete") {
-        clearTimeout(timer);
-        chrome.tabs.onUpdated.removeListener(onUpdated);
+        cleanup();
         resolve();
       }
     };
 
+    // Chrome still reports "complete" for its own error page, so failed loads are caught here first.
+    // ERR_ABORTED only means another navigation replaced this one.
+    const onError = (details) => {
+      if (details.tabId !== tabId || details.frameId !== 0 || details.error === "net::ERR_ABORTED") {
+        return;
+      }
+      cleanup();
+      reject(toolError("NAVIGATION_FAILED", `${details.url} failed to load (${details.error}).`));
+    };
+
     chrome.tabs.onUpdated.addListener(onUpdated);
+    chrome.webNavigation.onErrorOccurred.addListener(onError);
   });
 }
 
-async function navigateActiveTab(url, timeoutMs) {
-  const tab = await getActiveTab();
+// chrome.tabs rejects URLs it cannot open at all (e.g. malformed ones) before any load starts.
+async function startNavigation(navigate) {
+  try {
+    return await navigate();
+  } catch (error) {
+    throw toolError("NAVIGATION_FAILED", String(error?.message || error));
+  }
+}
+
+async function navigateTab(tabId, url, timeoutMs) {
+  const tab = await resolveTab(tabId);
   if (!tab || typeof tab.id !== "number") {
     throw new Error("NO_ACTIVE_TAB");
   }
@@ -270,13 +632,270 @@ async function navigateActiveTab(url, timeoutMs) {
   }
 
   const loadPromise = waitForTabLoad(tab.id, timeoutMs);
-  await chrome.tabs.update(tab.id, { url: targetUrl });
+  await startNavigation(() => chrome.tabs.update(tab.id, { url: targetUrl }));
   await loadPromise;
   return { ok: true, url: targetUrl };
 }
 
-async function sendToolMessageToActiveTab(payload) {
-  const tab = await getActiveTab();
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// URL changes can replace the content script, so they are watched from here instead of the page.
+async function waitForUrlChange(tabId, fromUrl, urlIncludes, timeoutMs) {
+  const startedAt = Date.now();
+  while (true) {
+    const tab = await resolveTab(tabId);
+    const url = tab?.url || "";
+    const satisfied = urlIncludes ? url.includes(urlIncludes) : Boolean(url) && url !== fromUrl;
+    if (satisfied || Date.now() - startedAt >= timeoutMs) {
+      return { satisfied, condition: "url_change", elapsedMs: Date.now() - startedAt, url };
+    }
+    await sleep(WAIT_POLL_MS);
+  }
+}
+
+async function runWait(tabId, condition, fromUrl) {
+  const timeoutMs = Number(condition?.timeoutMs) || WAIT_DEFAULT_TIMEOUT_MS;
+  if (condition?.kind === "url_change") {
+    return waitForUrlChange(tabId, fromUrl, String(condition.urlIncludes || ""), timeoutMs);
+  }
+  return sendToolMessageToTab(tabId, { kind: "copilot_tool", action: "wait", condition, timeoutMs });
+}
+
+async function describeChanges(tabId, before, waitFor) {
+  const wait = waitFor ? await runWait(tabId, waitFor, before?.url || "") : undefined;
+  const after = await resolveTab(tabId);
+  return {
+    ok: true,
+    urlBefore: before?.url || "",
+    urlAfter: after?.url || "",
+    urlChanged: (before?.url || "") !== (after?.url || ""),
+    titleBefore: before?.title || "",
+    titleAfter: after?.title || "",
+    titleChanged: (before?.title || "") !== (after?.title || ""),
+    ...(wait ? { wait } : {}),
+  };
+}
+
+function toDownloadInfo(item) {
+  return {
+    id: item.id,
+    filename: item.filename.split(/[\\/]/).pop() || item.filename,
+    path: item.filename,
+    url: item.finalUrl || item.url,
+    mimeType: item.mime || "",
+    size: item.state === "complete" ? item.fileSize || item.bytesReceived : item.bytesReceived,
+    state: item.state,
+    ...(item.error ? { error: item.error } : {}),
+  };
+}
+
+// Origin of a page or download URL; blob: URLs carry the origin that created them.
+function contentOrigin(url) {
+  try {
+    const origin = new URL(url || "").origin;
+    return origin === "null" ? "" : origin;
+  } catch {
+    return "";
+  }
+}
+
+// Clicks the target and collects the downloads it started: only ones created afterwards whose referrer or URL
+// is on the working tab's origin, so the user's own downloads in other tabs are never reported.
+async function clickForDownloads(tabId, params, waitMs) {
+  const tab = await resolveTab(tabId);
+  const origin = contentOrigin(tab?.url);
+  const ids = [];
+  const onCreated = (item) => {
+    if (origin && (contentOrigin(item.referrer) === origin || contentOrigin(item.finalUrl || item.url) === origin)) {
+      ids.push(item.id);
+    }
+  };
+  chrome.downloads.onCreated.addListener(onCreated);
+  try {
+    const clicked = await sendToolMessageToTab(tabId, {
+      kind: "copilot_tool",
+      action: "click",
+      selector: String(params?.selector || ""),
+      ref: String(params?.ref || ""),
+      fingerprint: params?.fingerprint,
+    });
+    const deadline = Date.now() + waitMs;
+    while (!ids.length && Date.now() < deadline) {
+      await sleep(DOWNLOAD_POLL_MS);
+    }
+    return { clicked, ids: [...ids] };
+  } finally {
+    chrome.downloads.onCreated.removeListener(onCreated);
+  }
+}
+
+// Starts a download (by URL or by clicking the target), or watches the ids of earlier ones, then waits until
+// all of them have finished. Only downloads this tool started are ever reported.
+async function runDownload(tabId, params) {
+  const startedAt = Date.now();
+  const waitMs = Number(params?.waitMs) || WAIT_DEFAULT_TIMEOUT_MS;
+  let ids = Array.isArray(params?.ids) ? params.ids.filter((id) => Number.isInteger(id)) : [];
+  let clicked = null;
+
+  if (params?.url) {
+    const url = normalizeUrl(params.url);
+    if (!url || isRestrictedUrl(url)) {
+      throw toolError("INVALID_ARGUMENT", `Cannot download ${params.url}.`);
+    }
+    ids = [await startNavigation(() => chrome.downloads.download({ url }))];
+  } else if (params?.selector || params?.ref) {
+    ({ clicked, ids } = await clickForDownloads(tabId, params, waitMs));
+  }
+
+  const target = clicked?.target ? { target: clicked.target } : {};
+  while (true) {
+    const items = (await Promise.all(ids.map((id) => chrome.downloads.search({ id })))).flat();
+    const settled = items.length > 0 && items.every((item) => item.state !== "in_progress");
+    if (settled || Date.now() - startedAt >= waitMs) {
+      return { downloads: items.map(toDownloadInfo), timedOut: !settled, ...target };
+    }
+    await sleep(DOWNLOAD_POLL_MS);
+  }
+}
+
+async function listTabs() {
+  const tabs = await chrome.tabs.query({ windowType: "normal" });
+  return { tabs: tabs.filter((tab) => typeof tab.id === "number").map(toTabInfo) };
+}
+
+async function openTab(url, timeoutMs) {
+  const targetUrl = url ? normalizeUrl(url) : "";
+  if (targetUrl && isRestrictedUrl(targetUrl)) {
+    throw new Error("PERMISSION_DENIED");
+  }
+
+  const tab = await startNavigation(() => chrome.tabs.create({ active: true, ...(targetUrl ? { url: targetUrl } : {}) }));
+  if (typeof tab.id !== "number") {
+    throw new Error("NO_ACTIVE_TAB");
+  }
+  if (targetUrl) {
+    await waitForTabLoad(tab.id, timeoutMs);
+  }
+  return toTabInfo(await chrome.tabs.get(tab.id));
+}
+
+async function switchToTab(tabId) {
+  const tab = await resolveTab(tabId);
+  if (!tab || typeof tab.id !== "number") {
+    throw new Error("NO_ACTIVE_TAB");
+  }
+  await chrome.tabs.update(tab.id, { active: true });
+  await chrome.windows.update(tab.windowId, { focused: true });
+  return toTabInfo(await chrome.tabs.get(tab.id));
+}
+
+async function closeTab(tabId) {
+  const tab = await resolveTab(tabId);
+  if (!tab || typeof tab.id !== "number") {
+    throw new Error("NO_ACTIVE_TAB");
+  }
+  await chrome.tabs.remove(tab.id);
+  return { ok: true, tabId: tab.id };
+}
+
+async function blobToBase64(blob) {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// Crops the viewport capture to rect (CSS pixels) and scales the longest edge down to SCREENSHOT_MAX_EDGE.
+async function encodeScreenshot(dataUrl, rect) {
+  const bitmap = await createImageBitmap(await (await fetch(dataUrl)).blob());
+  let sx = 0;
+  let sy = 0;
+  let sw = bitmap.width;
+  let sh = bitmap.height;
+
+  if (rect) {
+    const scale = bitmap.width / rect.viewportWidth;
+    sx = Math.max(0, Math.floor((rect.x - SCREENSHOT_PADDING) * scale));
+    sy = Math.max(0, Math.floor((rect.y - SCREENSHOT_PADDING) * scale));
+    sw = Math.min(bitmap.width - sx, Math.ceil((rect.width + SCREENSHOT_PADDING * 2) * scale));
+    sh = Math.min(bitmap.height - sy, Math.ceil((rect.height + SCREENSHOT_PADDING * 2) * scale));
+  }
+
+  const ratio = Math.min(1, SCREENSHOT_MAX_EDGE / Math.max(sw, sh));
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(sw * ratio)), Math.max(1, Math.round(sh * ratio)));
+  canvas.getContext("2d").drawImage(bitmap, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await canvas.convertToBlob({ type: "image/jpeg", quality: SCREENSHOT_QUALITY });
+  return {
+    mimeType: "image/jpeg",
+    data: await blobToBase64(blob),
+    width: canvas.width,
+    height: canvas.height,
+    cropped: Boolean(rect),
+    target: rect?.label || "viewport",
+  };
+}
+
+async function captureScreenshot(tabId, params) {
+  const tab = await resolveTab(tabId);
+  if (!tab || typeof tab.id !== "number") {
+    throw new Error("NO_ACTIVE_TAB");
+  }
+  if (isRestrictedUrl(tab.url)) {
+    throw new Error("PERMISSION_DENIED");
+  }
+  // captureVisibleTab only sees the window's active tab, so a background working tab cannot be captured.
+  if (!tab.active) {
+    throw new Error("NO_ACTIVE_TAB");
+  }
+
+  const selector = String(params?.selector || "");
+  const ref = String(params?.ref || "");
+  const highlight = params?.highlight === true;
+  // Rects are measured in the frame's own viewport, which does not line up with the tab capture.
+  if (splitFrameSelector(selector).frameId) {
+    throw toolError("INVALID_ARGUMENT", "Screenshots cannot be cropped to an element inside a frame; capture the viewport instead.");
+  }
+  const rect =
+    selector || ref || highlight
+      ? await sendToolMessageToTab(tab.id, { kind: "copilot_tool", action: "capture_rect", selector, ref, highlight })
+      : null;
+
+  const dataUrl = await chrome.tabs.captureVisibleTab(tab.windowId, { format: "png" });
+  return encodeScreenshot(dataUrl, rect);
+}
+
+function splitFrameSelector(selector) {
+  const match = FRAME_SELECTOR_RE.exec(selector);
+  return match ? { frameId: Number(match[1]), selector: selector.slice(match[0].length) } : { frameId: 0, selector };
+}
+
+function frameSelector(frameId, selector) {
+  return frameId ? `frame:${frameId} >>> ${selector}` : selector;
+}
+
+// Picks the frame named by a frame-qualified selector (or wait condition selector) and strips the prefix.
+function routeToFrame(payload) {
+  if (typeof payload.selector === "string" && FRAME_SELECTOR_RE.test(payload.selector)) {
+    const { frameId, selector } = splitFrameSelector(payload.selector);
+    return { frameId, payload: { ...payload, selector } };
+  }
+  const condition = payload.condition;
+  if (typeof condition?.selector === "string" && FRAME_SELECTOR_RE.test(condition.selector)) {
+    const { frameId, selector } = splitFrameSelector(condition.selector);
+    return { frameId, payload: { ...payload, condition: { ...condition, selector } } };
+  }
+  return { frameId: 0, payload };
+}
+
+// The content script runs in every frame, so messages always name one; without a frameId the top frame gets it.
+async function sendToolMessageToTab(tabId, message, frameId) {
+  const tab = await resolveTab(tabId);
   if (!tab || typeof tab.id !== "number") {
     throw new Error("NO_ACTIVE_TAB");
   }
@@ -285,36 +904,101 @@ async function sendToolMessageToActiveTab(payload) {
     throw new Error("PERMISSION_DENIED");
   }
 
+  const route = frameId === undefined ? routeToFrame(message) : { frameId, payload: message };
+  let response;
   try {
-    const response = await chrome.tabs.sendMessage(tab.id, payload);
-    if (!response || response.ok !== true) {
-      throw new Error(response?.error || "EXTENSION_NOT_READY");
-    }
-    return response.data;
+    response = await chrome.tabs.sendMessage(tab.id, route.payload, { frameId: route.frameId });
   } catch (firstError) {
+    if (!isUndelivered(firstError) && !String(firstError).includes("Cannot access")) {
+      throw toolError(
+        "INTERNAL_ERROR",
+        `The page stopped answering after receiving the action, which may have happened (${String(firstError?.message || firstError)}).`,
+      );
+    }
+    // Nothing answered, so the content script is missing (e.g. the tab predates the extension); inject it once.
     try {
       await chrome.scripting.executeScript({
-        target: { tabId: tab.id },
+        target: { tabId: tab.id, frameIds: [route.frameId] },
         files: ["content.js"],
       });
-
-      const retry = await chrome.tabs.sendMessage(tab.id, payload);
-      if (!retry || retry.ok !== true) {
-        throw new Error(retry?.error || "EXTENSION_NOT_READY");
-      }
-      return retry.data;
-    } catch {
+    } catch (error) {
       if (String(firstError).includes("Cannot access")) {
-        throw new Error("PERMISSION_DENIED");
+        throw toolError("PERMISSION_DENIED", String(firstError?.message || firstError));
+      }
+      if (route.frameId !== 0) {
+        throw toolError("STALE_ELEMENT", `Frame ${route.frameId} is no longer in the page.`);
       }
-      throw new Error("EXTENSION_NOT_READY");
+      throw toolError("EXTENSION_NOT_READY", String(error?.message || error));
+    }
+    try {
+      response = await chrome.tabs.sendMessage(tab.id, route.payload, { frameId: route.frameId });
+    } catch (error) {
+      throw toolError(
+        isUndelivered(error) ? "EXTENSION_NOT_READY" : "INTERNAL_ERROR",
+        String(error?.message || error),
+      );
     }
   }
+
+  // The content script answered with a failure of its own; retrying it here would only repeat the action.
+  if (!response || response.ok !== true) {
+    throw toolError(response?.error || "INTERNAL_ERROR", response?.message);
+  }
+  // A re-located target comes back as a selector inside the frame; qualify it like the one that was sent.
+  const target = response.data?.target;
+  if (route.frameId && typeof target?.selector === "string") {
+    return {
+      ...response.data,
+      target: {
+        ...target,
+        selector: frameSelector(route.frameId, target.selector),
+        ...(target.previousSelector ? { previousSelector: frameSelector(route.frameId, target.previousSelector) } : {}),
+      },
+    };
+  }
+  return response.data;
+}
+
+// Asks every scriptable frame of the tab and keeps the best-scoring candidates overall. Candidates from child
+// frames get a frame-qualified selector so later actions are sent to the same frame.
+async function findInFrames(tabId, query, maxResults) {
+  const tab = await resolveTab(tabId);
+  if (!tab || typeof tab.id !== "number") {
+    throw new Error("NO_ACTIVE_TAB");
+  }
+
+  const frames = (await chrome.webNavigation.getAllFrames({ tabId: tab.id })) || [];
+  const childFrameIds = frames
+    .filter((frame) => frame.frameId !== 0 && !frame.errorOccurred && !isRestrictedUrl(frame.url))
+    .map((frame) => frame.frameId);
+  const frameIds = [0, ...childFrameIds];
+  const results = await Promise.allSettled(
+    frameIds.map((frameId) =>
+      sendToolMessageToTab(tab.id, { kind: "copilot_tool", action: "find", query, maxResults }, frameId),
+    ),
+  );
+  if (results[0].status === "rejected") {
+    throw results[0].reason;
+  }
+
+  const candidates = results
+    .flatMap((result, index) =>
+      result.status === "fulfilled" && Array.isArray(result.value?.candidates)
+        ? result.value.candidates.map((candidate) => ({
+            ...candidate,
+            selector: frameSelector(frameIds[index], candidate.selector),
+          }))
+        : [],
+    )
+    .sort((a, b) => (b.score || 0) - (a.score || 0))
+    .slice(0, maxResults || FIND_DEFAULT_MAX_RESULTS)
+    .map((candidate, index) => ({ ...candidate, id: `cand-${index + 1}` }));
+  return { candidates };
 }
 
-async function updateHud(message) {
+async function updateHud(message, tabId) {
   try {
-    await sendToolMessageToActiveTab({ kind: "copilot_tool", action: "hud", message });
+    await sendToolMessageToTab(tabId, { kind: "copilot_tool", action: "hud", message });
   } catch (error) {
     log("HUD update failed", error);
   }
@@ -327,121 +1011,262 @@ async function executeToolRequest(request) {
 
     if (request.tool === "browser_find") {
       const query = String(request.params?.query || "");
+      const maxResults = Number(request.params?.maxResults) || undefined;
+      resultData = await withTimeout(findInFrames(request.tabId, query, maxResults), timeoutMs);
+    } else if (request.tool === "browser_navigate") {
+      const url = String(request.params?.url || "");
+      const waitFor = request.params?.waitFor;
       resultData = await withTimeout(
-        sendToolMessageToActiveTab({ kind: "copilot_tool", action: "find", query }),
+        (async () => {
+          const before = await resolveTab(request.tabId);
+          const navigation = await navigateTab(request.tabId, url, timeoutMs);
+          return waitFor ? { ...navigation, ...(await describeChanges(request.tabId, before, waitFor)) } : navigation;
+        })(),
         timeoutMs,
       );
-    } else if (request.tool === "browser_navigate") {
+    } else if (request.tool === "browser_wait") {
+      const condition = request.params?.condition;
+      const fromUrl = await getTabUrl(request.tabId);
+      resultData = await withTimeout(runWait(request.tabId, condition, fromUrl), timeoutMs);
+    } else if (request.tool === "browser_tabs_list") {
+      resultData = await withTimeout(listTabs(), timeoutMs);
+    } else if (request.tool === "browser_tab_open") {
       const url = String(request.params?.url || "");
-      resultData = await withTimeout(navigateActiveTab(url, timeoutMs), timeoutMs);
+      resultData = await withTimeout(openTab(url, timeoutMs), timeoutMs);
+    } else if (request.tool === "browser_tab_switch") {
+      resultData = await withTimeout(switchToTab(Number(request.params?.tabId)), timeoutMs);
+    } else if (request.tool === "browser_tab_close") {
+      resultData = await withTimeout(closeTab(Number(request.params?.tabId)), timeoutMs);
+    } else if (request.tool === "browser_read_page") {
+      const selector = String(request.params?.selector || "");
+      const maxChars = Number(request.params?.maxChars) || undefined;
+      resultData = await withTimeout(
+        sendToolMessageToTab(request.tabId, { kind: "copilot_tool", action: "read_page", selector, maxChars }),
+        timeoutMs,
+      );
+    } else if (request.tool === "browser_screenshot") {
+      resultData = await withTimeout(captureScreenshot(request.tabId, request.params), timeoutMs);
+    } else if (request.tool === "browser_extract") {
+      const selector = String(request.params?.selector || "");
+      const fields = Array.isArray(request.params?.fields) ? request.params.fields : [];
+      const maxItems = Number(request.params?.maxItems) || undefined;
+      resultData = await withTimeout(
+        sendToolMessageToTab(request.tabId, { kind: "copilot_tool", action: "extract", selector, fields, maxItems }),
+        timeoutMs,
+      );
+    } else if (request.tool === "browser_snapshot") {
+      const selector = String(request.params?.selector || "");
+      const maxNodes = Number(request.params?.maxNodes) || undefined;
+      resultData = await withTimeout(
+        sendToolMessageToTab(request.tabId, { kind: "copilot_tool", action: "snapshot", selector, maxNodes }),
+        timeoutMs,
+      );
     } else if (request.tool === "browser_highlight") {
       const selector = String(request.params?.selector || "");
+      const ref = String(request.params?.ref || "");
       const label = String(request.params?.label || "");
+      const fingerprint = request.params?.fingerprint;
       resultData = await withTimeout(
-        sendToolMessageToActiveTab({ kind: "copilot_tool", action: "highlight", selector, label }),
+        sendToolMessageToTab(request.tabId, { kind: "copilot_tool", action: "highlight", selector, ref, label, fingerprint }),
         timeoutMs,
       );
     } else if (request.tool === "browser_click") {
       const selector = String(request.params?.selector || "");
+      const ref = String(request.params?.ref || "");
+      const waitFor = request.params?.waitFor;
       resultData = await withTimeout(
-        sendToolMessageToActiveTab({ kind: "copilot_tool", action: "click", selector }),
+        (async () => {
+          const before = waitFor ? await resolveTab(request.tabId) : null;
+          const fingerprint = request.params?.fingerprint;
+          const clicked = await sendToolMessageToTab(request.tabId, { kind: "copilot_tool", action: "click", selector, ref, fingerprint });
+          if (!waitFor) {
+            return clicked;
+          }
+          const changes = await describeChanges(request.tabId, before, waitFor);
+          return clicked?.target ? { ...changes, target: clicked.target } : changes;
+        })(),
         timeoutMs,
       );
     } else if (request.tool === "browser_type") {
       const selector = String(request.params?.selector || "");
+      const ref = String(request.params?.ref || "");
       const text = String(request.params?.text || "");
+      const fingerprint = request.params?.fingerprint;
+      resultData = await withTimeout(
+        sendToolMessageToTab(request.tabId, { kind: "copilot_tool", action: "type", selector, ref, text, fingerprint }),
+        timeoutMs,
+      );
+    } else if (request.tool === "browser_download") {
+      resultData = await withTimeout(runDownload(request.tabId, request.params), timeoutMs);
+    } else if (request.tool === "browser_fill_form") {
+      // The backend previews the mapping first, then fills the approved batch by ref, or clears the preview.
+      const phase = request.params?.phase;
+      const action = phase === "fill" ? "fill_form" : phase === "clear" ? "clear_form_preview" : "fill_form_preview";
+      const selector = String(request.params?.selector || "");
+      const fields = Array.isArray(request.params?.fields) ? request.params.fields : [];
       resultData = await withTimeout(
-        sendToolMessageToActiveTab({ kind: "copilot_tool", action: "type", selector, text }),
+        sendToolMessageToTab(request.tabId, { kind: "copilot_tool", action, selector, fields }),
+        timeoutMs,
+      );
+    } else if (INTERACTION_ACTIONS[request.tool]) {
+      const action = INTERACTION_ACTIONS[request.tool];
+      resultData = await withTimeout(
+        sendToolMessageToTab(request.tabId, { ...request.params, kind: "copilot_tool", action }),
         timeoutMs,
       );
     } else {
-      throw new Error("EXTENSION_NOT_READY");
+      throw toolError("INTERNAL_ERROR", `This extension version does not support ${request.tool}.`);
     }
 
-    await updateHud("Done");
-    sendToBackend({
+    if (request.tool !== "browser_tab_close") {
+      await updateHud("Done", request.tabId);
+    }
+    deliverToBackend({
       type: "tool_result",
-      sessionId: state.sessionId,
+      sessionId: request.sessionId,
       token: state.token,
       actionId: request.actionId,
       ok: true,
       data: resultData,
+      pageUrl: await getTabUrl(request.tabId),
     });
   } catch (error) {
     const code = normalizeErrorCode(error);
-    await updateHud(`Failed: ${code}`);
-    sendToBackend({
+    await updateHud(`Failed: ${code}`, request.tabId);
+    deliverToBackend({
       type: "tool_result",
-      sessionId: state.sessionId,
+      sessionId: request.sessionId,
       token: state.token,
       actionId: request.actionId,
       ok: false,
       error: code,
+      message: error?.detail || "",
+      pageUrl: await getTabUrl(request.tabId),
     });
-  } finally {
-    pendingToolRequests.delete(request.actionId);
-    if (state.pendingAction && state.pendingAction.actionId === request.actionId) {
-      state.pendingAction = null;
-      broadcastState();
-    }
+  }
+}
+
+// Typed text and form values may be passwords, so they never reach the service worker console.
+function redactForLog(params) {
+  if (!params || typeof params !== "object") {
+    return params;
+  }
+  const redacted = { ...params };
+  if (typeof redacted.text === "string") {
+    redacted.text = MASKED_VALUE;
+  }
+  if (redacted.file && typeof redacted.file === "object") {
+    redacted.file = { ...redacted.file, data: `[${redacted.file.size} bytes]` };
+  }
+  if (Array.isArray(redacted.fields)) {
+    redacted.fields = redacted.fields.map((field) => (field && typeof field === "object" ? { ...field, value: MASKED_VALUE } : field));
+  }
+  return redacted;
+}
+
+async function loadSecrets() {
+  const stored = await chrome.storage.local.get(SECRETS_STORAGE_KEY);
+  return stored[SECRETS_STORAGE_KEY] || {};
+}
+
+// Secrets are stored as { value, origin }; content.js only types one on the origin it was saved for.
+async function secretList() {
+  const secrets = await loadSecrets();
+  return Object.keys(secrets)
+    .sort()
+    .map((name) => ({ name, origin: typeof secrets[name]?.origin === "string" ? secrets[name].origin : "" }));
+}
+
+function originOf(url) {
+  try {
+    const parsed = new URL(url || "");
+    return parsed.protocol === "https:" || parsed.protocol === "http:" ? parsed.origin : "";
+  } catch {
+    return "";
   }
 }
 
 async function onToolRequest(request) {
-  log("tool_request", request.tool, request.actionId, request.params);
-  pendingToolRequests.set(request.actionId, request);
+  log("tool_request", request.tool, request.actionId, redactForLog(request.params));
+  dropApprovals(request.sessionId, request.actionId);
+  lastRequestTabId = request.tabId;
+  await updateHud(`Copilot: ${request.ui.label}...`, request.tabId);
+  await executeToolRequest(request);
+}
 
-  await updateHud(`Copilot: ${request.ui.label}...`);
+function approvalKey(sessionId, actionId) {
+  return `${sessionId}:${actionId}`;
+}
 
-  if (requiresManualApproval(request)) {
-    state.pendingAction = {
-      actionId: request.actionId,
-      tool: request.tool,
-      label: request.ui.label,
-    };
+// An approval answered elsewhere (HTTP API, CLI) or ended with its run no longer needs the panel.
+function dropApprovals(sessionId, actionId) {
+  let changed = false;
+  for (const [key, action] of state.pendingActions) {
+    if (action.sessionId === sessionId && (actionId === undefined || action.actionId === actionId)) {
+      state.pendingActions.delete(key);
+      changed = true;
+    }
+  }
+  if (changed) {
     broadcastState();
-    broadcastEvent({ type: "approval_needed", action: state.pendingAction });
-    return;
   }
+}
 
-  await executeToolRequest(request);
+async function rejectApprovals(matches) {
+  for (const action of [...state.pendingActions.values()]) {
+    if (matches(action)) {
+      await handleApproval(action.sessionId, action.actionId, false);
+    }
+  }
+}
+
+// The backend owns the approval policy; the extension only relays the user's decision.
+async function onApprovalRequest(request) {
+  log("approval_request", request.tool, request.actionId, request.reason);
+  const action = {
+    sessionId: request.sessionId,
+    actionId: request.actionId,
+    tool: request.tool,
+    label: request.ui.label,
+    reason: request.reason,
+    tabId: request.tabId,
+    ...(Array.isArray(request.params?.fields) ? { fields: request.params.fields } : {}),
+    ...(typeof request.params?.selector === "string" ? { selector: request.params.selector } : {}),
+    ...(request.sessionId !== state.sessionId ? { borrowed: true } : {}),
+  };
+  state.pendingActions.set(approvalKey(request.sessionId, request.actionId), action);
+  broadcastState();
+  broadcastEvent({ type: "approval_needed", action });
+  await updateHud(`Copilot: waiting for approval to ${request.ui.label}`, request.tabId);
 }
 
-async function handleApproval(actionId, approved) {
-  const request = pendingToolRequests.get(actionId);
-  if (!request) {
+async function handleApproval(sessionId, actionId, approved) {
+  const key = approvalKey(sessionId, actionId);
+  const action = state.pendingActions.get(key);
+  if (!action) {
     return;
   }
+  const { tabId } = action;
 
-  sendToBackend({
+  deliverToBackend({
     type: "user_approval",
-    sessionId: state.sessionId,
+    sessionId,
     token: state.token,
     actionId,
     approved,
   });
 
-  state.pendingAction = null;
+  state.pendingActions.delete(key);
   broadcastState();
 
+  // A rejected form fill's preview is cleared by the backend, which knows the form's frame.
   if (!approved) {
-    pendingToolRequests.delete(actionId);
-    await updateHud("Failed: PERMISSION_DENIED");
-    sendToBackend({
-      type: "tool_result",
-      sessionId: state.sessionId,
-      token: state.token,
-      actionId,
-      ok: false,
-      error: "PERMISSION_DENIED",
-    });
-    return;
+    await updateHud("Failed: APPROVAL_REJECTED", tabId);
   }
-
-  await executeToolRequest(request);
 }
 
 async function stopRun() {
+  setRunActive(false);
   if (!isOpenSocket()) {
     return;
   }
@@ -452,35 +1277,20 @@ async function stopRun() {
     token: state.token,
   });
 
-  if (state.pendingAction) {
-    const actionId = state.pendingAction.actionId;
-    sendToBackend({
-      type: "user_approval",
-      sessionId: state.sessionId,
-      token: state.token,
-      actionId,
-      approved: false,
-    });
-    sendToBackend({
-      type: "tool_result",
-      sessionId: state.sessionId,
-      token: state.token,
-      actionId,
-      ok: false,
-      error: "CANCELLED",
-    });
-    pendingToolRequests.delete(actionId);
-    state.pendingAction = null;
-    broadcastState();
-  }
+  // Cancelling the run rejects its approvals on the backend. Approvals of borrowed sessions belong to other runs
+  // and stay pending.
+  const own = [...state.pendingActions.values()].filter((action) => action.sessionId === state.sessionId);
+  const tabId = own[0]?.tabId ?? lastRequestTabId;
+  dropApprovals(state.sessionId);
 
-  await updateHud("Failed: CANCELLED");
+  await updateHud("Failed: CANCELLED", tabId);
 }
 
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   (async () => {
     switch (message?.type) {
       case "ui_init": {
+        requestPolicy();
         sendResponse({ ok: true, state: getPublicState() });
         break;
       }
@@ -490,6 +1300,8 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
         break;
       }
       case "ui_set_token": {
+        // Approvals are answered with the token they were asked under.
+        await rejectApprovals(() => true);
         state.token = String(message.token || DEFAULT_TOKEN);
         await persistState();
         broadcastState();
@@ -503,6 +1315,59 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
         sendResponse({ ok: true, state: getPublicState() });
         break;
       }
+      case "ui_set_step_mode": {
+        state.stepMode = message.stepMode === true;
+        await persistState();
+        broadcastState();
+        sendResponse({ ok: true, state: getPublicState() });
+        break;
+      }
+      case "ui_list_models": {
+        const ok = (await ensureConnected()) && sendSessionCommand("list_models");
+        sendResponse({ ok });
+        break;
+      }
+      case "ui_set_model": {
+        const model = typeof message.model === "string" && message.model ? message.model : null;
+        sendResponse({ ok: sendSessionCommand("set_model", { model }) });
+        break;
+      }
+      case "ui_list_secrets": {
+        sendResponse({ ok: true, secrets: await secretList() });
+        break;
+      }
+      case "ui_save_secret": {
+        const name = String(message.name || "").trim();
+        const value = String(message.value || "");
+        if (!SECRET_NAME_RE.test(name) || !value) {
+          sendResponse({ ok: false, error: "INVALID_SECRET" });
+          return;
+        }
+        const origin = originOf((await getActiveTab())?.url);
+        if (!origin) {
+          sendResponse({ ok: false, error: "NO_SECRET_ORIGIN" });
+          return;
+        }
+        const secrets = await loadSecrets();
+        await chrome.storage.local.set({ [SECRETS_STORAGE_KEY]: { ...secrets, [name]: { value, origin } } });
+        sendResponse({ ok: true, origin, secrets: await secretList() });
+        break;
+      }
+      case "ui_delete_secret": {
+        const { [String(message.name || "")]: _removed, ...secrets } = await loadSecrets();
+        await chrome.storage.local.set({ [SECRETS_STORAGE_KEY]: secrets });
+        sendResponse({ ok: true, secrets: await secretList() });
+        break;
+      }
+      case "ui_plan_continue": {
+        sendResponse({ ok: sendSessionCommand("plan_continue") });
+        break;
+      }
+      case "ui_plan_edit": {
+        const items = Array.isArray(message.items) ? message.items : [];
+        sendResponse({ ok: sendSessionCommand("plan_edit", { items }) });
+        break;
+      }
       case "ui_send_user_message": {
         const text = String(message.text || "").trim();
         if (!text) {
@@ -516,17 +1381,108 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
           return;
         }
 
+        const activeTab = await getActiveTab();
+        setRunActive(true);
         sendToBackend({
           type: "user_message",
           sessionId: state.sessionId,
           token: state.token,
           text,
+          autoRun: state.autoRun,
+          stepMode: state.stepMode,
+          pageUrl: activeTab?.url || "",
+          ...(typeof activeTab?.id === "number" ? { tabId: activeTab.id } : {}),
         });
         sendResponse({ ok: true });
         break;
       }
+      case "ui_list_history": {
+        const ok = (await ensureConnected()) && requestHistory("list_history");
+        sendResponse({ ok });
+        break;
+      }
+      case "ui_load_history": {
+        sendResponse({ ok: requestHistory("get_history") });
+        break;
+      }
+      case "ui_open_history": {
+        const sessionId = String(message.sessionId || "");
+        if (!sessionId) {
+          sendResponse({ ok: false, error: "NOT_FOUND" });
+          return;
+        }
+        await switchSession(sessionId);
+        const ok = (await ensureConnected()) && requestHistory("get_history");
+        sendResponse({ ok, state: getPublicState() });
+        break;
+      }
+      case "ui_new_chat": {
+        await switchSession(crypto.randomUUID());
+        sendResponse({ ok: true, state: getPublicState() });
+        break;
+      }
+      case "ui_list_macros": {
+        const ok = (await ensureConnected()) && sendSessionCommand("list_macros");
+        sendResponse({ ok });
+        break;
+      }
+      case "ui_save_macro": {
+        const name = String(message.name || "").trim();
+        if (!name) {
+          sendResponse({ ok: false, error: "EMPTY_NAME" });
+          return;
+        }
+        sendResponse({ ok: sendSessionCommand("save_macro", { name }) });
+        break;
+      }
+      case "ui_delete_macro": {
+        sendResponse({ ok: sendSessionCommand("delete_macro", { name: String(message.name || "") }) });
+        break;
+      }
+      case "ui_run_macro": {
+        const connected = await ensureConnected();
+        if (!connected) {
+          sendResponse({ ok: false, error: "EXTENSION_NOT_READY" });
+          return;
+        }
+
+        const activeTab = await getActiveTab();
+        setRunActive(true);
+        sendSessionCommand("run_macro", {
+          name: String(message.name || ""),
+          args: message.args && typeof message.args === "object" ? message.args : {},
+          autoRun: state.autoRun,
+          pageUrl: activeTab?.url || "",
+          ...(typeof activeTab?.id === "number" ? { tabId: activeTab.id } : {}),
+        });
+        sendResponse({ ok: true });
+        break;
+      }
+      case "ui_list_jobs": {
+        const ok = (await ensureConnected()) && sendSessionCommand("list_jobs");
+        sendResponse({ ok });
+        break;
+      }
+      case "ui_save_job": {
+        const job = message.job && typeof message.job === "object" ? message.job : {};
+        sendResponse({ ok: sendSessionCommand("save_job", { job }) });
+        break;
+      }
+      case "ui_delete_job": {
+        sendResponse({ ok: sendSessionCommand("delete_job", { jobId: String(message.jobId || "") }) });
+        break;
+      }
+      case "ui_run_job": {
+        sendResponse({ ok: sendSessionCommand("run_job", { jobId: String(message.jobId || "") }) });
+        break;
+      }
+      case "ui_export_run": {
+        const ok = (await ensureConnected()) && sendSessionCommand("get_audit");
+        sendResponse({ ok });
+        break;
+      }
       case "ui_approval": {
-        await handleApproval(String(message.actionId || ""), message.approved === true);
+        await handleApproval(String(message.sessionId || ""), String(message.actionId || ""), message.approved === true);
         sendResponse({ ok: true, state: getPublicState() });
         break;
       }
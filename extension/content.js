@@ -2,6 +2,23 @@
   const HIGHLIGHT_BOX_ID = "__copilot_highlight_box";
   const HIGHLIGHT_LABEL_ID = "__copilot_highlight_label";
   const HUD_ID = "__copilot_hud";
+  const FORM_PREVIEW_CLASS = "__copilot_form_preview";
+  const SECRETS_STORAGE_KEY = "secrets";
+  const SECRET_PLACEHOLDER_RE = /\{\{secret:([\w.-]+)\}\}/g;
+  const SENSITIVE_AUTOCOMPLETE = new Set([
+    "current-password",
+    "new-password",
+    "one-time-code",
+    "cc-number",
+    "cc-csc",
+    "cc-exp",
+    "cc-exp-month",
+    "cc-exp-year",
+  ]);
+  // "host >>> inner" steps from a shadow host into its open shadow root.
+  const SHADOW_SEPARATOR = " >>> ";
+  const SHADOW_SPLIT_RE = /\s*>>>\s*/;
+  const SENSITIVE_NAME_RE = /passw(or)?d|passcode|\bpwd\b|\botp\b|one.?time|\bcvc\b|\bcvv\b|\bcsc\b|card.?num|cc.?num|security.?code/i;
 
   function log(...args) {
     console.log("[copilot-content]", ...args);
@@ -32,6 +49,50 @@
     return rect.width > 0 && rect.height > 0;
   }
 
+  // Password, card and one-time-code fields: their values never leave the content script.
+  function isSensitiveField(element) {
+    if (!(element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement)) {
+      return false;
+    }
+    if (element instanceof HTMLInputElement && element.type === "password") {
+      return true;
+    }
+    const autocomplete = (element.getAttribute("autocomplete") || "").toLowerCase().split(/\s+/);
+    if (autocomplete.some((token) => SENSITIVE_AUTOCOMPLETE.has(token))) {
+      return true;
+    }
+    return [element.getAttribute("name"), element.id].some((value) => value && SENSITIVE_NAME_RE.test(value));
+  }
+
+  // Secrets are kept in extension storage and only substituted here, right before typing. A secret goes only into a
+  // sensitive field on the origin it was saved for, so a page cannot have it typed somewhere it can be read back.
+  async function resolveSecrets(text, element) {
+    const names = Array.from(text.matchAll(SECRET_PLACEHOLDER_RE), (match) => match[1]);
+    if (!names.length) {
+      return { text };
+    }
+    if (!isSensitiveField(element)) {
+      return {
+        error: "SECRET_NOT_ALLOWED",
+        message: "Secrets are only typed into password, card or one-time-code fields.",
+      };
+    }
+    const stored = await chrome.storage.local.get(SECRETS_STORAGE_KEY);
+    const secrets = stored[SECRETS_STORAGE_KEY] || {};
+    const missing = names.find((name) => typeof secrets[name]?.value !== "string");
+    if (missing) {
+      return { error: "SECRET_NOT_FOUND", message: `No secret named "${missing}" is stored.` };
+    }
+    const foreign = names.find((name) => secrets[name].origin !== location.origin);
+    if (foreign) {
+      return {
+        error: "SECRET_NOT_ALLOWED",
+        message: `The secret "${foreign}" was saved for ${secrets[foreign].origin || "another site"}, not ${location.origin}.`,
+      };
+    }
+    return { text: text.replace(SECRET_PLACEHOLDER_RE, (_match, name) => secrets[name].value) };
+  }
+
   function getElementLabel(element) {
     const aria = element.getAttribute("aria-label");
     if (aria && aria.trim()) {
@@ -43,7 +104,7 @@
       return text.replace(/\s+/g, " ").slice(0, 120);
     }
 
-    const inputValue = element instanceof HTMLInputElement ? element.value : "";
+    const inputValue = element instanceof HTMLInputElement && !isSensitiveField(element) ? element.value : "";
     if (inputValue && inputValue.trim()) {
       return inputValue.trim();
     }
@@ -61,18 +122,27 @@
     return element.tagName.toLowerCase();
   }
 
-  function isUniqueSelector(selector) {
+  function isUniqueSelector(selector, root = document) {
     try {
-      return document.querySelectorAll(selector).length === 1;
+      return root.querySelectorAll(selector).length === 1;
     } catch {
       return false;
     }
   }
 
+  // Inside an open shadow root the selector is the host's selector, then one unique within that root.
   function buildSelector(element) {
+    const root = element.getRootNode();
+    if (root instanceof ShadowRoot) {
+      return `${buildSelector(root.host)}${SHADOW_SEPARATOR}${buildLocalSelector(element, root)}`;
+    }
+    return buildLocalSelector(element, document);
+  }
+
+  function buildLocalSelector(element, root) {
     if (element.id) {
       const selector = `#${cssEscape(element.id)}`;
-      if (isUniqueSelector(selector)) {
+      if (isUniqueSelector(selector, root)) {
         return selector;
       }
     }
@@ -81,7 +151,7 @@
     const name = element.getAttribute("name");
     if (name) {
       const selector = `${tag}[name="${attrEscape(name)}"]`;
-      if (isUniqueSelector(selector)) {
+      if (isUniqueSelector(selector, root)) {
         return selector;
       }
     }
@@ -89,7 +159,7 @@
     const ariaLabel = element.getAttribute("aria-label");
     if (ariaLabel) {
       const selector = `${tag}[aria-label="${attrEscape(ariaLabel)}"]`;
-      if (isUniqueSelector(selector)) {
+      if (isUniqueSelector(selector, root)) {
         return selector;
       }
     }
@@ -97,7 +167,7 @@
     const testId = element.getAttribute("data-testid") || element.getAttribute("data-test-id");
     if (testId) {
       const selector = `${tag}[data-testid="${attrEscape(testId)}"]`;
-      if (isUniqueSelector(selector)) {
+      if (isUniqueSelector(selector, root)) {
         return selector;
       }
     }
@@ -105,7 +175,7 @@
     const role = element.getAttribute("role");
     if (role) {
       const selector = `${tag}[role="${attrEscape(role)}"]`;
-      if (isUniqueSelector(selector)) {
+      if (isUniqueSelector(selector, root)) {
         return selector;
       }
     }
@@ -122,7 +192,7 @@
       const index = siblings.indexOf(current) + 1;
       segments.unshift(`${currentTag}:nth-of-type(${index})`);
       const selector = segments.join(" > ");
-      if (isUniqueSelector(selector)) {
+      if (isUniqueSelector(selector, root)) {
         return selector;
       }
       current = parent;
@@ -131,97 +201,1195 @@
     return segments.join(" > ") || tag;
   }
 
+  // querySelectorAll that also searches every open shadow root below root.
+  function deepQuerySelectorAll(selector, root = document) {
+    const found = Array.from(root.querySelectorAll(selector));
+    for (const element of root.querySelectorAll("*")) {
+      if (element.shadowRoot) {
+        found.push(...deepQuerySelectorAll(selector, element.shadowRoot));
+      }
+    }
+    return found;
+  }
+
   function normalizeText(value) {
     return String(value || "").toLowerCase().trim();
   }
 
-  function rankCandidate(element, queryText) {
-    const label = normalizeText(getElementLabel(element));
-    const role = normalizeText(element.getAttribute("role"));
-    const name = normalizeText(element.getAttribute("name"));
-    const placeholder = normalizeText(element.getAttribute("placeholder"));
-    const href = normalizeText(element.getAttribute("href"));
-    const query = normalizeText(queryText);
+  const FIND_ELEMENT_SELECTOR = [
+    "button",
+    "a[href]",
+    "input",
+    "textarea",
+    "select",
+    "summary",
+    "[role='button']",
+    "[role='link']",
+    "[role='tab']",
+    "[role='menuitem']",
+    "[role='option']",
+    "[role='checkbox']",
+    "[role='switch']",
+    "[role='radio']",
+    "[role='combobox']",
+    "[role='textbox']",
+    "[role='searchbox']",
+    "[aria-label]",
+    "[name]",
+    "[placeholder]",
+    "[contenteditable='true']",
+  ].join(",");
+  const FIND_DEFAULT_MAX_RESULTS = 8;
+  const FIND_HARD_MAX_RESULTS = 20;
+  const FIND_MIN_SCORE = 20;
+  // Candidates scoring below this share of the best one are noise next to it.
+  const FIND_RELATIVE_CUTOFF = 0.4;
 
-    if (!query) {
-      return 0;
+  // Phrases that name the same action; every phrase in a group is rewritten to the first before matching.
+  const FIND_SYNONYMS = [
+    ["login", "log in", "sign in", "signin", "log on"],
+    ["logout", "log out", "sign out", "signout", "log off"],
+    ["signup", "sign up", "register", "create account"],
+    ["search", "find", "look up", "lookup"],
+    ["cart", "basket", "shopping bag"],
+    ["checkout", "check out"],
+    ["submit", "send", "confirm"],
+    ["close", "dismiss"],
+    ["next", "continue"],
+    ["previous", "prev", "back"],
+    ["delete", "remove", "trash"],
+    ["settings", "preferences"],
+    ["email", "e mail", "email address"],
+    ["username", "user name", "user id"],
+    ["accept", "agree", "allow all"],
+  ].map((group) => group.map((phrase) => ({ re: new RegExp(`\\b${phrase}\\b`, "g"), canonical: group[0] })));
+
+  // Query words that describe the kind of control rather than its name.
+  const FIND_ROLE_WORDS = {
+    button: ["button"],
+    btn: ["button"],
+    link: ["link"],
+    box: ["textbox", "searchbox", "combobox"],
+    field: ["textbox", "searchbox", "combobox", "spinbutton"],
+    input: ["textbox", "searchbox", "combobox", "spinbutton"],
+    textbox: ["textbox", "searchbox"],
+    checkbox: ["checkbox", "switch"],
+    toggle: ["switch", "checkbox", "button"],
+    switch: ["switch", "checkbox"],
+    radio: ["radio"],
+    dropdown: ["combobox", "listbox", "button"],
+    select: ["combobox", "listbox"],
+    tab: ["tab"],
+    option: ["option"],
+  };
+
+  function canonicalText(value) {
+    // "log-in", "sign_up" and "e-mail" are spelled with spaces so the phrases below catch them.
+    let text = collapseWhitespace(String(value || "").replace(/[-_]/g, " ")).toLowerCase();
+    for (const group of FIND_SYNONYMS) {
+      for (const { re, canonical } of group) {
+        text = text.replace(re, canonical);
+      }
     }
+    return text;
+  }
 
-    let score = 0;
-    const tokens = query.split(/\s+/).filter(Boolean);
+  function stem(word) {
+    if (word.length > 4 && word.endsWith("ies")) {
+      return `${word.slice(0, -3)}y`;
+    }
+    for (const suffix of ["ing", "ed", "s"]) {
+      if (word.length - suffix.length >= 3 && word.endsWith(suffix) && !word.endsWith("ss")) {
+        return word.slice(0, -suffix.length);
+      }
+    }
+    return word;
+  }
+
+  function words(text) {
+    return text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  }
 
-    if (label.includes(query)) {
-      score += 80;
+  function editDistance(a, b) {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      }
+      previous = current;
     }
-    if (name.includes(query) || placeholder.includes(query)) {
-      score += 50;
+    return previous[b.length];
+  }
+
+  // 1 for the same stem, 0.8 when one is a prefix of the other, 0.6 for a typo-sized difference.
+  function tokenSimilarity(queryToken, token) {
+    if (queryToken === token) {
+      return 1;
     }
-    if (role.includes(query)) {
-      score += 20;
+    if (Math.min(queryToken.length, token.length) >= 3 && (token.startsWith(queryToken) || queryToken.startsWith(token))) {
+      return 0.8;
     }
-    if (href.includes(query)) {
-      score += 20;
+    const allowed = queryToken.length >= 8 ? 2 : queryToken.length >= 4 ? 1 : 0;
+    if (allowed && Math.abs(queryToken.length - token.length) <= allowed && editDistance(queryToken, token) <= allowed) {
+      return 0.6;
     }
+    return 0;
+  }
 
-    for (const token of tokens) {
-      if (label.includes(token)) {
-        score += 15;
+  function parseQuery(queryText) {
+    const roles = new Set();
+    const terms = [];
+    for (const word of words(canonicalText(queryText))) {
+      const roleWords = FIND_ROLE_WORDS[word] || FIND_ROLE_WORDS[word.replace(/e?s$/, "")];
+      if (roleWords) {
+        roleWords.forEach((role) => roles.add(role));
+      } else {
+        terms.push(word);
+      }
+    }
+    return { phrase: terms.join(" "), tokens: terms.map(stem), roles };
+  }
+
+  // Text a user might call the element by, strongest first.
+  function rankingSources(element) {
+    const imageAlt = Array.from(element.querySelectorAll("img[alt]"), (image) => image.getAttribute("alt")).join(" ");
+    return [
+      { source: "name", text: getAccessibleName(element) || getElementLabel(element), weight: 1 },
+      { source: "image alt", text: imageAlt, weight: 0.9 },
+      { source: "placeholder", text: element.getAttribute("placeholder"), weight: 0.8 },
+      { source: "title", text: element.getAttribute("title"), weight: 0.8 },
+      {
+        source: "attributes",
+        text: [element.getAttribute("name"), element.id, element.getAttribute("data-testid")].filter(Boolean).join(" "),
+        weight: 0.6,
+      },
+      { source: "href", text: element.getAttribute("href"), weight: 0.4 },
+    ]
+      .filter((source) => source.text)
+      .map((source) => {
+        const canonical = words(canonicalText(source.text)).join(" ");
+        return { ...source, canonical, tokens: words(canonical).map(stem) };
+      });
+  }
+
+  // 1 inside the viewport, falling to 0 two screen heights away.
+  function viewportProximity(element) {
+    const rect = element.getBoundingClientRect();
+    const height = window.innerHeight || 1;
+    const distance = rect.bottom < 0 ? -rect.bottom : rect.top > height ? rect.top - height : 0;
+    return Math.max(0, 1 - distance / (2 * height));
+  }
+
+  // Scores 0-100 with the reasons behind it; null when nothing in the query matches the element.
+  function scoreCandidate(element, query) {
+    const reasons = [];
+    const sources = rankingSources(element);
+    const role = getRole(element);
+    let score = 0;
+
+    const name = sources.find((source) => source.source === "name");
+    if (query.phrase && name) {
+      if (name.canonical === query.phrase) {
+        score += 45;
+        reasons.push("exact name match");
+      } else if (` ${name.canonical} `.includes(` ${query.phrase} `)) {
+        score += 30;
+        reasons.push("name contains the query");
       }
-      if (name.includes(token) || placeholder.includes(token)) {
-        score += 10;
+    }
+
+    if (query.tokens.length) {
+      const matches = [];
+      let total = 0;
+      for (const queryToken of query.tokens) {
+        let best = { similarity: 0, source: "" };
+        for (const source of sources) {
+          for (const token of source.tokens) {
+            const similarity = tokenSimilarity(queryToken, token) * source.weight;
+            if (similarity > best.similarity) {
+              best = { similarity, source: source.source };
+            }
+          }
+        }
+        total += best.similarity;
+        if (best.similarity) {
+          matches.push(`"${queryToken}" in ${best.source}${best.similarity < 0.6 ? " (weak)" : ""}`);
+        }
       }
-      if (role.includes(token)) {
-        score += 5;
+      if (!matches.length) {
+        return null;
       }
-      if (href.includes(token)) {
-        score += 5;
+      score += Math.round((45 * total) / query.tokens.length);
+      reasons.push(`matched ${matches.join(", ")}`);
+    }
+
+    if (query.roles.size) {
+      if (query.roles.has(role)) {
+        score += 15;
+        reasons.push(`role ${role}`);
+      } else if (!query.tokens.length) {
+        return null;
+      } else {
+        score -= 10;
+        reasons.push(`role ${role || "none"} is not what the query asks for`);
       }
     }
 
-    if (isVisible(element)) {
+    const proximity = viewportProximity(element);
+    if (proximity === 1) {
       score += 10;
+      reasons.push("in viewport");
+    } else if (proximity > 0) {
+      score += Math.round(10 * proximity);
+      reasons.push("near viewport");
+    }
+
+    if (element.disabled === true || element.getAttribute("aria-disabled") === "true") {
+      score -= 15;
+      reasons.push("disabled");
+    }
+
+    return { score: Math.max(0, Math.min(100, score)), reasons };
+  }
+
+  function findCandidates(queryText, maxResultsValue) {
+    const query = parseQuery(queryText);
+    if (!query.tokens.length && !query.roles.size) {
+      return { candidates: [] };
+    }
+    const requested = Number(maxResultsValue) || FIND_DEFAULT_MAX_RESULTS;
+    const maxResults = Math.max(1, Math.min(requested, FIND_HARD_MAX_RESULTS));
+
+    const scored = deepQuerySelectorAll(FIND_ELEMENT_SELECTOR)
+      .filter((element) => element instanceof HTMLElement && isVisible(element))
+      .map((element) => ({ element, ...scoreCandidate(element, query) }))
+      .filter((item) => item.score >= FIND_MIN_SCORE)
+      .sort((a, b) => b.score - a.score);
+    const cutoff = (scored[0]?.score || 0) * FIND_RELATIVE_CUTOFF;
+    const ranked = scored.filter((item) => item.score >= cutoff).slice(0, maxResults);
+
+    // The background merges candidates from every frame by score and prefixes the frame to their selectors.
+    const frameOrigin = window.top === window ? "" : ` [frame ${window.location.origin}]`;
+    const candidates = ranked.map((item, index) => {
+      const label = (getAccessibleName(item.element) || getElementLabel(item.element)).slice(0, 120);
+      const role = getRole(item.element);
+      return {
+        id: `cand-${index + 1}`,
+        label: `${label}${frameOrigin}`,
+        selector: buildSelector(item.element),
+        ...(role ? { role } : {}),
+        score: item.score,
+        reasons: item.reasons,
+        fingerprint: fingerprintOf(item.element),
+        ...(isSensitiveField(item.element) ? { sensitive: true } : {}),
+      };
+    });
+
+    return { candidates };
+  }
+
+  const FINGERPRINT_ATTRIBUTES = ["id", "name", "type", "href", "placeholder", "aria-label", "data-testid", "title"];
+  // An element at the selector at least this alike is still the one browser.find returned.
+  const FINGERPRINT_MATCH = 0.75;
+  // Re-location needs a match at least this alike, and this far ahead of the runner-up.
+  const FINGERPRINT_RELOCATE_MIN = 0.6;
+  const FINGERPRINT_MARGIN = 0.05;
+  const FINGERPRINT_POSITION_RANGE = 500;
+  const FINGERPRINT_ROW_SELECTOR = "tr, li, article, [role='row'], [role='listitem'], [role='article']";
+  const FINGERPRINT_CONTEXT_DEPTH = 6;
+
+  // The repeated item (table row, list item, card) the element sits in, or the element itself.
+  function rowOf(element) {
+    return element.parentElement?.closest(FINGERPRINT_ROW_SELECTOR) ?? element;
+  }
+
+  // Text of the enclosing row, labelled container or nearest heading, which tells look-alikes apart
+  // (e.g. the Delete button of each row).
+  function contextOf(element) {
+    const row = rowOf(element);
+    if (row !== element) {
+      return collapseWhitespace(row.innerText || row.textContent).slice(0, 120);
+    }
+    let node = element.parentElement;
+    for (let depth = 0; node && depth < FINGERPRINT_CONTEXT_DEPTH; depth += 1, node = node.parentElement) {
+      const label = node.getAttribute("aria-label") || (node.matches("fieldset") ? node.querySelector("legend")?.textContent : "");
+      if (label) {
+        return collapseWhitespace(label).slice(0, 120);
+      }
+      const heading = Array.from(node.querySelectorAll("h1, h2, h3, h4, h5, h6, [role='heading']")).find(
+        (candidate) => !candidate.contains(element),
+      );
+      if (heading) {
+        return collapseWhitespace(heading.textContent).slice(0, 120);
+      }
+    }
+    return "";
+  }
+
+  function siblingIndexOf(element) {
+    const row = rowOf(element);
+    let index = 0;
+    for (let sibling = row.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+      if (sibling.tagName === row.tagName) {
+        index += 1;
+      }
+    }
+    return index;
+  }
+
+  // What browser.find saw, so a later action can tell whether its selector still points at the same element.
+  function fingerprintOf(element) {
+    const rect = element.getBoundingClientRect();
+    const attributes = {};
+    for (const name of FINGERPRINT_ATTRIBUTES) {
+      const value = element.getAttribute(name);
+      if (value) {
+        attributes[name] = value.slice(0, 200);
+      }
+    }
+    return {
+      tag: element.tagName.toLowerCase(),
+      role: getRole(element),
+      name: getAccessibleName(element).slice(0, 120),
+      text: isSensitiveField(element) ? "" : collapseWhitespace(element.innerText || element.textContent).slice(0, 120),
+      attributes,
+      position: { x: Math.round(rect.left + window.scrollX), y: Math.round(rect.top + window.scrollY) },
+      context: contextOf(element),
+      index: siblingIndexOf(element),
+    };
+  }
+
+  // 0-1 likeness to a fingerprint. Role, name, text and attributes decide; position only separates look-alikes,
+  // since a re-render often shifts the layout.
+  function fingerprintSimilarity(element, fingerprint) {
+    const current = fingerprintOf(element);
+    if (current.tag !== fingerprint.tag) {
+      return 0;
+    }
+    let score = 0;
+    let total = 0;
+    const compare = (weight, same) => {
+      total += weight;
+      score += same ? weight : 0;
+    };
+    compare(2, current.role === fingerprint.role);
+    compare(4, current.name === fingerprint.name);
+    compare(2, current.text === fingerprint.text);
+    for (const [name, value] of Object.entries(fingerprint.attributes || {})) {
+      compare(name === "id" || name === "data-testid" ? 2 : 1, current.attributes[name] === value);
+    }
+    if (typeof fingerprint.context === "string") {
+      compare(2, current.context === fingerprint.context);
+      compare(1, current.index === fingerprint.index);
+    }
+    const position = fingerprint.position || current.position;
+    const distance = Math.hypot(current.position.x - position.x, current.position.y - position.y);
+    total += 1;
+    score += Math.max(0, 1 - distance / FINGERPRINT_POSITION_RANGE);
+    return score / total;
+  }
+
+  // Checks the selector against the fingerprint and, when the page re-rendered, re-locates the element.
+  // Returns the selector to act on and the outcome, or a failure when nothing or several elements match.
+  function healTarget(selector, fingerprint) {
+    const matches = deepQuerySelectorAll(cssEscape(String(fingerprint.tag || "*")))
+      .filter((element) => element instanceof HTMLElement && isVisible(element))
+      .map((element) => ({ element, similarity: fingerprintSimilarity(element, fingerprint) }))
+      .filter((match) => match.similarity >= FINGERPRINT_RELOCATE_MIN)
+      .sort((a, b) => b.similarity - a.similarity);
+
+    // With look-alikes on the page (one button per row), a shifted list can put a different row's twin at the
+    // selector, so the row context and index must agree as well.
+    const current = getTarget(selector);
+    if (current instanceof HTMLElement && fingerprintSimilarity(current, fingerprint) >= FINGERPRINT_MATCH) {
+      const lookAlikes = matches.some((match) => match.element !== current);
+      const place = fingerprintOf(current);
+      const samePlace =
+        typeof fingerprint.context !== "string" ||
+        (place.context === fingerprint.context && place.index === fingerprint.index);
+      if (!lookAlikes || samePlace) {
+        return { selector, target: { resolution: "verified", selector } };
+      }
+    }
+
+    // Never move over to a look-alike in another row; when its own row is gone, the action fails instead.
+    const candidates = fingerprint.context
+      ? matches.filter((match) => fingerprintOf(match.element).context === fingerprint.context)
+      : matches;
+    const described = fingerprint.name ? `"${fingerprint.name}"` : `the ${fingerprint.tag} element`;
+    if (!candidates.length) {
+      return {
+        error: { ok: false, error: "STALE_ELEMENT", message: `${selector} no longer points at ${described}, and no element like it was found.` },
+      };
+    }
+    if (candidates.length > 1 && candidates[0].similarity - candidates[1].similarity < FINGERPRINT_MARGIN) {
+      return {
+        error: {
+          ok: false,
+          error: "AMBIGUOUS_TARGET",
+          message: `${selector} no longer points at ${described}, and ${candidates.length} elements now look like it.`,
+        },
+      };
+    }
+
+    const relocated = buildSelector(candidates[0].element);
+    return {
+      selector: relocated,
+      target: {
+        resolution: "relocated",
+        selector: relocated,
+        previousSelector: selector,
+        similarity: Math.round(candidates[0].similarity * 100) / 100,
+      },
+    };
+  }
+
+  const READ_BLOCK_SELECTOR = "h1,h2,h3,h4,h5,h6,p,li,dt,dd,th,td,blockquote,pre,figcaption";
+  const READ_BOILERPLATE_SELECTOR = [
+    "script",
+    "style",
+    "noscript",
+    "template",
+    "svg",
+    "nav",
+    "header",
+    "footer",
+    "aside",
+    "form",
+    "[role='navigation']",
+    "[role='banner']",
+    "[role='contentinfo']",
+    "[role='complementary']",
+    "[role='search']",
+    "[aria-hidden='true']",
+    "[hidden]",
+  ].join(",");
+  const READ_DEFAULT_MAX_CHARS = 12000;
+  const READ_HARD_MAX_CHARS = 40000;
+  const READ_CHUNK_CHARS = 1500;
+
+  function collapseWhitespace(value) {
+    return String(value || "").replace(/\s+/g, " ").trim();
+  }
+
+  function pickReadRoot(scopeSelector) {
+    if (scopeSelector) {
+      return getTarget(scopeSelector);
+    }
+
+    const candidates = Array.from(document.querySelectorAll("main, [role='main'], article"))
+      .filter((element) => element instanceof HTMLElement && isVisible(element))
+      .map((element) => ({ element, length: (element.innerText || "").length }))
+      .sort((a, b) => b.length - a.length);
+
+    if (candidates.length && candidates[0].length > 200) {
+      return candidates[0].element;
+    }
+    return document.body;
+  }
+
+  function isBoilerplate(element, root) {
+    const match = element.closest(READ_BOILERPLATE_SELECTOR);
+    // A scope that is itself inside a header/nav should still be readable.
+    return Boolean(match && root.contains(match) && match !== root);
+  }
+
+  function collectHeadings(root) {
+    return Array.from(root.querySelectorAll("h1,h2,h3,h4,h5,h6"))
+      .filter((element) => isVisible(element) && !isBoilerplate(element, root))
+      .map((element) => ({
+        level: Number(element.tagName.slice(1)),
+        text: collapseWhitespace(element.innerText || element.textContent).slice(0, 200),
+      }))
+      .filter((heading) => heading.text)
+      .slice(0, 60);
+  }
+
+  function collectTextBlocks(root) {
+    const blocks = Array.from(root.querySelectorAll(READ_BLOCK_SELECTOR))
+      .filter((element) => element instanceof HTMLElement)
+      .filter((element) => !element.querySelector(READ_BLOCK_SELECTOR))
+      .filter((element) => isVisible(element) && !isBoilerplate(element, root))
+      .map((element) => collapseWhitespace(element.innerText || element.textContent))
+      .filter(Boolean);
+
+    const total = blocks.reduce((sum, text) => sum + text.length, 0);
+    if (total >= 200) {
+      return blocks;
+    }
+
+    // Div-only layouts have no semantic blocks; fall back to rendered lines.
+    return String(root.innerText || "")
+      .split(/\n+/)
+      .map(collapseWhitespace)
+      .filter(Boolean);
+  }
+
+  function chunkBlocks(blocks, maxChars) {
+    const chunks = [];
+    let current = "";
+    let used = 0;
+    let truncated = false;
+
+    for (const block of blocks) {
+      if (used + block.length > maxChars) {
+        const remaining = maxChars - used;
+        if (remaining > 80) {
+          current += (current ? "\n" : "") + block.slice(0, remaining);
+          used += remaining;
+        }
+        truncated = true;
+        break;
+      }
+
+      if (current && current.length + block.length + 1 > READ_CHUNK_CHARS) {
+        chunks.push(current);
+        current = "";
+      }
+      current += (current ? "\n" : "") + block;
+      used += block.length;
+    }
+
+    if (current) {
+      chunks.push(current);
+    }
+
+    return { chunks, totalChars: used, truncated };
+  }
+
+  function readPage(scopeSelector, maxCharsValue) {
+    const root = pickReadRoot(scopeSelector);
+    if (!root || !(root instanceof HTMLElement)) {
+      return null;
+    }
+
+    const requested = Number(maxCharsValue) || READ_DEFAULT_MAX_CHARS;
+    const maxChars = Math.max(500, Math.min(requested, READ_HARD_MAX_CHARS));
+    const { chunks, totalChars, truncated } = chunkBlocks(collectTextBlocks(root), maxChars);
+
+    return {
+      title: document.title || "",
+      url: window.location.href,
+      scope: scopeSelector || (root === document.body ? "body" : buildSelector(root)),
+      headings: collectHeadings(root),
+      chunks,
+      totalChars,
+      truncated,
+    };
+  }
+
+  const EXTRACT_DEFAULT_MAX_ITEMS = 100;
+  const EXTRACT_HARD_MAX_ITEMS = 500;
+  const EXTRACT_SCAN_LIMIT = 5000;
+  const EXTRACT_CURRENCY_RE = /[$€£¥₹]|\b(?:USD|EUR|GBP|JPY|INR)\b/i;
+  const EXTRACT_NEXT_RE = /^(?:next|next page|older|more results|›|»|→)$/i;
+  const EXTRACT_LOAD_MORE_RE = /\b(?:load|show|see|view) more\b/i;
+
+  function parseNumber(text) {
+    const match = String(text || "").match(/-?\d(?:[\d.,]|\s(?=\d{3}(?!\d)))*/);
+    if (!match) {
+      return null;
+    }
+    let raw = match[0].replace(/\s/g, "").replace(/[.,]$/, "");
+    const lastComma = raw.lastIndexOf(",");
+    const lastDot = raw.lastIndexOf(".");
+    if (lastComma > -1 && lastDot > -1) {
+      // Whichever separator comes last is the decimal point.
+      raw = lastComma > lastDot ? raw.replace(/\./g, "").replace(",", ".") : raw.replace(/,/g, "");
+    } else if (lastComma > -1) {
+      raw = /,\d{3}$/.test(raw) ? raw.replace(/,/g, "") : raw.replace(",", ".");
+    }
+    const value = Number(raw);
+    return Number.isFinite(value) ? value : null;
+  }
+
+  function parseBoolean(text, element) {
+    const state = element ? readChecked(element) : null;
+    if (state !== null) {
+      return state;
+    }
+    const value = normalizeText(text);
+    if (/^(?:yes|true|on|✓|✔|available|in stock)$/.test(value)) return true;
+    if (/^(?:no|false|off|✗|✕|unavailable|out of stock|sold out)$/.test(value)) return false;
+    return null;
+  }
+
+  function urlOf(element) {
+    const link = element.matches("a[href]") ? element : element.querySelector("a[href]");
+    if (link) {
+      return link.href;
+    }
+    const image = element.matches("img[src]") ? element : element.querySelector("img[src]");
+    return image ? image.currentSrc || image.src : null;
+  }
+
+  function coerceValue(element, type) {
+    if (!element) {
+      return null;
+    }
+    const text = collapseWhitespace(element.innerText || element.textContent || element.getAttribute("content") || "");
+    if (type === "url") return urlOf(element);
+    if (type === "number") return parseNumber(text);
+    if (type === "boolean") return parseBoolean(text, element);
+    return text || null;
+  }
+
+  function itemSignature(element) {
+    const classes = Array.from(element.classList)
+      .filter((name) => !/\d/.test(name))
+      .sort();
+    return [element.tagName.toLowerCase(), ...classes].join(".");
+  }
+
+  // Repeated items are the largest group of same-shaped siblings, weighted by how much text they carry.
+  function findRepeatedItems(root) {
+    const parents = [root, ...Array.from(root.querySelectorAll("*")).slice(0, EXTRACT_SCAN_LIMIT)];
+    let best = null;
+
+    for (const parent of parents) {
+      if (parent.children.length < 2 || isBoilerplate(parent, root)) {
+        continue;
+      }
+      const groups = new Map();
+      for (const child of parent.children) {
+        if (!(child instanceof HTMLElement) || child.tagName === "THEAD" || !isVisible(child)) {
+          continue;
+        }
+        const signature = itemSignature(child);
+        groups.set(signature, [...(groups.get(signature) || []), child]);
+      }
+      for (const [signature, items] of groups) {
+        if (items.length < 2) {
+          continue;
+        }
+        const avgText = items.reduce((sum, item) => sum + (item.innerText || "").trim().length, 0) / items.length;
+        if (avgText < 2) {
+          continue;
+        }
+        const score = items.length * Math.min(avgText, 200);
+        if (!best || score > best.score) {
+          best = { parent, signature, items, score };
+        }
+      }
+    }
+    return best;
+  }
+
+  function tableHeaders(items) {
+    const table = items[0].closest("table");
+    const headerRow = table?.tHead?.rows[0] || (items[0].parentElement?.rows?.[0]?.querySelector("th") ? items[0].parentElement.rows[0] : null);
+    return headerRow ? Array.from(headerRow.cells).map((cell) => collapseWhitespace(cell.innerText || "")) : [];
+  }
+
+  function findFieldElement(item, field, headers) {
+    if (field.selector) {
+      return item.querySelector(field.selector);
+    }
+
+    if (item instanceof HTMLTableRowElement && headers.length) {
+      const ranked = headers
+        .map((header, index) => ({ index, score: scoreField(field.name, [normalizeText(header)]) }))
+        .sort((a, b) => b.score - a.score);
+      if (ranked[0] && ranked[0].score >= 40) {
+        return item.cells[ranked[0].index] || null;
+      }
+    }
+
+    const descendants = [item, ...Array.from(item.querySelectorAll("*")).slice(0, 300)];
+    let best = null;
+    for (const element of descendants) {
+      const descriptors = [
+        ...Array.from(element.classList),
+        element.getAttribute("itemprop"),
+        element.getAttribute("data-testid"),
+        element.getAttribute("aria-label"),
+        element.getAttribute("name"),
+      ]
+        .map((value) => normalizeText(String(value || "").replace(/[-_]+/g, " ")))
+        .filter(Boolean);
+      const score = descriptors.length ? scoreField(field.name, descriptors) : 0;
+      if (score >= 40 && (!best || score > best.score)) {
+        best = { element, score };
+      }
+    }
+    if (best) {
+      return best.element;
+    }
+
+    // Fall back to the usual shape of listing cards.
+    const name = normalizeText(field.name);
+    if (field.type === "url") {
+      return item.querySelector("a[href]") || (item.matches("a[href]") ? item : null);
+    }
+    if (/title|name|heading|headline/.test(name)) {
+      return item.querySelector("h1,h2,h3,h4,h5,h6") || item.querySelector("a[href]");
+    }
+    if (field.type === "number" || /price|cost|amount|total/.test(name)) {
+      return (
+        Array.from(item.querySelectorAll("*")).find(
+          (element) => element.children.length === 0 && EXTRACT_CURRENCY_RE.test(element.textContent || ""),
+        ) || null
+      );
+    }
+    return null;
+  }
+
+  function paginationHints() {
+    const controls = Array.from(document.querySelectorAll("a[href], button, [role='button'], [role='link']")).filter(
+      (element) => element instanceof HTMLElement && isVisible(element),
+    );
+    const relNext = document.querySelector("a[rel~='next'], link[rel~='next']");
+    const next =
+      relNext ||
+      controls.find(
+        (element) =>
+          EXTRACT_NEXT_RE.test(collapseWhitespace(element.innerText || "")) ||
+          /^next/i.test(element.getAttribute("aria-label") || ""),
+      );
+    const loadMore = controls.find((element) => EXTRACT_LOAD_MORE_RE.test(element.innerText || ""));
+
+    const hints = { hasMore: Boolean(next || loadMore) };
+    if (next?.href) hints.nextUrl = next.href;
+    if (next instanceof HTMLElement && next.tagName !== "LINK") hints.nextSelector = buildSelector(next);
+    if (loadMore) hints.loadMoreSelector = buildSelector(loadMore);
+    return hints;
+  }
+
+  function extractData(scopeSelector, fields, maxItemsValue) {
+    const root = scopeSelector ? getTarget(scopeSelector) : pickReadRoot("");
+    if (!root || !(root instanceof HTMLElement)) {
+      return null;
+    }
+
+    const requested = Number(maxItemsValue) || EXTRACT_DEFAULT_MAX_ITEMS;
+    const maxItems = Math.max(1, Math.min(requested, EXTRACT_HARD_MAX_ITEMS));
+    const group = findRepeatedItems(root);
+    const items = group ? group.items.filter((item) => !item.querySelector("th") || item.querySelector("td")) : [];
+    const headers = items.length && items[0] instanceof HTMLTableRowElement ? tableHeaders(items) : [];
+
+    const records = [];
+    for (const item of items) {
+      if (records.length >= maxItems) {
+        break;
+      }
+      const record = {};
+      for (const field of fields) {
+        record[field.name] = coerceValue(findFieldElement(item, field, headers), field.type);
+      }
+      if (Object.values(record).some((value) => value !== null)) {
+        records.push(record);
+      }
+    }
+
+    return {
+      title: document.title || "",
+      url: window.location.href,
+      container: scopeSelector || (root === document.body ? "body" : buildSelector(root)),
+      itemSelector: group ? `${buildSelector(group.parent)} > ${group.signature.split(".").map(cssEscape).join(".")}` : "",
+      fields,
+      records,
+      itemCount: items.length,
+      truncated: items.length > records.length && records.length >= maxItems,
+      pagination: paginationHints(),
+    };
+  }
+
+  const SNAPSHOT_DEFAULT_MAX_NODES = 250;
+  const SNAPSHOT_HARD_MAX_NODES = 600;
+  const SNAPSHOT_NAME_MAX = 80;
+  const INTERACTIVE_ROLES = new Set([
+    "button",
+    "link",
+    "textbox",
+    "searchbox",
+    "checkbox",
+    "radio",
+    "switch",
+    "combobox",
+    "listbox",
+    "option",
+    "slider",
+    "spinbutton",
+    "tab",
+    "menuitem",
+    "menuitemcheckbox",
+    "menuitemradio",
+    "treeitem",
+  ]);
+  const STRUCTURAL_ROLES = new Set([
+    "heading",
+    "img",
+    "main",
+    "navigation",
+    "banner",
+    "contentinfo",
+    "complementary",
+    "search",
+    "form",
+    "region",
+    "dialog",
+    "alertdialog",
+    "alert",
+    "tablist",
+    "tabpanel",
+    "menu",
+    "menubar",
+    "tree",
+    "table",
+  ]);
+
+  const refRegistry = {
+    byRef: new Map(),
+    byElement: new WeakMap(),
+    next: 1,
+  };
+
+  function refFor(element) {
+    const existing = refRegistry.byElement.get(element);
+    if (existing) {
+      return existing;
+    }
+    const ref = `e${refRegistry.next++}`;
+    refRegistry.byElement.set(element, ref);
+    refRegistry.byRef.set(ref, new WeakRef(element));
+    return ref;
+  }
+
+  function elementForRef(ref) {
+    const element = refRegistry.byRef.get(ref)?.deref();
+    if (!element || !element.isConnected) {
+      refRegistry.byRef.delete(ref);
+      return null;
+    }
+    return element;
+  }
+
+  function getImplicitRole(element) {
+    const tag = element.tagName.toLowerCase();
+    switch (tag) {
+      case "a":
+      case "area":
+        return element.hasAttribute("href") ? "link" : "";
+      case "button":
+      case "summary":
+        return "button";
+      case "input": {
+        const type = (element.getAttribute("type") || "text").toLowerCase();
+        if (type === "hidden") return "";
+        if (type === "checkbox") return "checkbox";
+        if (type === "radio") return "radio";
+        if (type === "range") return "slider";
+        if (type === "number") return "spinbutton";
+        if (type === "search") return "searchbox";
+        if (["button", "submit", "reset", "image"].includes(type)) return "button";
+        return "textbox";
+      }
+      case "textarea":
+        return "textbox";
+      case "select":
+        return element.multiple || element.size > 1 ? "listbox" : "combobox";
+      case "option":
+        return "option";
+      case "h1":
+      case "h2":
+      case "h3":
+      case "h4":
+      case "h5":
+      case "h6":
+        return "heading";
+      case "img":
+        return element.getAttribute("alt") === "" ? "" : "img";
+      case "nav":
+        return "navigation";
+      case "main":
+        return "main";
+      case "header":
+        return element.closest("article, aside, main, nav, section") ? "" : "banner";
+      case "footer":
+        return element.closest("article, aside, main, nav, section") ? "" : "contentinfo";
+      case "aside":
+        return "complementary";
+      case "form":
+        return "form";
+      case "section":
+        return element.hasAttribute("aria-label") || element.hasAttribute("aria-labelledby") ? "region" : "";
+      case "dialog":
+        return "dialog";
+      case "table":
+        return "table";
+      default:
+        return element.isContentEditable && element.getAttribute("contenteditable") !== null ? "textbox" : "";
+    }
+  }
+
+  function getRole(element) {
+    const explicit = (element.getAttribute("role") || "").trim().split(/\s+/)[0];
+    return explicit || getImplicitRole(element);
+  }
+
+  function textOfIds(ids, root = document) {
+    return ids
+      .split(/\s+/)
+      .map((id) => root.getElementById(id))
+      .filter(Boolean)
+      .map((node) => collapseWhitespace(node.innerText || node.textContent))
+      .join(" ");
+  }
+
+  function getAccessibleName(element) {
+    const labelledBy = element.getAttribute("aria-labelledby");
+    if (labelledBy) {
+      const root = element.getRootNode();
+      const text = textOfIds(labelledBy, root instanceof ShadowRoot ? root : document);
+      if (text) return text;
+    }
+
+    const aria = collapseWhitespace(element.getAttribute("aria-label"));
+    if (aria) return aria;
+
+    if (element.labels && element.labels.length) {
+      const text = Array.from(element.labels)
+        .map((label) => collapseWhitespace(label.innerText || label.textContent))
+        .filter(Boolean)
+        .join(" ");
+      if (text) return text;
+    }
+
+    if (element instanceof HTMLImageElement || element instanceof HTMLAreaElement) {
+      const alt = collapseWhitespace(element.getAttribute("alt"));
+      if (alt) return alt;
+    }
+
+    if (element instanceof HTMLInputElement && ["button", "submit", "reset"].includes(element.type)) {
+      const value = collapseWhitespace(element.value);
+      if (value) return value;
+    }
+
+    const role = getRole(element);
+    if (!(element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement)) {
+      if (INTERACTIVE_ROLES.has(role) || role === "heading" || role === "dialog") {
+        const text = collapseWhitespace(element.innerText || element.textContent);
+        if (text) return text;
+      }
+    }
+
+    const title = collapseWhitespace(element.getAttribute("title"));
+    if (title) return title;
+
+    return collapseWhitespace(element.getAttribute("placeholder"));
+  }
+
+  function getStates(element, role) {
+    const states = [];
+    const ariaChecked = element.getAttribute("aria-checked");
+    if (element instanceof HTMLInputElement && (element.type === "checkbox" || element.type === "radio")) {
+      states.push(element.indeterminate ? "mixed" : element.checked ? "checked" : "unchecked");
+    } else if (ariaChecked === "true" || ariaChecked === "false" || ariaChecked === "mixed") {
+      states.push(ariaChecked === "true" ? "checked" : ariaChecked === "mixed" ? "mixed" : "unchecked");
+    }
+
+    if (element.disabled === true || element.getAttribute("aria-disabled") === "true") {
+      states.push("disabled");
+    }
+
+    const expanded = element.getAttribute("aria-expanded");
+    if (expanded === "true" || expanded === "false") {
+      states.push(expanded === "true" ? "expanded" : "collapsed");
+    } else if (element instanceof HTMLDetailsElement || (role === "button" && element.tagName === "SUMMARY")) {
+      const details = element instanceof HTMLDetailsElement ? element : element.parentElement;
+      if (details instanceof HTMLDetailsElement) {
+        states.push(details.open ? "expanded" : "collapsed");
+      }
+    }
+
+    if (element.getAttribute("aria-selected") === "true" || (element instanceof HTMLOptionElement && element.selected)) {
+      states.push("selected");
+    }
+    if (element.getAttribute("aria-pressed") === "true") {
+      states.push("pressed");
+    }
+    if (element.required === true || element.getAttribute("aria-required") === "true") {
+      states.push("required");
+    }
+    if (isSensitiveField(element)) {
+      states.push("sensitive");
+    }
+    return states;
+  }
+
+  function isPrunedSubtree(element) {
+    return element.hidden || element.getAttribute("aria-hidden") === "true" || element.tagName === "SCRIPT" || element.tagName === "STYLE";
+  }
+
+  function snapshotPage(scopeSelector, maxNodesValue) {
+    const root = scopeSelector ? getTarget(scopeSelector) : document.body;
+    if (!root || !(root instanceof HTMLElement)) {
+      return null;
+    }
+
+    const requested = Number(maxNodesValue) || SNAPSHOT_DEFAULT_MAX_NODES;
+    const maxNodes = Math.max(20, Math.min(requested, SNAPSHOT_HARD_MAX_NODES));
+    let count = 0;
+    let truncated = false;
+
+    const walk = (element, into) => {
+      // Open shadow roots are walked ahead of the light-DOM children they usually slot in.
+      const childElements = [...Array.from(element.shadowRoot?.children ?? []), ...Array.from(element.children)];
+      for (const child of childElements) {
+        if (count >= maxNodes) {
+          truncated = true;
+          return;
+        }
+        if (!(child instanceof HTMLElement) || isPrunedSubtree(child)) {
+          continue;
+        }
+
+        const role = getRole(child);
+        const include = (INTERACTIVE_ROLES.has(role) || STRUCTURAL_ROLES.has(role)) && isVisible(child);
+        if (!include) {
+          walk(child, into);
+          continue;
+        }
+
+        const node = { ref: refFor(child), role, name: getAccessibleName(child).slice(0, SNAPSHOT_NAME_MAX) };
+        const states = getStates(child, role);
+        if (states.length) {
+          node.states = states;
+        }
+        if (role === "heading") {
+          const level = Number(child.getAttribute("aria-level")) || Number(child.tagName.slice(1)) || undefined;
+          if (level) node.level = level;
+        }
+        count++;
+
+        // Leaf controls carry their name already; only containers need children.
+        if (!INTERACTIVE_ROLES.has(role) || role === "listbox" || role === "combobox") {
+          const children = [];
+          walk(child, children);
+          if (children.length) {
+            node.children = children;
+          }
+        }
+        into.push(node);
+      }
+    };
+
+    const nodes = [];
+    walk(root, nodes);
+
+    return {
+      title: document.title || "",
+      url: window.location.href,
+      nodes,
+      nodeCount: count,
+      truncated,
+    };
+  }
+
+  const WAIT_POLL_MS = 100;
+
+  function checkWaitCondition(condition, lastMutationAt) {
+    switch (condition.kind) {
+      case "selector_visible": {
+        const target = getTarget(condition.selector);
+        return Boolean(target && isVisible(target));
+      }
+      case "selector_hidden": {
+        const target = getTarget(condition.selector);
+        return !target || !isVisible(target);
+      }
+      case "text": {
+        const haystack = String(document.body?.innerText || "").toLowerCase();
+        return haystack.includes(String(condition.text || "").toLowerCase());
+      }
+      case "dom_idle":
+        return Date.now() - lastMutationAt >= (Number(condition.idleMs) || 500);
+      default:
+        return false;
     }
-
-    return score;
   }
 
-  function findCandidates(query) {
-    const selector = [
-      "button",
-      "a[href]",
-      "a[role='button']",
-      "input",
-      "textarea",
-      "select",
-      "[role='button']",
-      "[aria-label]",
-      "[name]",
-      "[placeholder]",
-      "[contenteditable='true']",
-    ].join(",");
+  function waitForCondition(condition, timeoutMs) {
+    return new Promise((resolve) => {
+      const startedAt = Date.now();
+      let lastMutationAt = startedAt;
+      let mutations = 0;
 
-    const elements = Array.from(document.querySelectorAll(selector));
-    const ranked = elements
-      .filter((element) => element instanceof HTMLElement)
-      .filter((element) => isVisible(element))
-      .map((element) => ({
-        element,
-        score: rankCandidate(element, query),
-      }))
-      .filter((item) => item.score > 0)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 8);
+      const observer = new MutationObserver((records) => {
+        mutations += records.length;
+        lastMutationAt = Date.now();
+      });
+      observer.observe(document.documentElement, {
+        subtree: true,
+        childList: true,
+        attributes: true,
+        characterData: true,
+      });
 
-    const candidates = ranked.map((item, index) => {
-      const label = getElementLabel(item.element);
-      return {
-        id: `cand-${index + 1}`,
-        label,
-        selector: buildSelector(item.element),
+      const finish = (satisfied) => {
+        clearInterval(poll);
+        observer.disconnect();
+        resolve({
+          satisfied,
+          condition: condition.kind,
+          elapsedMs: Date.now() - startedAt,
+          url: window.location.href,
+          mutations,
+        });
       };
+
+      const poll = setInterval(() => {
+        if (checkWaitCondition(condition, lastMutationAt)) {
+          finish(true);
+        } else if (Date.now() - startedAt >= timeoutMs) {
+          finish(false);
+        }
+      }, WAIT_POLL_MS);
     });
+  }
 
-    return { candidates };
+  // Viewport rectangle for screenshot cropping, either of the current highlight box or of a target element.
+  function captureRect(message) {
+    let element = null;
+    if (message.highlight) {
+      const box = document.getElementById(HIGHLIGHT_BOX_ID);
+      element = box && box.style.display !== "none" ? box : null;
+    } else {
+      element = resolveTarget(message);
+      if (element instanceof HTMLElement) {
+        element.scrollIntoView({ block: "center", inline: "nearest", behavior: "instant" });
+      }
+    }
+    if (!(element instanceof HTMLElement)) {
+      return null;
+    }
+
+    const rect = element.getBoundingClientRect();
+    const left = Math.max(0, rect.left);
+    const top = Math.max(0, rect.top);
+    const right = Math.min(window.innerWidth, rect.right);
+    const bottom = Math.min(window.innerHeight, rect.bottom);
+    if (right <= left || bottom <= top) {
+      return null;
+    }
+    return {
+      x: left,
+      y: top,
+      width: right - left,
+      height: bottom - top,
+      viewportWidth: window.innerWidth,
+      viewportHeight: window.innerHeight,
+      label: element.id === HIGHLIGHT_BOX_ID ? "highlight" : getElementLabel(element),
+    };
+  }
+
+  function resolveTarget(message) {
+    const ref = String(message.ref || "");
+    if (ref) {
+      return elementForRef(ref);
+    }
+    return getTarget(String(message.selector || ""));
   }
 
   function getTarget(selector) {
@@ -230,12 +1398,57 @@
     }
 
     try {
-      return document.querySelector(selector);
+      const segments = selector.split(SHADOW_SPLIT_RE);
+      if (segments.length === 1) {
+        // A plain selector still reaches into shadow roots when nothing in the document matches.
+        return document.querySelector(selector) || deepQuerySelectorAll(selector)[0] || null;
+      }
+      let scope = document;
+      let element = null;
+      for (const segment of segments) {
+        element = scope?.querySelector(segment) ?? null;
+        if (!element) {
+          return null;
+        }
+        scope = element.shadowRoot;
+      }
+      return element;
     } catch {
       return null;
     }
   }
 
+  function isValidSelector(selector) {
+    const fragment = document.createDocumentFragment();
+    try {
+      selector.split(SHADOW_SPLIT_RE).forEach((segment) => fragment.querySelector(segment));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Explains an empty resolveTarget. Refs are numbered in order, so a lower number than the next
+  // one to be issued was handed out earlier and its element has since gone away.
+  function targetFailure(message) {
+    const ref = String(message.ref || "");
+    if (ref) {
+      const issued = /^e\d+$/.test(ref) && Number(ref.slice(1)) < refRegistry.next;
+      return issued
+        ? { ok: false, error: "STALE_ELEMENT", message: `Element ${ref} is no longer on the page.` }
+        : { ok: false, error: "NOT_FOUND", message: `Unknown ref ${ref}.` };
+    }
+    const selector = String(message.selector || "");
+    if (selector && !isValidSelector(selector)) {
+      return { ok: false, error: "INVALID_SELECTOR", message: `"${selector}" is not a valid CSS selector.` };
+    }
+    return { ok: false, error: "NOT_FOUND", message: selector ? `No element matches ${selector}.` : "No target given." };
+  }
+
+  function notVisible(target) {
+    return { ok: false, error: "NOT_VISIBLE", message: `${getElementLabel(target) || target.tagName.toLowerCase()} is not visible.` };
+  }
+
   function ensureHighlightElements() {
     let box = document.getElementById(HIGHLIGHT_BOX_ID);
     if (!box) {
@@ -318,14 +1531,11 @@
 
   function typeIntoElement(element, text) {
     if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
-      element.focus();
-      const proto = element instanceof HTMLInputElement ? HTMLInputElement.prototype : HTMLTextAreaElement.prototype;
-      const nativeSetter = Object.getOwnPropertyDescriptor(proto, "value")?.set;
-      if (nativeSetter) {
-        nativeSetter.call(element, text);
-      } else {
-        element.value = text;
+      if (element.disabled || element.readOnly) {
+        return false;
       }
+      element.focus();
+      setNativeValue(element, text);
       element.dispatchEvent(new Event("input", { bubbles: true }));
       element.dispatchEvent(new Event("change", { bubbles: true }));
       return true;
@@ -341,9 +1551,514 @@
     return false;
   }
 
+  function setNativeValue(element, value) {
+    const proto = element instanceof HTMLInputElement ? HTMLInputElement.prototype : HTMLTextAreaElement.prototype;
+    const nativeSetter = Object.getOwnPropertyDescriptor(proto, "value")?.set;
+    if (nativeSetter) {
+      nativeSetter.call(element, value);
+    } else {
+      element.value = value;
+    }
+  }
+
+  function elementCenter(element) {
+    const rect = element.getBoundingClientRect();
+    return { clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2 };
+  }
+
+  function dispatchPointer(element, type, init = {}) {
+    const options = { bubbles: true, cancelable: true, composed: true, view: window, ...elementCenter(element), ...init };
+    const EventCtor = type.startsWith("pointer") && typeof PointerEvent === "function" ? PointerEvent : MouseEvent;
+    return element.dispatchEvent(new EventCtor(type, options));
+  }
+
+  function hoverElement(element) {
+    for (const type of ["pointerover", "pointerenter", "mouseover", "mouseenter", "pointermove", "mousemove"]) {
+      const bubbles = type !== "pointerenter" && type !== "mouseenter";
+      dispatchPointer(element, type, { bubbles });
+    }
+  }
+
+  // Mirrors the order a real mouse click produces; the final click() triggers native default actions.
+  function pointerClick(element) {
+    hoverElement(element);
+    dispatchPointer(element, "pointerdown", { button: 0, buttons: 1 });
+    dispatchPointer(element, "mousedown", { button: 0, buttons: 1 });
+    if (typeof element.focus === "function") {
+      element.focus({ preventScroll: true });
+    }
+    dispatchPointer(element, "pointerup", { button: 0 });
+    dispatchPointer(element, "mouseup", { button: 0 });
+    element.click();
+  }
+
+  function selectOption(element, message) {
+    if (!(element instanceof HTMLSelectElement)) {
+      return null;
+    }
+
+    const options = Array.from(element.options);
+    const value = message.value === undefined ? null : String(message.value);
+    const label = normalizeText(message.label);
+    const index = Number.isInteger(message.index) ? message.index : null;
+    const option =
+      (value !== null && options.find((opt) => opt.value === value)) ||
+      (label && options.find((opt) => normalizeText(opt.label || opt.text) === label)) ||
+      (label && options.find((opt) => normalizeText(opt.label || opt.text).includes(label))) ||
+      (index !== null && options[index]) ||
+      null;
+    if (!option || option.disabled) {
+      return null;
+    }
+
+    element.focus();
+    dispatchPointer(element, "mousedown", { button: 0, buttons: 1 });
+    if (element.multiple) {
+      option.selected = true;
+    } else {
+      element.selectedIndex = option.index;
+    }
+    dispatchPointer(element, "mouseup", { button: 0 });
+    element.dispatchEvent(new Event("input", { bubbles: true }));
+    element.dispatchEvent(new Event("change", { bubbles: true }));
+    return { ok: true, value: option.value, label: collapseWhitespace(option.label || option.text) };
+  }
+
+  // Builds a File from the backend's base64 payload and attaches it the way the file picker would.
+  function attachFile(input, file) {
+    const bytes = Uint8Array.from(atob(file.data), (char) => char.charCodeAt(0));
+    const transfer = new DataTransfer();
+    if (input.multiple) {
+      Array.from(input.files || []).forEach((existing) => transfer.items.add(existing));
+    }
+    transfer.items.add(new File([bytes], String(file.name || "upload"), { type: String(file.mimeType || "") }));
+    input.files = transfer.files;
+    input.dispatchEvent(new Event("input", { bubbles: true }));
+    input.dispatchEvent(new Event("change", { bubbles: true }));
+    return { ok: true, name: String(file.name || "upload"), size: bytes.length, fileCount: input.files.length };
+  }
+
+  function readChecked(element) {
+    if (element instanceof HTMLInputElement && (element.type === "checkbox" || element.type === "radio")) {
+      return element.checked;
+    }
+    const aria = element.getAttribute("aria-checked") ?? element.getAttribute("aria-pressed");
+    if (aria === "true" || aria === "false") {
+      return aria === "true";
+    }
+    return null;
+  }
+
+  function setChecked(element, checked) {
+    const current = readChecked(element);
+    if (current === null) {
+      return null;
+    }
+    if (current === checked) {
+      return { ok: true, checked, changed: false };
+    }
+    if (!checked && element instanceof HTMLInputElement && element.type === "radio") {
+      // Radios can only be unchecked by choosing another option in the group.
+      return null;
+    }
+
+    pointerClick(element);
+    const after = readChecked(element);
+    return { ok: after === checked, checked: after, changed: after !== current };
+  }
+
+  const KEY_CODES = {
+    Enter: "Enter",
+    Tab: "Tab",
+    Escape: "Escape",
+    Backspace: "Backspace",
+    Delete: "Delete",
+    ArrowUp: "ArrowUp",
+    ArrowDown: "ArrowDown",
+    ArrowLeft: "ArrowLeft",
+    ArrowRight: "ArrowRight",
+    Home: "Home",
+    End: "End",
+    PageUp: "PageUp",
+    PageDown: "PageDown",
+    " ": "Space",
+  };
+
+  function keyboardInit(key, modifiers) {
+    const code = KEY_CODES[key] || (key.length === 1 && /[a-z]/i.test(key) ? `Key${key.toUpperCase()}` : key.length === 1 && /[0-9]/.test(key) ? `Digit${key}` : key);
+    return {
+      key,
+      code,
+      bubbles: true,
+      cancelable: true,
+      composed: true,
+      shiftKey: modifiers.includes("Shift"),
+      ctrlKey: modifiers.includes("Control"),
+      altKey: modifiers.includes("Alt"),
+      metaKey: modifiers.includes("Meta"),
+    };
+  }
+
+  function isTextField(element) {
+    return (
+      element instanceof HTMLTextAreaElement ||
+      (element instanceof HTMLInputElement && !["checkbox", "radio", "button", "submit", "reset", "file", "image"].includes(element.type))
+    );
+  }
+
+  // Synthetic key events never trigger browser default actions, so the common ones are emulated.
+  function applyKeyDefault(element, key, init) {
+    const hasModifier = init.ctrlKey || init.altKey || init.metaKey;
+    if (key === "Enter" && !hasModifier) {
+      if (element instanceof HTMLInputElement && element.form && isTextField(element)) {
+        element.form.requestSubmit();
+        return "submitted form";
+      }
+      if (element instanceof HTMLButtonElement || element instanceof HTMLAnchorElement) {
+        element.click();
+        return "activated element";
+      }
+      if (element instanceof HTMLTextAreaElement) {
+        setNativeValue(element, `${element.value}\n`);
+        element.dispatchEvent(new InputEvent("input", { bubbles: true, inputType: "insertLineBreak" }));
+        return "inserted line break";
+      }
+      return "";
+    }
+
+    if (key === "Backspace" && isTextField(element) && !hasModifier) {
+      setNativeValue(element, element.value.slice(0, -1));
+      element.dispatchEvent(new InputEvent("input", { bubbles: true, inputType: "deleteContentBackward" }));
+      return "deleted character";
+    }
+
+    if (key.length === 1 && !hasModifier && isTextField(element)) {
+      setNativeValue(element, `${element.value}${key}`);
+      element.dispatchEvent(new InputEvent("input", { bubbles: true, inputType: "insertText", data: key }));
+      return "inserted text";
+    }
+
+    if (key === "Tab" && !hasModifier) {
+      const focusable = Array.from(
+        document.querySelectorAll("a[href], button, input, select, textarea, [tabindex]:not([tabindex='-1'])"),
+      ).filter((candidate) => candidate instanceof HTMLElement && !candidate.disabled && isVisible(candidate));
+      const index = focusable.indexOf(element);
+      const next = focusable[(index + (init.shiftKey ? -1 : 1) + focusable.length) % focusable.length];
+      if (next) {
+        next.focus();
+        return "moved focus";
+      }
+    }
+
+    return "";
+  }
+
+  function pressKey(element, key, modifiers) {
+    const init = keyboardInit(key, modifiers);
+    if (typeof element.focus === "function" && document.activeElement !== element) {
+      element.focus();
+    }
+
+    const proceed = element.dispatchEvent(new KeyboardEvent("keydown", init));
+    let effect = "";
+    if (proceed) {
+      if (key.length === 1 || key === "Enter") {
+        element.dispatchEvent(new KeyboardEvent("keypress", init));
+      }
+      effect = applyKeyDefault(element, key, init);
+    }
+    element.dispatchEvent(new KeyboardEvent("keyup", init));
+    return { ok: true, key, defaultPrevented: !proceed, effect };
+  }
+
+  function scrollPage(target, direction, amountValue) {
+    const container = target || document.scrollingElement || document.documentElement;
+    if (target && !direction) {
+      target.scrollIntoView({ block: "center", inline: "nearest", behavior: "instant" });
+    } else {
+      const pageX = container === document.scrollingElement ? window.innerWidth : container.clientWidth;
+      const pageY = container === document.scrollingElement ? window.innerHeight : container.clientHeight;
+      const amount = Number(amountValue) || 0;
+      const dy = amount || Math.round(pageY * 0.85);
+      const dx = amount || Math.round(pageX * 0.85);
+      switch (direction) {
+        case "up":
+          container.scrollBy({ top: -dy, behavior: "instant" });
+          break;
+        case "left":
+          container.scrollBy({ left: -dx, behavior: "instant" });
+          break;
+        case "right":
+          container.scrollBy({ left: dx, behavior: "instant" });
+          break;
+        case "top":
+          container.scrollTo({ top: 0, behavior: "instant" });
+          break;
+        case "bottom":
+          container.scrollTo({ top: container.scrollHeight, behavior: "instant" });
+          break;
+        default:
+          container.scrollBy({ top: dy, behavior: "instant" });
+      }
+      container.dispatchEvent(new Event("scroll", { bubbles: container !== document.scrollingElement }));
+    }
+
+    const scroller = document.scrollingElement || document.documentElement;
+    const measured = target && direction ? target : scroller;
+    return {
+      ok: true,
+      scrollX: Math.round(measured.scrollLeft),
+      scrollY: Math.round(measured.scrollTop),
+      scrollHeight: measured.scrollHeight,
+      atTop: measured.scrollTop <= 0,
+      atBottom: Math.ceil(measured.scrollTop + measured.clientHeight) >= measured.scrollHeight,
+    };
+  }
+
+  const FORM_CONTROL_SELECTOR = [
+    "input:not([type='hidden']):not([type='submit']):not([type='button']):not([type='reset']):not([type='image']):not([type='file'])",
+    "textarea",
+    "select",
+    "[contenteditable='true']",
+    "[role='textbox']",
+    "[role='combobox']",
+    "[role='checkbox']",
+    "[role='switch']",
+  ].join(",");
+
+  function tokenize(value) {
+    return normalizeText(value)
+      .replace(/[^a-z0-9]+/g, " ")
+      .split(" ")
+      .filter(Boolean);
+  }
+
+  function fieldKind(element) {
+    if (element instanceof HTMLSelectElement) return "select";
+    if (element instanceof HTMLInputElement && element.type === "checkbox") return "checkbox";
+    if (element instanceof HTMLInputElement && element.type === "radio") return "radio";
+    const role = element.getAttribute("role");
+    if (role === "checkbox" || role === "switch") return "checkbox";
+    return "text";
+  }
+
+  function controlDescriptors(element) {
+    return [
+      getAccessibleName(element),
+      element.getAttribute("name"),
+      element.id,
+      element.getAttribute("placeholder"),
+      element.getAttribute("autocomplete"),
+    ]
+      .map((value) => normalizeText(value))
+      .filter(Boolean);
+  }
+
+  function scoreField(description, descriptors) {
+    const wanted = normalizeText(description);
+    const wantedTokens = tokenize(description);
+    let best = 0;
+    for (const descriptor of descriptors) {
+      if (descriptor === wanted) {
+        return 100;
+      }
+      const tokens = tokenize(descriptor);
+      const overlap = wantedTokens.filter((token) => tokens.some((t) => t === token || t.startsWith(token) || token.startsWith(t)));
+      const score = wantedTokens.length ? Math.round((overlap.length / wantedTokens.length) * 80) : 0;
+      best = Math.max(best, descriptor.includes(wanted) ? Math.max(score, 70) : score);
+    }
+    return best;
+  }
+
+  function pickFormRoot(scopeSelector) {
+    if (scopeSelector) {
+      const root = getTarget(scopeSelector);
+      return root instanceof HTMLElement ? { root } : { error: "Form scope selector did not match an element." };
+    }
+    const forms = Array.from(document.forms).filter(
+      (form) => isVisible(form) && form.querySelector(FORM_CONTROL_SELECTOR),
+    );
+    if (forms.length > 1) {
+      return { error: `Found ${forms.length} forms on the page; pass a selector for the form to fill.` };
+    }
+    return { root: forms[0] || document.body };
+  }
+
+  // Radio groups resolve to the option whose label or value matches the requested value.
+  function resolveRadioOption(radio, value) {
+    const group = radio.name
+      ? Array.from((radio.form || document).querySelectorAll(`input[type='radio'][name="${attrEscape(radio.name)}"]`))
+      : [radio];
+    const wanted = normalizeText(value);
+    return (
+      group.find((option) => normalizeText(option.value) === wanted) ||
+      group.find((option) => normalizeText(getAccessibleName(option)) === wanted) ||
+      group.find((option) => normalizeText(getAccessibleName(option)).includes(wanted)) ||
+      null
+    );
+  }
+
+  function previewFormFill(scopeSelector, fields) {
+    const picked = pickFormRoot(scopeSelector);
+    if (picked.error) {
+      return { scope: scopeSelector || "", fields: [], error: picked.error };
+    }
+
+    const root = picked.root;
+    const controls = Array.from(root.querySelectorAll(FORM_CONTROL_SELECTOR)).filter(
+      (element) => element instanceof HTMLElement && isVisible(element) && !element.disabled,
+    );
+    const described = controls.map((element) => ({ element, descriptors: controlDescriptors(element) }));
+
+    const previews = fields.map(({ field, value }) => {
+      const ranked = described
+        .map((item) => ({ element: item.element, score: scoreField(field, item.descriptors) }))
+        .filter((item) => item.score >= 40)
+        .sort((a, b) => b.score - a.score);
+
+      if (!ranked.length) {
+        return { field, value, status: "not_found" };
+      }
+
+      let top = ranked[0];
+      const tied = ranked.filter((item) => item.score === top.score);
+      const distinctTied = new Set(
+        tied.map((item) => (item.element instanceof HTMLInputElement && item.element.type === "radio" ? `radio:${item.element.name}` : item.element)),
+      );
+      if (distinctTied.size > 1) {
+        return {
+          field,
+          value,
+          status: "ambiguous",
+          candidates: tied.slice(0, 5).map((item) => getAccessibleName(item.element) || buildSelector(item.element)),
+        };
+      }
+
+      const kind = fieldKind(top.element);
+      let element = top.element;
+      if (kind === "radio") {
+        element = resolveRadioOption(top.element, value);
+        if (!element) {
+          return { field, value, status: "not_found", kind };
+        }
+      }
+      return {
+        field,
+        value,
+        status: "resolved",
+        ref: refFor(element),
+        label: getAccessibleName(element),
+        kind,
+        element,
+        ...(isSensitiveField(element) ? { sensitive: true } : {}),
+      };
+    });
+
+    // A control claimed by two fields is a conflict, like multiple unresolved candidates.
+    const claims = new Map();
+    for (const preview of previews) {
+      if (preview.element) {
+        claims.set(preview.element, (claims.get(preview.element) || 0) + 1);
+      }
+    }
+    for (const preview of previews) {
+      if (preview.element && claims.get(preview.element) > 1) {
+        preview.status = "conflict";
+      }
+    }
+
+    clearFormPreview();
+    previews.forEach((preview, index) => {
+      if (preview.status === "resolved") {
+        addFormPreviewBox(preview.element, `${index + 1}. ${preview.field}`);
+      }
+    });
+    if (previews[0]?.element) {
+      previews[0].element.scrollIntoView({ block: "center", inline: "nearest", behavior: "smooth" });
+    }
+
+    return {
+      scope: scopeSelector || (root === document.body ? "body" : buildSelector(root)),
+      fields: previews.map(({ element: _element, ...rest }) => rest),
+    };
+  }
+
+  async function fillFormFields(fields) {
+    const results = [];
+    for (const { field, ref, kind, value } of fields) {
+      results.push(await fillFormField(field, ref, kind, value));
+    }
+
+    clearFormPreview();
+    return { fields: results };
+  }
+
+  async function fillFormField(field, ref, kind, rawValue) {
+    const element = elementForRef(String(ref || ""));
+    if (!element || !(element instanceof HTMLElement)) {
+      return { field, ok: false, error: "STALE_ELEMENT" };
+    }
+    const sensitive = isSensitiveField(element) ? { sensitive: true } : {};
+    const resolved = await resolveSecrets(String(rawValue), element);
+    if (resolved.error) {
+      return { field, ok: false, error: resolved.error, ...sensitive };
+    }
+    const value = resolved.text;
+
+    let ok = false;
+    let error = "NOT_FOUND";
+    if (kind === "select") {
+      ok = Boolean(selectOption(element, { value, label: value })?.ok);
+    } else if (kind === "checkbox") {
+      const wanted = !/^(false|no|off|0|unchecked)$/i.test(String(value).trim());
+      ok = Boolean(setChecked(element, wanted)?.ok);
+    } else if (kind === "radio") {
+      ok = Boolean(setChecked(element, true)?.ok);
+    } else {
+      ok = typeIntoElement(element, value);
+      error = "NOT_EDITABLE";
+    }
+    return ok ? { field, ok, ...sensitive } : { field, ok, error, ...sensitive };
+  }
+
+  function addFormPreviewBox(element, text) {
+    const rect = element.getBoundingClientRect();
+    const box = document.createElement("div");
+    box.className = FORM_PREVIEW_CLASS;
+    box.style.position = "absolute";
+    box.style.zIndex = "2147483646";
+    box.style.pointerEvents = "none";
+    box.style.border = "2px dashed #ff8a00";
+    box.style.borderRadius = "4px";
+    box.style.boxSizing = "border-box";
+    box.style.left = `${rect.left + window.scrollX - 3}px`;
+    box.style.top = `${rect.top + window.scrollY - 3}px`;
+    box.style.width = `${rect.width + 6}px`;
+    box.style.height = `${rect.height + 6}px`;
+
+    const tag = document.createElement("div");
+    tag.textContent = text;
+    tag.style.position = "absolute";
+    tag.style.left = "0";
+    tag.style.top = "-20px";
+    tag.style.background = "#ff8a00";
+    tag.style.color = "#111";
+    tag.style.font = "11px/1.4 ui-sans-serif, -apple-system, Segoe UI, sans-serif";
+    tag.style.padding = "1px 6px";
+    tag.style.borderRadius = "999px";
+    tag.style.whiteSpace = "nowrap";
+    box.appendChild(tag);
+
+    document.documentElement.appendChild(box);
+  }
+
+  function clearFormPreview() {
+    document.querySelectorAll(`.${FORM_PREVIEW_CLASS}`).forEach((node) => node.remove());
+  }
+
   async function handleToolMessage(message) {
     if (!message || message.kind !== "copilot_tool") {
-      return { ok: false, error: "EXTENSION_NOT_READY" };
+      return { ok: false, error: "INTERNAL_ERROR" };
     }
 
     try {
@@ -354,15 +2069,62 @@
 
       if (message.action === "find") {
         const query = String(message.query || "");
-        const result = findCandidates(query);
+        const result = findCandidates(query, message.maxResults);
         return { ok: true, data: result };
       }
 
-      if (message.action === "highlight") {
+      if (message.action === "read_page") {
+        const selector = String(message.selector || "");
+        const result = readPage(selector, message.maxChars);
+        if (!result) {
+          return targetFailure({ selector });
+        }
+        return { ok: true, data: result };
+      }
+
+      if (message.action === "capture_rect") {
+        const result = captureRect(message);
+        if (!result) {
+          if (message.highlight) {
+            return { ok: false, error: "NOT_FOUND", message: "Nothing is highlighted." };
+          }
+          const target = resolveTarget(message);
+          return target instanceof HTMLElement ? notVisible(target) : targetFailure(message);
+        }
+        return { ok: true, data: result };
+      }
+
+      if (message.action === "extract") {
+        const fields = Array.isArray(message.fields) ? message.fields : [];
+        const result = extractData(String(message.selector || ""), fields, message.maxItems);
+        if (!result) {
+          return targetFailure(message);
+        }
+        return { ok: true, data: result };
+      }
+
+      if (message.action === "snapshot") {
         const selector = String(message.selector || "");
-        const target = getTarget(selector);
+        const result = snapshotPage(selector, message.maxNodes);
+        if (!result) {
+          return targetFailure({ selector });
+        }
+        return { ok: true, data: result };
+      }
+
+      if (message.action === "wait") {
+        const condition = message.condition;
+        if (!condition || typeof condition.kind !== "string") {
+          return { ok: false, error: "INVALID_ARGUMENT", message: "No wait condition given." };
+        }
+        const result = await waitForCondition(condition, Number(message.timeoutMs) || 10000);
+        return { ok: true, data: result };
+      }
+
+      if (message.action === "highlight") {
+        const target = resolveTarget(message);
         if (!target || !(target instanceof HTMLElement)) {
-          return { ok: false, error: "NOT_FOUND" };
+          return targetFailure(message);
         }
         target.scrollIntoView({ block: "center", inline: "center", behavior: "smooth" });
         highlightElement(target, String(message.label || ""));
@@ -370,45 +2132,181 @@
       }
 
       if (message.action === "click") {
-        const selector = String(message.selector || "");
-        const target = getTarget(selector);
+        const target = resolveTarget(message);
         if (!target || !(target instanceof HTMLElement)) {
-          return { ok: false, error: "NOT_FOUND" };
+          return targetFailure(message);
         }
         if (!isVisible(target)) {
-          return { ok: false, error: "NOT_FOUND" };
+          return notVisible(target);
         }
         target.scrollIntoView({ block: "center", inline: "center", behavior: "smooth" });
         highlightElement(target, "click target");
-        target.click();
+        pointerClick(target);
         return { ok: true, data: { ok: true } };
       }
 
       if (message.action === "type") {
-        const selector = String(message.selector || "");
-        const text = String(message.text || "");
-        const target = getTarget(selector);
+        const target = resolveTarget(message);
         if (!target || !(target instanceof HTMLElement)) {
-          return { ok: false, error: "NOT_FOUND" };
+          return targetFailure(message);
+        }
+        const resolved = await resolveSecrets(String(message.text || ""), target);
+        if (resolved.error) {
+          return { ok: false, error: resolved.error, message: resolved.message };
         }
+        const text = resolved.text;
         target.scrollIntoView({ block: "center", inline: "center", behavior: "smooth" });
         highlightElement(target, "type target");
         const typed = typeIntoElement(target, text);
         if (!typed) {
-          return { ok: false, error: "NOT_FOUND" };
+          return { ok: false, error: "NOT_EDITABLE", message: "The target is not an enabled text field." };
+        }
+        return { ok: true, data: { ok: true, ...(isSensitiveField(target) ? { sensitive: true } : {}) } };
+      }
+
+      if (message.action === "fill_form_preview") {
+        const fields = Array.isArray(message.fields) ? message.fields : [];
+        return { ok: true, data: previewFormFill(String(message.selector || ""), fields) };
+      }
+
+      if (message.action === "clear_form_preview") {
+        clearFormPreview();
+        return { ok: true };
+      }
+
+      if (message.action === "fill_form") {
+        const fields = Array.isArray(message.fields) ? message.fields : [];
+        return { ok: true, data: await fillFormFields(fields) };
+      }
+
+      if (message.action === "select_option") {
+        const target = resolveTarget(message);
+        if (!target || !(target instanceof HTMLElement)) {
+          return targetFailure(message);
+        }
+        if (!isVisible(target)) {
+          return notVisible(target);
+        }
+        target.scrollIntoView({ block: "center", inline: "center", behavior: "smooth" });
+        if (!(target instanceof HTMLSelectElement)) {
+          return { ok: false, error: "NOT_EDITABLE", message: "The target is not a <select> element." };
+        }
+        highlightElement(target, "select target");
+        const result = selectOption(target, message);
+        if (!result) {
+          return { ok: false, error: "NOT_FOUND", message: "No enabled option matches the value, label or index." };
+        }
+        return { ok: true, data: result };
+      }
+
+      if (message.action === "set_checked") {
+        const target = resolveTarget(message);
+        if (!target || !(target instanceof HTMLElement)) {
+          return targetFailure(message);
+        }
+        if (!isVisible(target)) {
+          return notVisible(target);
         }
+        target.scrollIntoView({ block: "center", inline: "center", behavior: "smooth" });
+        if (readChecked(target) === null) {
+          return { ok: false, error: "NOT_EDITABLE", message: "The target is not a checkbox, radio or switch." };
+        }
+        highlightElement(target, "check target");
+        const result = setChecked(target, message.checked === true);
+        if (!result) {
+          return { ok: false, error: "INVALID_ARGUMENT", message: "A radio button is unchecked by choosing another option in its group." };
+        }
+        return { ok: true, data: result };
+      }
+
+      if (message.action === "upload") {
+        const target = resolveTarget(message);
+        if (!target || !(target instanceof HTMLElement)) {
+          return targetFailure(message);
+        }
+        // File inputs are often hidden behind a styled button, so visibility is not required.
+        if (!(target instanceof HTMLInputElement) || target.type !== "file" || target.disabled) {
+          return { ok: false, error: "NOT_EDITABLE", message: "The target is not an enabled <input type=file>." };
+        }
+        if (!message.file || typeof message.file.data !== "string") {
+          return { ok: false, error: "INVALID_ARGUMENT", message: "No file given." };
+        }
+        if (isVisible(target)) {
+          highlightElement(target, "upload target");
+        }
+        return { ok: true, data: attachFile(target, message.file) };
+      }
+
+      if (message.action === "press_key") {
+        const key = String(message.key || "");
+        const modifiers = Array.isArray(message.modifiers) ? message.modifiers.map(String) : [];
+        const hasTarget = Boolean(message.selector || message.ref);
+        const target = hasTarget ? resolveTarget(message) : document.activeElement || document.body;
+        if (!key) {
+          return { ok: false, error: "INVALID_ARGUMENT", message: "No key given." };
+        }
+        if (!target || !(target instanceof HTMLElement)) {
+          return targetFailure(message);
+        }
+        if (hasTarget) {
+          highlightElement(target, `key ${key}`);
+        }
+        return { ok: true, data: pressKey(target, key, modifiers) };
+      }
+
+      if (message.action === "hover") {
+        const target = resolveTarget(message);
+        if (!target || !(target instanceof HTMLElement)) {
+          return targetFailure(message);
+        }
+        if (!isVisible(target)) {
+          return notVisible(target);
+        }
+        target.scrollIntoView({ block: "center", inline: "center", behavior: "instant" });
+        highlightElement(target, "hover target");
+        hoverElement(target);
         return { ok: true, data: { ok: true } };
       }
 
-      return { ok: false, error: "EXTENSION_NOT_READY" };
+      if (message.action === "scroll") {
+        const hasTarget = Boolean(message.selector || message.ref);
+        const target = hasTarget ? resolveTarget(message) : null;
+        if (hasTarget && (!target || !(target instanceof HTMLElement))) {
+          return targetFailure(message);
+        }
+        return { ok: true, data: scrollPage(target, String(message.direction || ""), message.amount) };
+      }
+
+      return { ok: false, error: "INTERNAL_ERROR", message: `Unknown action ${message.action}.` };
     } catch (error) {
       log("Tool handling failed", error);
-      return { ok: false, error: "EXTENSION_NOT_READY" };
+      // querySelector throws a SyntaxError DOMException for malformed selectors anywhere below.
+      if (error?.name === "SyntaxError") {
+        return { ok: false, error: "INVALID_SELECTOR", message: String(error.message || error) };
+      }
+      // The action may have run partly, so this must not be retried.
+      return { ok: false, error: "INTERNAL_ERROR", message: String(error?.message || error) };
+    }
+  }
+
+  // Actions on a browser.find selector carry that element's fingerprint and run on the healed selector.
+  async function handleTargetedMessage(message) {
+    if (!message?.fingerprint || typeof message.fingerprint !== "object" || !message.selector || message.ref) {
+      return handleToolMessage(message);
+    }
+    const healed = healTarget(String(message.selector), message.fingerprint);
+    if (healed.error) {
+      return healed.error;
+    }
+    const response = await handleToolMessage({ ...message, selector: healed.selector });
+    if (!response.ok) {
+      return response;
     }
+    return { ...response, data: { ...(response.data || { ok: true }), target: healed.target } };
   }
 
   chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
-    handleToolMessage(message).then(sendResponse);
+    handleTargetedMessage(message).then(sendResponse);
     return true;
   });
 
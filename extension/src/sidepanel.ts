@@ -7,9 +7,11 @@ const tokenInputEl = document.getElementById("tokenInput") as HTMLInputElement;
 const connectBtnEl = document.getElementById("connectBtn") as HTMLButtonElement;
 const stopBtnEl = document.getElementById("stopBtn") as HTMLButtonElement;
 const autoRunToggleEl = document.getElementById("autoRunToggle") as HTMLInputElement;
-const approvalLabelEl = document.getElementById("approvalLabel") as HTMLElement;
-const approveBtnEl = document.getElementById("approveBtn") as HTMLButtonElement;
-const rejectBtnEl = document.getElementById("rejectBtn") as HTMLButtonElement;
+const stepModeToggleEl = document.getElementById("stepModeToggle") as HTMLInputElement;
+const modelSelectEl = document.getElementById("modelSelect") as HTMLSelectElement;
+const modelStatusEl = document.getElementById("modelStatus") as HTMLElement;
+const approvalEmptyEl = document.getElementById("approvalEmpty") as HTMLElement;
+const approvalListEl = document.getElementById("approvalList") as HTMLElement;
 const composerEl = document.getElementById("composer") as HTMLFormElement;
 const messageInputEl = document.getElementById("messageInput") as HTMLInputElement;
 const sendBtnEl = document.getElementById("sendBtn") as HTMLButtonElement;
@@ -17,14 +19,89 @@ const sendLabelEl = document.getElementById("sendLabel") as HTMLElement;
 const sendSpinnerEl = document.getElementById("sendSpinner") as HTMLElement;
 const controlsDetailsEl = document.getElementById("controlsDetails") as HTMLDetailsElement;
 const quickActionsEl = document.getElementById("quickActions") as HTMLElement;
+const historyDetailsEl = document.getElementById("historyDetails") as HTMLDetailsElement;
+const historyListEl = document.getElementById("historyList") as HTMLElement;
+const newChatBtnEl = document.getElementById("newChatBtn") as HTMLButtonElement;
+const exportRunBtnEl = document.getElementById("exportRunBtn") as HTMLButtonElement;
+const policySummaryEl = document.getElementById("policySummary") as HTMLElement;
+const secretListEl = document.getElementById("secretList") as HTMLUListElement;
+const secretFormEl = document.getElementById("secretForm") as HTMLFormElement;
+const secretNameInputEl = document.getElementById("secretNameInput") as HTMLInputElement;
+const secretValueInputEl = document.getElementById("secretValueInput") as HTMLInputElement;
+const policyViewEl = document.getElementById("policyView") as HTMLElement;
+const jobsDetailsEl = document.getElementById("jobsDetails") as HTMLDetailsElement;
+const jobListEl = document.getElementById("jobList") as HTMLUListElement;
+const jobFormEl = document.getElementById("jobForm") as HTMLFormElement;
+const jobNameInputEl = document.getElementById("jobNameInput") as HTMLInputElement;
+const jobTaskSelectEl = document.getElementById("jobTaskSelect") as HTMLSelectElement;
+const jobPromptInputEl = document.getElementById("jobPromptInput") as HTMLInputElement;
+const jobScheduleInputEl = document.getElementById("jobScheduleInput") as HTMLInputElement;
+const jobApprovalSelectEl = document.getElementById("jobApprovalSelect") as HTMLSelectElement;
+const jobSessionToggleEl = document.getElementById("jobSessionToggle") as HTMLInputElement;
+
+interface PolicyInfo {
+  source: string | null;
+  loadedAt: string;
+  error?: string;
+  policy: Record<string, unknown>;
+}
+
+interface HistoryEntry {
+  at: string;
+  kind: "user" | "assistant" | "step" | "tool";
+  text: string;
+}
+
+interface HistorySummary {
+  sessionId: string;
+  title: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+type ExtractValue = string | number | boolean | null;
+
+interface ExtractResult {
+  title: string;
+  url: string;
+  fields: Array<{ name: string; type: string }>;
+  records: Array<Record<string, ExtractValue>>;
+  itemCount: number;
+  truncated: boolean;
+  pagination: { hasMore: boolean };
+}
+
+interface PlanItem {
+  id: string;
+  text: string;
+  status: "pending" | "active" | "done" | "failed" | "skipped";
+  note?: string;
+}
+
+interface ApprovalField {
+  field: string;
+  label: string;
+  value: string;
+}
+
+interface PendingAction {
+  sessionId: string;
+  actionId: string;
+  label: string;
+  reason?: string;
+  fields?: ApprovalField[];
+  borrowed?: boolean;
+}
 
 interface UiState {
   sessionId: string;
   token: string;
   autoRun: boolean;
+  stepMode: boolean;
   connected: boolean;
   connecting: boolean;
-  pendingAction: { actionId: string; label: string } | null;
+  pendingActions: PendingAction[];
+  policy: PolicyInfo | null;
 }
 
 interface QuickAction {
@@ -33,13 +110,53 @@ interface QuickAction {
   prompt: string;
 }
 
+interface ModelOption {
+  id: string;
+  name: string;
+  vision: boolean;
+}
+
+interface StoredSecret {
+  name: string;
+  origin: string;
+}
+
+interface Macro {
+  name: string;
+  params: Array<{ name: string; defaultValue: string; required?: boolean }>;
+  steps: Array<{ label: string }>;
+}
+
+type JobTask = { kind: "prompt"; text: string } | { kind: "macro"; name: string };
+
+interface ScheduledJob {
+  id: string;
+  name: string;
+  schedule: string;
+  task: JobTask;
+  sessionId: string;
+  approvalMode: "ask" | "auto_run" | "deny";
+  enabled: boolean;
+  nextRunAt: string | null;
+  running?: boolean;
+  lastRun?: {
+    startedAt: string;
+    finishedAt: string;
+    status: "completed" | "failed" | "cancelled";
+    output: string;
+    changed: boolean;
+  };
+}
+
 const uiState: UiState = {
   sessionId: "",
   token: "",
   autoRun: false,
+  stepMode: false,
   connected: false,
   connecting: false,
-  pendingAction: null,
+  pendingActions: [],
+  policy: null,
 };
 
 // Message types for dynamic rendering
@@ -96,6 +213,33 @@ function appendActivityStep(text: string): void {
   transcriptEl.scrollTop = transcriptEl.scrollHeight;
 }
 
+// Shows what the agent saw; click toggles between thumbnail and full width.
+function appendActivityImage(label: string, mimeType: string, data: string): void {
+  getOrCreateActivityCard();
+  const figure = document.createElement("figure");
+  figure.className = "pl-4 my-0.5";
+
+  const img = document.createElement("img");
+  img.src = `data:${mimeType};base64,${data}`;
+  img.alt = label;
+  img.title = label;
+  img.className = "max-h-28 max-w-full rounded border border-gh-border cursor-zoom-in";
+  img.addEventListener("click", () => {
+    const expanded = img.classList.toggle("max-h-none");
+    img.classList.toggle("max-h-28", !expanded);
+    img.classList.toggle("cursor-zoom-out", expanded);
+    img.classList.toggle("cursor-zoom-in", !expanded);
+  });
+
+  const caption = document.createElement("figcaption");
+  caption.className = "text-[10px] text-gh-muted mt-0.5";
+  caption.textContent = label;
+
+  figure.append(img, caption);
+  activityStepsEl!.appendChild(figure);
+  transcriptEl.scrollTop = transcriptEl.scrollHeight;
+}
+
 function collapseActivityCard(stepCount: number): void {
   if (!activityCardEl) return;
 
@@ -119,7 +263,131 @@ function collapseActivityCard(stepCount: number): void {
   activityStepCount = 0;
 }
 
+// ── Plan checklist ───────────────────────────────────────────────────────────
+
+const PLAN_STATUS_ICONS: Record<PlanItem["status"], string> = {
+  pending: "○",
+  active: "◐",
+  done: "✓",
+  failed: "✗",
+  skipped: "–",
+};
+
+const PLAN_STATUS_CLASSES: Record<PlanItem["status"], string> = {
+  pending: "text-gh-muted",
+  active: "text-gh-blue",
+  done: "text-gh-green",
+  failed: "text-gh-red",
+  skipped: "text-gh-muted",
+};
+
+let planCardEl: HTMLElement | null = null;
+let planItems: PlanItem[] = [];
+
+// Items not started yet stay editable; every edit sends the full list of pending items back.
+function sendPlanEdit(items: PlanItem[], added: string[] = []): void {
+  const pending = items.filter((item) => item.status === "pending").map((item) => ({ id: item.id, text: item.text }));
+  void callBackground({ type: "ui_plan_edit", items: [...pending, ...added.map((text) => ({ text }))] });
+}
+
+function renderPlan(items: PlanItem[], paused: boolean): void {
+  planItems = items;
+  if (!planCardEl) {
+    planCardEl = document.createElement("div");
+    planCardEl.className = "rounded-lg border border-gh-blue/40 bg-gh-overlay px-3 py-2 text-xs";
+    transcriptEl.appendChild(planCardEl);
+  }
+  planCardEl.innerHTML = "";
+
+  const header = document.createElement("div");
+  header.className = "flex items-center gap-2 font-semibold text-gh-muted mb-1";
+  const title = document.createElement("span");
+  const doneCount = items.filter((item) => item.status === "done").length;
+  title.textContent = `Plan · ${doneCount}/${items.length}`;
+  header.appendChild(title);
+  if (paused) {
+    const badge = document.createElement("span");
+    badge.className = "rounded-full border border-gh-orange/40 text-gh-orange text-[10px] px-1.5";
+    badge.textContent = "Paused";
+    header.appendChild(badge);
+  }
+  planCardEl.appendChild(header);
+
+  const list = document.createElement("ol");
+  list.className = "flex flex-col gap-0.5";
+  for (const item of items) {
+    const row = document.createElement("li");
+    row.className = "flex items-center gap-1.5";
+
+    const icon = document.createElement("span");
+    icon.className = `w-3 shrink-0 text-center ${PLAN_STATUS_CLASSES[item.status]}`;
+    icon.textContent = PLAN_STATUS_ICONS[item.status];
+    icon.title = item.status;
+    row.appendChild(icon);
+
+    if (item.status === "pending" && awaitingAssistantResponse) {
+      const input = makeFormInput("Plan item", 200);
+      input.value = item.text;
+      input.addEventListener("change", () => {
+        item.text = input.value.trim();
+        sendPlanEdit(items.filter((p) => p.status !== "pending" || p.text));
+      });
+      row.appendChild(input);
+
+      const removeBtn = document.createElement("button");
+      removeBtn.type = "button";
+      removeBtn.className = "text-gh-muted hover:text-gh-red text-[11px] px-1";
+      removeBtn.textContent = "×";
+      removeBtn.title = "Remove item";
+      removeBtn.addEventListener("click", () => sendPlanEdit(items.filter((p) => p !== item)));
+      row.appendChild(removeBtn);
+    } else {
+      const text = document.createElement("span");
+      text.className = item.status === "skipped" ? "text-gh-muted line-through" : "text-gh-text";
+      text.textContent = item.note ? `${item.text} — ${item.note}` : item.text;
+      row.appendChild(text);
+    }
+    list.appendChild(row);
+  }
+  planCardEl.appendChild(list);
+
+  const actions = document.createElement("div");
+  actions.className = "flex gap-1.5 mt-1.5";
+  if (awaitingAssistantResponse) {
+    const addBtn = document.createElement("button");
+    addBtn.type = "button";
+    addBtn.className = "rounded-full border border-dashed border-gh-border text-gh-muted text-[11px] font-semibold px-2.5 py-0.5 hover:border-gh-blue hover:text-gh-blue transition-colors";
+    addBtn.textContent = "+ Item";
+    addBtn.addEventListener("click", () => {
+      const input = makeFormInput("New plan item", 200);
+      addBtn.replaceWith(input);
+      input.focus();
+      input.addEventListener("change", () => {
+        const text = input.value.trim();
+        if (text) sendPlanEdit(items, [text]);
+      });
+    });
+    actions.appendChild(addBtn);
+  }
+  if (paused) {
+    const continueBtn = document.createElement("button");
+    continueBtn.type = "button";
+    continueBtn.className = "rounded-lg bg-gh-blue hover:bg-gh-blue-hover text-white text-[11px] font-semibold py-0.5 px-2.5 transition-colors";
+    continueBtn.textContent = "Continue";
+    continueBtn.addEventListener("click", async () => {
+      continueBtn.disabled = true;
+      await callBackground({ type: "ui_plan_continue" });
+    });
+    actions.appendChild(continueBtn);
+  }
+  if (actions.childElementCount) {
+    planCardEl.appendChild(actions);
+  }
+  transcriptEl.scrollTop = transcriptEl.scrollHeight;
+}
+
 function resetActivity(): void {
+  planCardEl = null;
   activityCardEl?.remove();
   activityCardEl = null;
   activityStepsEl = null;
@@ -179,11 +447,166 @@ function appendMessage(role: keyof typeof MSG_CLASSES, text: string): HTMLElemen
   return messageEl;
 }
 
+// ── History ──────────────────────────────────────────────────────────────────
+
+function clearTranscript(): void {
+  streamingMessageEl = null;
+  resetActivity();
+  transcriptEl.replaceChildren();
+}
+
+// Rebuilds a stored conversation: messages as bubbles, each run's steps folded like a finished activity card.
+function renderConversation(entries: HistoryEntry[]): void {
+  clearTranscript();
+  let steps: string[] = [];
+
+  const flushSteps = () => {
+    if (!steps.length) return;
+    for (const step of steps) appendActivityStep(step);
+    collapseActivityCard(steps.length);
+    steps = [];
+  };
+
+  for (const entry of entries) {
+    if (entry.kind === "step") {
+      steps.push(entry.text);
+    } else if (entry.kind === "user") {
+      flushSteps();
+      appendMessage("user", entry.text);
+    } else if (entry.kind === "assistant") {
+      flushSteps();
+      appendMessage("assistant", entry.text);
+    }
+  }
+  flushSteps();
+}
+
+function renderHistoryList(conversations: HistorySummary[]): void {
+  historyListEl.replaceChildren();
+  if (!conversations.length) {
+    const empty = document.createElement("li");
+    empty.className = "text-gh-muted";
+    empty.textContent = "No saved conversations yet.";
+    historyListEl.appendChild(empty);
+    return;
+  }
+
+  for (const item of conversations) {
+    const row = document.createElement("li");
+    const button = document.createElement("button");
+    button.type = "button";
+    const current = item.sessionId === uiState.sessionId;
+    button.className = `w-full text-left rounded-lg border px-2 py-1.5 transition-colors hover:border-gh-blue ${
+      current ? "border-gh-blue/60 bg-gh-blue/10" : "border-gh-border bg-gh-overlay"
+    }`;
+    button.disabled = awaitingAssistantResponse;
+
+    const title = document.createElement("div");
+    title.className = "text-gh-text truncate";
+    title.textContent = item.title;
+    const meta = document.createElement("div");
+    meta.className = "text-[10px] text-gh-muted";
+    meta.textContent = `${new Date(item.updatedAt).toLocaleString()} · ${item.messageCount} message${item.messageCount !== 1 ? "s" : ""}`;
+
+    button.append(title, meta);
+    button.addEventListener("click", async () => {
+      const response = await callBackground({ type: "ui_open_history", sessionId: item.sessionId });
+      if (response?.state) applyState(response.state);
+      historyDetailsEl.removeAttribute("open");
+      await callBackground({ type: "ui_list_models" });
+    });
+    row.appendChild(button);
+    historyListEl.appendChild(row);
+  }
+}
+
+// ── Extracted data ───────────────────────────────────────────────────────────
+
+function toCsv(result: ExtractResult): string {
+  const escapeCell = (value: ExtractValue) => {
+    const text = value === null ? "" : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const columns = result.fields.map((f) => f.name);
+  return [columns.map(escapeCell), ...result.records.map((r) => columns.map((c) => escapeCell(r[c] ?? null)))]
+    .map((row) => row.join(","))
+    .join("\n");
+}
+
+function appendDataTable(result: ExtractResult): void {
+  const card = document.createElement("div");
+  card.className = "rounded-lg border border-gh-border bg-gh-overlay px-3 py-2 text-xs";
+
+  const header = document.createElement("div");
+  header.className = "flex items-center gap-2 mb-1.5";
+  const title = document.createElement("span");
+  title.className = "flex-1 font-semibold text-gh-muted truncate";
+  const more = result.truncated || result.pagination.hasMore ? " (more available)" : "";
+  title.textContent = `${result.records.length} record${result.records.length !== 1 ? "s" : ""} from ${result.title || result.url}${more}`;
+  header.appendChild(title);
+
+  for (const [label, format] of [["Copy CSV", () => toCsv(result)], ["Copy JSON", () => JSON.stringify(result.records, null, 2)]] as const) {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.className = "rounded border border-gh-border px-1.5 py-0.5 text-[10px] text-gh-muted hover:text-gh-blue hover:border-gh-blue transition-colors";
+    button.textContent = label;
+    button.addEventListener("click", async () => {
+      await navigator.clipboard.writeText(format());
+      button.textContent = "Copied";
+      setTimeout(() => (button.textContent = label), 1200);
+    });
+    header.appendChild(button);
+  }
+  card.appendChild(header);
+
+  const scroller = document.createElement("div");
+  scroller.className = "overflow-auto max-h-64";
+  const table = document.createElement("table");
+  table.className = "w-full text-[11px] border-collapse";
+
+  const headRow = table.createTHead().insertRow();
+  for (const field of result.fields) {
+    const th = document.createElement("th");
+    th.className = "px-2 py-1 text-left font-semibold text-gh-muted border-b border-gh-border whitespace-nowrap";
+    th.textContent = field.name;
+    headRow.appendChild(th);
+  }
+
+  const body = table.createTBody();
+  for (const record of result.records) {
+    const row = body.insertRow();
+    row.className = "border-b border-gh-border/40 last:border-0";
+    for (const field of result.fields) {
+      const cell = row.insertCell();
+      cell.className = "px-2 py-1 text-gh-text align-top";
+      const value = record[field.name] ?? null;
+      if (field.type === "url" && typeof value === "string" && /^https?:/i.test(value)) {
+        const link = document.createElement("a");
+        link.href = value;
+        link.target = "_blank";
+        link.rel = "noopener noreferrer";
+        link.className = "text-gh-blue underline break-all hover:text-gh-blue-hover";
+        link.textContent = value;
+        cell.appendChild(link);
+      } else {
+        cell.textContent = value === null ? "—" : String(value);
+        cell.classList.toggle("text-gh-muted", value === null);
+      }
+    }
+  }
+
+  scroller.appendChild(table);
+  card.appendChild(scroller);
+  transcriptEl.appendChild(card);
+  transcriptEl.scrollTop = transcriptEl.scrollHeight;
+}
+
 // ── State rendering ───────────────────────────────────────────────────────────
 
 function renderState(): void {
   tokenInputEl.value = uiState.token;
   autoRunToggleEl.checked = uiState.autoRun;
+  stepModeToggleEl.checked = uiState.stepMode;
   connectBtnEl.disabled = uiState.connecting;
   connectBtnEl.textContent = uiState.connected ? "Reconnect" : uiState.connecting ? "Connecting..." : "Connect";
 
@@ -194,15 +617,138 @@ function renderState(): void {
   statusDotEl.classList.toggle("bg-gh-red", !uiState.connected && !uiState.connecting);
   statusTextEl.textContent = uiState.connected ? "Connected" : uiState.connecting ? "Connecting" : "Offline";
 
-  if (uiState.pendingAction) {
-    approvalLabelEl.textContent = `Pending: ${uiState.pendingAction.label}`;
-    approveBtnEl.disabled = false;
-    rejectBtnEl.disabled = false;
-  } else {
-    approvalLabelEl.textContent = "No pending action";
-    approveBtnEl.disabled = true;
-    rejectBtnEl.disabled = true;
+  renderApprovals();
+  renderPolicy();
+}
+
+// Each pending approval is answered on its own; borrowed sessions (HTTP API, MCP, scheduled jobs) can wait
+// alongside this conversation's run.
+function renderApprovals(): void {
+  approvalListEl.replaceChildren();
+  approvalEmptyEl.classList.toggle("hidden", uiState.pendingActions.length > 0);
+
+  for (const action of uiState.pendingActions) {
+    const card = document.createElement("li");
+    card.className = "space-y-2";
+    const label = document.createElement("p");
+    label.className = "text-[11px] text-gh-text";
+    const reason = action.reason ? ` (${action.reason})` : "";
+    const source = action.borrowed ? " · another session" : "";
+    label.textContent = `Pending: ${action.label}${reason}${source}`;
+    card.appendChild(label);
+
+    if (action.fields?.length) {
+      card.appendChild(renderApprovalFields(action.fields));
+    }
+
+    const buttons = document.createElement("div");
+    buttons.className = "grid grid-cols-2 gap-2";
+    buttons.append(makeApprovalButton(action, true), makeApprovalButton(action, false));
+    card.appendChild(buttons);
+    approvalListEl.appendChild(card);
+  }
+}
+
+function makeApprovalButton(action: PendingAction, approved: boolean): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.type = "button";
+  button.className = `rounded-lg bg-gh-overlay border border-gh-border ${approved ? "text-gh-green hover:border-gh-green" : "text-gh-red hover:border-gh-red"} text-xs font-semibold py-1.5 px-2 transition-colors`;
+  button.textContent = approved ? "Approve" : "Reject";
+  button.addEventListener("click", async () => {
+    button.disabled = true;
+    await callBackground({ type: "ui_approval", sessionId: action.sessionId, actionId: action.actionId, approved });
+  });
+  return button;
+}
+
+// A batched form fill lists every field mapping so the user approves them together.
+function renderApprovalFields(fields: ApprovalField[]): HTMLElement {
+  const list = document.createElement("ul");
+  list.className = "max-h-40 overflow-auto space-y-1 bg-gh-canvas border border-gh-border rounded p-2 text-[11px] text-gh-text";
+
+  for (const item of fields) {
+    const row = document.createElement("li");
+    row.className = "flex gap-1.5";
+    const name = document.createElement("span");
+    name.className = "text-gh-muted shrink-0";
+    name.textContent = item.label && item.label !== item.field ? `${item.field} → ${item.label}:` : `${item.field}:`;
+    const value = document.createElement("span");
+    value.className = "font-mono break-all";
+    value.textContent = item.value;
+    row.append(name, value);
+    list.appendChild(row);
+  }
+  return list;
+}
+
+// Only secret names and their origins reach the panel; values stay in extension storage.
+function renderSecrets(secrets: StoredSecret[]): void {
+  secretListEl.replaceChildren();
+  if (!secrets.length) {
+    const empty = document.createElement("li");
+    empty.className = "text-gh-muted";
+    empty.textContent = "No secrets stored.";
+    secretListEl.appendChild(empty);
+    return;
+  }
+
+  for (const { name, origin } of secrets) {
+    const chip = document.createElement("li");
+    chip.className = "flex items-center gap-1 rounded-full border border-gh-border bg-gh-canvas pl-2 pr-1 py-0.5 font-mono text-gh-text";
+    chip.textContent = name;
+    chip.title = origin ? `Typed only on ${origin}` : "Saved before secrets were tied to a site; delete and add it again";
+    if (!origin) chip.classList.add("line-through");
+
+    const removeBtn = document.createElement("button");
+    removeBtn.type = "button";
+    removeBtn.textContent = "×";
+    removeBtn.title = `Delete secret ${name}`;
+    removeBtn.className = "text-gh-muted hover:text-gh-red px-1";
+    removeBtn.addEventListener("click", async () => {
+      const response = await callBackground({ type: "ui_delete_secret", name });
+      if (response?.ok) renderSecrets(response.secrets ?? []);
+    });
+
+    chip.appendChild(removeBtn);
+    secretListEl.appendChild(chip);
+  }
+}
+
+// The backend reports the session's effective model, so a fallback shows up here as well.
+function renderModels(models: ModelOption[], defaultModel: string | null, model: string | null): void {
+  const defaultOption = new Option(`Copilot default${defaultModel ? ` (${defaultModel})` : ""}`, "");
+  modelSelectEl.replaceChildren(
+    defaultOption,
+    ...models.map((option) => new Option(`${option.name}${option.vision ? " · vision" : ""}`, option.id)),
+  );
+  if (model && !models.some((option) => option.id === model)) {
+    modelSelectEl.appendChild(new Option(model, model));
   }
+  modelSelectEl.value = model ?? "";
+  modelSelectEl.disabled = awaitingAssistantResponse;
+  modelStatusEl.textContent = `This conversation uses ${model ?? defaultModel ?? "the Copilot CLI default model"}.`;
+}
+
+function renderPolicy(): void {
+  const info = uiState.policy;
+  if (!info) {
+    policySummaryEl.textContent = uiState.connected ? "Loading…" : "Not loaded";
+    policyViewEl.classList.add("hidden");
+    return;
+  }
+
+  const loaded = new Date(info.loadedAt).toLocaleTimeString();
+  const source = info.source ? info.source.split(/[\\/]/).pop() : "built-in defaults";
+  policySummaryEl.textContent = info.error
+    ? `${source} — invalid, keeping previous rules: ${info.error}`
+    : `${source} (loaded ${loaded})`;
+  policySummaryEl.classList.toggle("text-gh-red", Boolean(info.error));
+
+  const hasRules = Object.values(info.policy).some((value) =>
+    Array.isArray(value) ? value.length > 0 : value && typeof value === "object" ? Object.keys(value).length > 0 : value !== undefined,
+  );
+  policyViewEl.textContent = hasRules ? JSON.stringify(info.policy, null, 2) : "No rules — all domains and tools allowed.";
+  policyViewEl.classList.remove("hidden");
 }
 
 function setComposerWaiting(isWaiting: boolean): void {
@@ -212,6 +758,9 @@ function setComposerWaiting(isWaiting: boolean): void {
   sendBtnEl.setAttribute("aria-busy", isWaiting ? "true" : "false");
   sendLabelEl.textContent = isWaiting ? "Waiting..." : "Send";
   sendSpinnerEl.classList.toggle("hidden", !isWaiting);
+  newChatBtnEl.disabled = isWaiting;
+  exportRunBtnEl.disabled = isWaiting;
+  if (modelSelectEl.options.length) modelSelectEl.disabled = isWaiting;
   renderQuickActions();
 }
 
@@ -222,10 +771,11 @@ async function callBackground(message: object): Promise<any> {
 function applyState(nextState: Partial<UiState>): void {
   const wasConnected = uiState.connected;
   Object.assign(uiState, nextState);
-  if (!uiState.connected && awaitingAssistantResponse) {
+  // While the extension is reconnecting the run is still alive on the backend.
+  if (!uiState.connected && !uiState.connecting && awaitingAssistantResponse) {
     setComposerWaiting(false);
   }
-  if (wasConnected && !uiState.connected) {
+  if (wasConnected && !uiState.connected && !uiState.connecting) {
     controlsDetailsEl.setAttribute("open", "");
   }
   renderState();
@@ -305,6 +855,8 @@ function renderQuickActions(): void {
     quickActionsEl.appendChild(chip);
   }
 
+  renderMacroChips(isWaiting);
+
   const addBtn = document.createElement("button");
   addBtn.type = "button";
   addBtn.className = "inline-flex items-center gap-1 rounded-full border border-dashed border-gh-border text-gh-muted text-[11px] font-semibold px-2.5 py-1 cursor-pointer whitespace-nowrap transition-colors hover:border-gh-blue hover:text-gh-blue disabled:opacity-40 disabled:cursor-not-allowed";
@@ -312,6 +864,40 @@ function renderQuickActions(): void {
   addBtn.textContent = "+ Add";
   addBtn.addEventListener("click", () => showQuickActionForm());
   quickActionsEl.appendChild(addBtn);
+
+  if (canSaveMacro && !isWaiting) {
+    const saveMacroBtn = document.createElement("button");
+    saveMacroBtn.type = "button";
+    saveMacroBtn.className = "inline-flex items-center gap-1 rounded-full border border-dashed border-gh-green/50 text-gh-green text-[11px] font-semibold px-2.5 py-1 cursor-pointer whitespace-nowrap transition-colors hover:border-gh-green";
+    saveMacroBtn.textContent = "Save run as macro";
+    saveMacroBtn.addEventListener("click", () => showMacroSaveForm());
+    quickActionsEl.appendChild(saveMacroBtn);
+  }
+}
+
+function makeFormInput(placeholder: string, maxLength: number): HTMLInputElement {
+  const el = document.createElement("input");
+  el.type = "text";
+  el.placeholder = placeholder;
+  el.maxLength = maxLength;
+  el.className = "flex-1 min-w-[60px] bg-gh-overlay border border-gh-border rounded-lg px-2 py-1 text-[11px] text-gh-text placeholder:text-gh-muted outline-none focus:border-gh-blue focus:ring-1 focus:ring-gh-blue/20 transition";
+  return el;
+}
+
+function makeFormButtons(onSave: () => void): HTMLButtonElement[] {
+  const saveBtn = document.createElement("button");
+  saveBtn.type = "button";
+  saveBtn.textContent = "Save";
+  saveBtn.className = "rounded-lg bg-gh-blue hover:bg-gh-blue-hover text-white text-[11px] font-semibold py-1 px-2.5 transition-colors";
+  saveBtn.addEventListener("click", onSave);
+
+  const cancelBtn = document.createElement("button");
+  cancelBtn.type = "button";
+  cancelBtn.textContent = "Cancel";
+  cancelBtn.className = "rounded-lg border border-gh-border text-gh-muted text-[11px] font-semibold py-1 px-2.5 hover:border-gh-border/80 transition-colors";
+  cancelBtn.addEventListener("click", () => renderQuickActions());
+
+  return [saveBtn, cancelBtn];
 }
 
 function showQuickActionForm(): void {
@@ -320,23 +906,10 @@ function showQuickActionForm(): void {
   const form = document.createElement("div");
   form.className = "qa-form flex flex-wrap gap-1.5 items-center w-full pt-1";
 
-  const makeInput = (placeholder: string, maxLength: number) => {
-    const el = document.createElement("input");
-    el.type = "text";
-    el.placeholder = placeholder;
-    el.maxLength = maxLength;
-    el.className = "flex-1 min-w-[60px] bg-gh-overlay border border-gh-border rounded-lg px-2 py-1 text-[11px] text-gh-text placeholder:text-gh-muted outline-none focus:border-gh-blue focus:ring-1 focus:ring-gh-blue/20 transition";
-    return el;
-  };
-
-  const labelInput = makeInput("Label", 30);
-  const promptInput = makeInput("Prompt", 200);
+  const labelInput = makeFormInput("Label", 30);
+  const promptInput = makeFormInput("Prompt", 200);
 
-  const saveBtn = document.createElement("button");
-  saveBtn.type = "button";
-  saveBtn.textContent = "Save";
-  saveBtn.className = "rounded-lg bg-gh-blue hover:bg-gh-blue-hover text-white text-[11px] font-semibold py-1 px-2.5 transition-colors";
-  saveBtn.addEventListener("click", async () => {
+  const buttons = makeFormButtons(async () => {
     const label = labelInput.value.trim();
     const prompt = promptInput.value.trim();
     if (!label || !prompt) return;
@@ -345,26 +918,242 @@ function showQuickActionForm(): void {
     renderQuickActions();
   });
 
-  const cancelBtn = document.createElement("button");
-  cancelBtn.type = "button";
-  cancelBtn.textContent = "Cancel";
-  cancelBtn.className = "rounded-lg border border-gh-border text-gh-muted text-[11px] font-semibold py-1 px-2.5 hover:border-gh-border/80 transition-colors";
-  cancelBtn.addEventListener("click", () => renderQuickActions());
-
-  form.append(labelInput, promptInput, saveBtn, cancelBtn);
+  form.append(labelInput, promptInput, ...buttons);
   quickActionsEl.appendChild(form);
   labelInput.focus();
 }
 
+// ── Macros ────────────────────────────────────────────────────────────────────
+
+let macros: Macro[] = [];
+let canSaveMacro = false;
+
+function renderMacroChips(isWaiting: boolean): void {
+  for (const macro of macros) {
+    const chip = document.createElement("button");
+    chip.type = "button";
+    chip.className = "inline-flex items-center gap-1 rounded-full border border-gh-green/40 bg-gh-overlay text-gh-green text-[11px] font-semibold px-2.5 py-1 cursor-pointer whitespace-nowrap transition-colors hover:border-gh-green disabled:opacity-40 disabled:cursor-not-allowed group";
+    chip.disabled = isWaiting;
+    chip.title = macro.steps.map((step, i) => `${i + 1}. ${step.label}`).join("\n");
+
+    const labelSpan = document.createElement("span");
+    labelSpan.textContent = `▶ ${macro.name}`;
+    chip.appendChild(labelSpan);
+
+    const removeBtn = document.createElement("button");
+    removeBtn.type = "button";
+    removeBtn.className = "hidden group-hover:inline-flex items-center justify-center w-3.5 h-3.5 rounded-full bg-gh-border/60 text-[10px] leading-none hover:bg-gh-red/30 hover:text-gh-red transition-colors cursor-pointer";
+    removeBtn.textContent = "×";
+    removeBtn.title = "Delete macro";
+    removeBtn.addEventListener("click", async (e) => {
+      e.stopPropagation();
+      await callBackground({ type: "ui_delete_macro", name: macro.name });
+    });
+    chip.appendChild(removeBtn);
+
+    chip.addEventListener("click", () => {
+      if (isWaiting) return;
+      if (macro.params.length) {
+        showMacroRunForm(macro);
+        return;
+      }
+      void runMacro(macro.name, {});
+    });
+
+    quickActionsEl.appendChild(chip);
+  }
+}
+
+async function runMacro(name: string, args: Record<string, string>): Promise<void> {
+  if (!uiState.connected) {
+    appendMessage("system", "Not connected. Please connect first.");
+    return;
+  }
+  appendMessage("user", `▶ Run macro "${name}"`);
+  streamingMessageEl = null;
+  resetActivity();
+  setComposerWaiting(true);
+  let response;
+  try {
+    response = await callBackground({ type: "ui_run_macro", name, args });
+  } catch (error: any) {
+    setComposerWaiting(false);
+    appendMessage("system", `Failed to run macro: ${String(error?.message || error)}`);
+    return;
+  }
+  if (!response?.ok) {
+    setComposerWaiting(false);
+    appendMessage("system", `Failed to run macro: ${response?.error || "unknown error"}`);
+  }
+}
+
+function showMacroRunForm(macro: Macro): void {
+  quickActionsEl.querySelector(".qa-form")?.remove();
+
+  const form = document.createElement("div");
+  form.className = "qa-form flex flex-wrap gap-1.5 items-center w-full pt-1";
+
+  const inputs = macro.params.map((param) => {
+    const input = makeFormInput(param.required ? `${param.name} (required)` : param.name, 500);
+    input.value = param.defaultValue;
+    input.title = param.name;
+    if (param.required) {
+      input.type = "password";
+      input.required = true;
+    }
+    return input;
+  });
+
+  const [runBtn, cancelBtn] = makeFormButtons(() => {
+    const args = Object.fromEntries(macro.params.map((param, i) => [param.name, inputs[i].value]));
+    renderQuickActions();
+    void runMacro(macro.name, args);
+  });
+  runBtn.textContent = "Run";
+
+  form.append(...inputs, runBtn, cancelBtn);
+  quickActionsEl.appendChild(form);
+  inputs[0]?.focus();
+}
+
+function showMacroSaveForm(): void {
+  quickActionsEl.querySelector(".qa-form")?.remove();
+
+  const form = document.createElement("div");
+  form.className = "qa-form flex flex-wrap gap-1.5 items-center w-full pt-1";
+
+  const nameInput = makeFormInput("Macro name", 40);
+  const buttons = makeFormButtons(async () => {
+    const name = nameInput.value.trim();
+    if (!name) return;
+    await callBackground({ type: "ui_save_macro", name });
+  });
+
+  form.append(nameInput, ...buttons);
+  quickActionsEl.appendChild(form);
+  nameInput.focus();
+}
+
+// ── Jobs ──────────────────────────────────────────────────────────────────────
+
+let jobs: ScheduledJob[] = [];
+
+const JOB_APPROVAL_LABELS: Record<ScheduledJob["approvalMode"], string> = {
+  deny: "read only",
+  ask: "asks for approval",
+  auto_run: "auto-run",
+};
+
+// The prompt field only applies to prompt jobs; saved macros are offered as the alternative.
+function renderJobTaskOptions(): void {
+  const selected = jobTaskSelectEl.value;
+  jobTaskSelectEl.replaceChildren(
+    new Option("Run a prompt", ""),
+    ...macros.map((macro) => new Option(`Run macro "${macro.name}"`, macro.name)),
+  );
+  jobTaskSelectEl.value = macros.some((macro) => macro.name === selected) ? selected : "";
+  jobPromptInputEl.classList.toggle("hidden", jobTaskSelectEl.value !== "");
+}
+
+function jobRunSummary(job: ScheduledJob): string {
+  if (job.running) return "Running now…";
+  const next = job.nextRunAt ? `next ${new Date(job.nextRunAt).toLocaleString()}` : "paused";
+  if (!job.lastRun) return `Never run · ${next}`;
+  const changed = job.lastRun.changed ? " · changed" : "";
+  return `Last ${job.lastRun.status} ${new Date(job.lastRun.finishedAt).toLocaleString()}${changed} · ${next}`;
+}
+
+function makeJobButton(label: string, title: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.type = "button";
+  button.textContent = label;
+  button.title = title;
+  button.className = "rounded border border-gh-border px-1.5 text-[10px] text-gh-muted hover:border-gh-blue hover:text-gh-blue transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+  button.addEventListener("click", onClick);
+  return button;
+}
+
+function renderJobs(): void {
+  jobListEl.replaceChildren();
+  if (!jobs.length) {
+    const empty = document.createElement("li");
+    empty.className = "text-gh-muted";
+    empty.textContent = "No scheduled jobs yet.";
+    jobListEl.appendChild(empty);
+    return;
+  }
+
+  for (const job of jobs) {
+    const row = document.createElement("li");
+    row.className = `rounded-lg border px-2 py-1.5 ${
+      job.lastRun?.changed ? "border-gh-orange/60 bg-gh-orange/10" : "border-gh-border bg-gh-overlay"
+    }`;
+
+    const header = document.createElement("div");
+    header.className = "flex items-center gap-1.5";
+    const title = document.createElement("span");
+    title.className = `flex-1 truncate ${job.enabled ? "text-gh-text" : "text-gh-muted line-through"}`;
+    title.textContent = job.name;
+    title.title = job.task.kind === "prompt" ? job.task.text : `Macro "${job.task.name}"`;
+
+    const runBtn = makeJobButton("Run", "Run now", () => void callBackground({ type: "ui_run_job", jobId: job.id }));
+    runBtn.disabled = job.running === true;
+    const toggleBtn = makeJobButton(job.enabled ? "Pause" : "Resume", job.enabled ? "Stop running on schedule" : "Run on schedule again", () => {
+      void callBackground({
+        type: "ui_save_job",
+        job: {
+          id: job.id,
+          name: job.name,
+          schedule: job.schedule,
+          task: job.task,
+          approvalMode: job.approvalMode,
+          enabled: !job.enabled,
+        },
+      });
+    });
+    const deleteBtn = makeJobButton("×", "Delete job", () => void callBackground({ type: "ui_delete_job", jobId: job.id }));
+    header.append(title, runBtn, toggleBtn, deleteBtn);
+
+    const meta = document.createElement("div");
+    meta.className = "text-[10px] text-gh-muted";
+    meta.textContent = `${job.schedule} · ${JOB_APPROVAL_LABELS[job.approvalMode]}${job.sessionId === uiState.sessionId ? " · this conversation" : ""}`;
+    const status = document.createElement("div");
+    status.className = "text-[10px] text-gh-muted";
+    status.textContent = jobRunSummary(job);
+    row.append(header, meta, status);
+
+    if (job.lastRun?.output) {
+      const output = document.createElement("details");
+      output.className = "mt-1";
+      const summary = document.createElement("summary");
+      summary.className = "cursor-pointer text-[10px] text-gh-muted hover:text-gh-text";
+      summary.textContent = "Last result";
+      const body = document.createElement("div");
+      body.className = "mt-1 max-h-40 overflow-auto rounded border border-gh-border bg-gh-canvas p-1.5 text-[11px] text-gh-text";
+      body.innerHTML = renderMarkdown(job.lastRun.output);
+      output.append(summary, body);
+      row.appendChild(output);
+    }
+
+    jobListEl.appendChild(row);
+  }
+}
+
 // ── Init ──────────────────────────────────────────────────────────────────────
 
 async function initialize(): Promise<void> {
   await loadQuickActions();
   renderQuickActions();
+  const secrets = await callBackground({ type: "ui_list_secrets" });
+  renderSecrets(secrets?.secrets ?? []);
   const init = await callBackground({ type: "ui_init" });
   if (init?.ok && init.state) {
     applyState(init.state);
-    if (!init.state.connected) {
+    if (init.state.connected) {
+      await callBackground({ type: "ui_load_history" });
+      await callBackground({ type: "ui_list_macros" });
+      await callBackground({ type: "ui_list_models" });
+    } else {
       controlsDetailsEl.setAttribute("open", "");
     }
   } else {
@@ -382,6 +1171,9 @@ connectBtnEl.addEventListener("click", async () => {
     applyState(response.state);
     appendMessage("system", "Connected to backend.");
     controlsDetailsEl.removeAttribute("open");
+    await callBackground({ type: "ui_load_history" });
+    await callBackground({ type: "ui_list_macros" });
+    await callBackground({ type: "ui_list_models" });
   } else {
     appendMessage("system", `Failed to connect: ${response?.error || "unknown error"}`);
   }
@@ -392,14 +1184,105 @@ autoRunToggleEl.addEventListener("change", async () => {
   if (response?.ok && response.state) applyState(response.state);
 });
 
-approveBtnEl.addEventListener("click", async () => {
-  if (!uiState.pendingAction) return;
-  await callBackground({ type: "ui_approval", actionId: uiState.pendingAction.actionId, approved: true });
+modelSelectEl.addEventListener("change", async () => {
+  const model = modelSelectEl.value;
+  modelStatusEl.textContent = `Switching to ${model || "the Copilot default model"}…`;
+  const response = await callBackground({ type: "ui_set_model", model });
+  if (!response?.ok) {
+    appendMessage("system", "Could not switch model: backend is not connected.");
+  }
+});
+
+stepModeToggleEl.addEventListener("change", async () => {
+  const response = await callBackground({ type: "ui_set_step_mode", stepMode: stepModeToggleEl.checked });
+  if (response?.ok && response.state) applyState(response.state);
 });
 
-rejectBtnEl.addEventListener("click", async () => {
-  if (!uiState.pendingAction) return;
-  await callBackground({ type: "ui_approval", actionId: uiState.pendingAction.actionId, approved: false });
+jobsDetailsEl.addEventListener("toggle", async () => {
+  if (!jobsDetailsEl.open) return;
+  renderJobTaskOptions();
+  const response = await callBackground({ type: "ui_list_jobs" });
+  if (!response?.ok) {
+    jobs = [];
+    renderJobs();
+  }
+});
+
+jobTaskSelectEl.addEventListener("change", () => renderJobTaskOptions());
+
+jobFormEl.addEventListener("submit", async (event) => {
+  event.preventDefault();
+  const macroName = jobTaskSelectEl.value;
+  const prompt = jobPromptInputEl.value.trim();
+  if (!macroName && !prompt) {
+    appendMessage("system", "Enter a prompt for the job or pick a macro.");
+    return;
+  }
+  const response = await callBackground({
+    type: "ui_save_job",
+    job: {
+      name: jobNameInputEl.value.trim(),
+      schedule: jobScheduleInputEl.value.trim(),
+      task: macroName ? { kind: "macro", name: macroName } : { kind: "prompt", text: prompt },
+      approvalMode: jobApprovalSelectEl.value,
+      enabled: true,
+      ...(jobSessionToggleEl.checked ? { sessionId: uiState.sessionId } : {}),
+    },
+  });
+  if (!response?.ok) {
+    appendMessage("system", "Could not save the job: backend is not connected.");
+  }
+});
+
+historyDetailsEl.addEventListener("toggle", async () => {
+  if (!historyDetailsEl.open) return;
+  const response = await callBackground({ type: "ui_list_history" });
+  if (!response?.ok) {
+    renderHistoryList([]);
+  }
+});
+
+newChatBtnEl.addEventListener("click", async () => {
+  const response = await callBackground({ type: "ui_new_chat" });
+  if (response?.state) applyState(response.state);
+  canSaveMacro = false;
+  clearTranscript();
+  historyDetailsEl.removeAttribute("open");
+  await callBackground({ type: "ui_list_models" });
+});
+
+exportRunBtnEl.addEventListener("click", async () => {
+  const response = await callBackground({ type: "ui_export_run" });
+  if (!response?.ok) {
+    appendMessage("system", "Could not export the run: backend is not connected.");
+  }
+});
+
+function downloadFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+secretFormEl.addEventListener("submit", async (event) => {
+  event.preventDefault();
+  const name = secretNameInputEl.value.trim();
+  const response = await callBackground({ type: "ui_save_secret", name, value: secretValueInputEl.value });
+  if (response?.error === "NO_SECRET_ORIGIN") {
+    appendMessage("system", "Open the site the secret belongs to in the active tab first; a secret is only typed on that site.");
+    return;
+  }
+  if (!response?.ok) {
+    appendMessage("system", "Secret names may use letters, digits, _ . and - (up to 64), and the value cannot be empty.");
+    return;
+  }
+  secretNameInputEl.value = "";
+  secretValueInputEl.value = "";
+  renderSecrets(response.secrets ?? []);
+  appendMessage("system", `Saved secret "${name}" for ${response.origin}. Use {{secret:${name}}} in a message.`);
 });
 
 stopBtnEl.addEventListener("click", async () => {
@@ -470,12 +1353,107 @@ chrome.runtime.onMessage.addListener((message) => {
     streamingMessageEl = null;
     const count = activityStepCount;
     collapseActivityCard(count);
+    if (planCardEl) renderPlan(planItems, false);
     appendMessage("assistant", event.text);
+    canSaveMacro = !/^(Failed|Cancelled)|^Macro ".*" (stopped|failed)/.test(event.text);
+    renderQuickActions();
+    return;
+  }
+
+  if (event.type === "history_list") {
+    renderHistoryList(event.conversations ?? []);
+    return;
+  }
+
+  if (event.type === "plan") {
+    renderPlan(event.items ?? [], event.paused === true);
+    return;
+  }
+
+  if (event.type === "macro_list") {
+    macros = event.macros ?? [];
+    renderQuickActions();
+    renderJobTaskOptions();
+    return;
+  }
+
+  if (event.type === "job_list") {
+    jobs = event.jobs ?? [];
+    renderJobs();
+    return;
+  }
+
+  if (event.type === "job_saved") {
+    if (event.ok) {
+      jobFormEl.reset();
+      renderJobTaskOptions();
+    } else {
+      appendMessage("system", `Could not save job "${event.name}": ${event.error || "unknown error"}`);
+    }
+    return;
+  }
+
+  if (event.type === "job_finished" && event.job) {
+    const job: ScheduledJob = event.job;
+    jobs = jobs.some((item) => item.id === job.id) ? jobs.map((item) => (item.id === job.id ? job : item)) : [...jobs, job];
+    renderJobs();
+    if (job.lastRun?.changed) {
+      appendMessage("system", `Job "${job.name}" finished with a different result than last time.`);
+    }
+    return;
+  }
+
+  if (event.type === "model_state") {
+    renderModels(event.models ?? [], event.defaultModel ?? null, event.model ?? null);
+    if (event.notice) appendMessage("system", event.notice);
+    return;
+  }
+
+  if (event.type === "audit_export") {
+    const records: unknown[] = event.records ?? [];
+    if (!event.runId || !records.length) {
+      appendMessage("system", "No run to export in this conversation yet.");
+      return;
+    }
+    const jsonl = records.map((record) => JSON.stringify(record)).join("\n");
+    downloadFile(`run-${event.runId}.jsonl`, `${jsonl}\n`, "application/x-ndjson");
+    downloadFile(`run-${event.runId}.md`, event.markdown ?? "", "text/markdown");
+    appendMessage("system", `Exported run ${event.runId}.`);
+    return;
+  }
+
+  if (event.type === "macro_saved") {
+    if (event.ok) {
+      canSaveMacro = false;
+      appendMessage("system", `Saved macro "${event.name}".`);
+    } else {
+      appendMessage("system", `Could not save macro: ${event.error || "unknown error"}`);
+    }
+    renderQuickActions();
+    return;
+  }
+
+  if (event.type === "history") {
+    if (event.conversation?.entries?.length && !awaitingAssistantResponse) {
+      renderConversation(event.conversation.entries);
+    }
+    return;
+  }
+
+  if (event.type === "screenshot" && event.data) {
+    appendActivityImage(event.label, event.mimeType, event.data);
+    return;
+  }
+
+  if (event.type === "extract_result" && event.result) {
+    appendDataTable(event.result);
     return;
   }
 
   if (event.type === "approval_needed" && event.action) {
-    appendMessage("system", `Approval required: ${event.action.label}`);
+    const reason = event.action.reason ? ` (${event.action.reason})` : "";
+    appendMessage("system", `Approval required: ${event.action.label}${reason}`);
+    controlsDetailsEl.setAttribute("open", "");
   }
 });
 